@@ -9,11 +9,23 @@ import Home from "@/pages/home";
 import NotFound from "@/pages/not-found";
 import CreateMatch from "@/pages/create-match";
 import BetHistory from "@/pages/bet-history";
+import Wallet from "@/pages/wallet";
+import CustomMarkets from "@/pages/custom-markets";
+import MarketOdds from "@/pages/market-odds";
+import LeaguePage from "@/pages/league";
+import MatchPage from "@/pages/match";
+import GenerateFixturesPage from "@/pages/generate-fixtures";
+import ImportResultsPage from "@/pages/import-results";
+import AuthPage from "@/pages/auth-page";
+import { AuthProvider } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { ProtectedRoute } from "@/lib/protected-route";
 import { Switch, Route } from "wouter";
 import { useState } from "react";
 
-function Router() {
+function MainLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  useLiveUpdates();
 
   return (
     <div className="flex h-screen overflow-hidden">
@@ -22,25 +34,50 @@ function Router() {
         <Header onMenuClick={() => setSidebarOpen(true)} />
         <main className="container py-6">
           <Switch>
-            <Route path="/" component={Home} />
-            <Route path="/create" component={CreateMatch} />
-            <Route path="/history" component={BetHistory} />
+            <ProtectedRoute path="/" component={Home} />
+            <ProtectedRoute path="/create" component={CreateMatch} adminOnly />
+            <ProtectedRoute path="/history" component={BetHistory} />
+            <ProtectedRoute path="/wallet" component={Wallet} />
+            <ProtectedRoute path="/matches/:id/custom-markets" component={CustomMarkets} adminOnly />
+            <ProtectedRoute path="/matches/:id/odds" component={MarketOdds} adminOnly />
+            <ProtectedRoute path="/matches/:id" component={MatchPage} />
+            <ProtectedRoute path="/league/:id/fixtures" component={GenerateFixturesPage} adminOnly />
+            <ProtectedRoute path="/league/:id/import" component={ImportResultsPage} adminOnly />
+            <ProtectedRoute path="/league/:id" component={LeaguePage} />
             <Route component={NotFound} />
           </Switch>
         </main>
       </div>
       <MobileNav />
-      <Toaster />
     </div>
   );
 }
 
+function Router() {
+  return (
+    <>
+      <Switch>
+        <Route path="/login">
+          <AuthPage mode="login" />
+        </Route>
+        <Route path="/register">
+          <AuthPage mode="register" />
+        </Route>
+        <Route component={MainLayout} />
+      </Switch>
+      <Toaster />
+    </>
+  );
+}
+
 export default function App() {
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
-        <Router />
+        <AuthProvider>
+          <Router />
+        </AuthProvider>
       </QueryClientProvider>
     </ErrorBoundary>
   );
-}
\ No newline at end of file
+}
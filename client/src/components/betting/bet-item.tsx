@@ -1,14 +1,30 @@
-import { getMarketLabel } from "@/lib/utils";
+import { getMarketLabel, formatHandicap } from "@/lib/utils";
 import { BetSelection } from "@/lib/betting-store";
+import { parseMarketType, getQuarterLineSplit } from "@shared/markets";
 
 interface BetItemProps {
   bet: BetSelection;
   onRemove: () => void;
+  newOdds?: number; // Current price when it no longer matches the slip
 }
 
-export default function BetItem({ bet, onRemove }: BetItemProps) {
+// Quarter line stakes are split across the two neighbouring lines
+function getSplitLabel(marketType: string): string | null {
+  const spec = parseMarketType(marketType);
+  if (!spec || spec.line === null) return null;
+
+  const split = getQuarterLineSplit(spec.line);
+  if (!split) return null;
+
+  const format = spec.family === "ASIAN_HANDICAP" ? formatHandicap : (line: number) => `${line}`;
+  return `Aposta dividida: metade em ${format(split[0])}, metade em ${format(split[1])}`;
+}
+
+export default function BetItem({ bet, onRemove, newOdds }: BetItemProps) {
+  const splitLabel = getSplitLabel(bet.marketType);
+
   return (
-    <div className="bg-gray-100 rounded-md p-3 relative">
+    <div className={`rounded-md p-3 relative ${newOdds !== undefined ? 'bg-yellow-50 ring-1 ring-yellow-400' : 'bg-gray-100'}`}>
       <button 
         className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
         onClick={onRemove}
@@ -23,8 +39,16 @@ export default function BetItem({ bet, onRemove }: BetItemProps) {
         <span className="text-sm text-gray-600">
           {getMarketLabel(bet.marketType || 'Unknown')} ({bet.marketType || 'N/A'})
         </span>
-        <span className="font-semibold">{bet.odds ? bet.odds.toFixed(2) : '0.00'}</span>
+        {newOdds !== undefined ? (
+          <span className="font-semibold">
+            <span className="line-through text-gray-400 mr-1">{bet.odds.toFixed(2)}</span>
+            <span className={newOdds > bet.odds ? 'text-green-600' : 'text-red-600'}>{newOdds.toFixed(2)}</span>
+          </span>
+        ) : (
+          <span className="font-semibold">{bet.odds ? bet.odds.toFixed(2) : '0.00'}</span>
+        )}
       </div>
+      {splitLabel && <div className="text-xs text-gray-500 mt-1">{splitLabel}</div>}
     </div>
   );
 }
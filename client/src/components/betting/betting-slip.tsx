@@ -5,8 +5,18 @@ import { useBettingStore } from "@/lib/betting-store";
 import BetItem from "./bet-item";
 import { formatMoney, formatOdds, calculateTotalOdds, calculatePotentialWin } from "@/lib/utils";
 import { useMutation, useQueryClient, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { BetPlacementErrorBody, OddsChange } from "@shared/schema";
+
+// Bet placement rejections carry a code, plus the new prices when odds changed
+function getBetPlacementError(error: unknown): BetPlacementErrorBody | undefined {
+  if (error instanceof ApiError && typeof error.data === "object" && error.data !== null && "code" in error.data) {
+    return error.data as BetPlacementErrorBody;
+  }
+  return undefined;
+}
 
 interface BettingSlipProps {
   open: boolean;
@@ -14,14 +24,17 @@ interface BettingSlipProps {
 }
 
 export default function BettingSlip({ open, onClose }: BettingSlipProps) {
-  const { bets, removeBet, clearBets } = useBettingStore();
+  const { bets, removeBet, clearBets, updateOdds } = useBettingStore();
   const [stake, setStake] = useState<string>("10");
+  const [oddsChanges, setOddsChanges] = useState<OddsChange[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
   
   // Get user balance
-  const { data: balanceData } = useQuery({
+  const { data: balanceData } = useQuery<{ balance: number }>({
     queryKey: ['/api/balance'],
+    enabled: !!user,
   });
   
   const userBalance = balanceData?.balance || 0;
@@ -29,6 +42,9 @@ export default function BettingSlip({ open, onClose }: BettingSlipProps) {
   const totalOdds = calculateTotalOdds(bets.map(bet => bet.odds));
   const potentialWin = calculatePotentialWin(parseFloat(stake) || 0, totalOdds);
   
+  // Price changes reported by the server that still apply to the slip
+  const pendingChanges = oddsChanges.filter(change => bets.some(bet => bet.id === change.marketId));
+  
   // Listen for open-betting-slip event
   useEffect(() => {
     const handleOpenBettingSlip = () => onClose();
@@ -51,15 +67,12 @@ export default function BettingSlip({ open, onClose }: BettingSlipProps) {
         throw new Error("Please add at least one selection to your betting slip");
       }
       
-      // Create bet payload with current date
+      // The server prices the bet itself; the odds let it detect stale prices
       const betData = {
         stake: stakeAmount,
-        totalOdds: totalOdds,
-        potentialWin: potentialWin,
-        status: "PENDING",
-        createdAt: new Date(),
         selections: bets.map(bet => ({
-          marketId: bet.id
+          marketId: bet.id,
+          odds: bet.odds
         }))
       };
       
@@ -74,23 +87,46 @@ export default function BettingSlip({ open, onClose }: BettingSlipProps) {
       
       // Clear the form and close the betting slip
       setStake("10");
+      setOddsChanges([]);
       clearBets();
       onClose();
       
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
       queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       console.error("Error placing bet:", error);
+      const body = getBetPlacementError(error);
+      
+      // The slip was built from stale match data, so refresh it
+      if (body?.code) {
+        queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      }
+      
+      if (body?.code === "ODDS_CHANGED" && body.changes) {
+        setOddsChanges(body.changes);
+        toast({
+          title: "Odds have changed",
+          description: "Review the new prices and accept them to place your bet.",
+        });
+        return;
+      }
+      
       toast({
         title: "Error placing bet",
-        description: error.message || "Failed to place bet. Please try again.",
+        description: body?.message || error.message || "Failed to place bet. Please try again.",
         variant: "destructive",
       });
     }
   });
   
+  const handleAcceptNewOdds = () => {
+    updateOdds(pendingChanges);
+    setOddsChanges([]);
+  };
+  
   const handlePlaceBet = () => {
     if (parseFloat(stake) > userBalance) {
       toast({
@@ -145,6 +181,7 @@ export default function BettingSlip({ open, onClose }: BettingSlipProps) {
                       key={bet.id}
                       bet={bet}
                       onRemove={() => removeBet(bet.id)}
+                      newOdds={pendingChanges.find(change => change.marketId === bet.id)?.newOdds}
                     />
                   ))}
                 </div>
@@ -178,13 +215,27 @@ export default function BettingSlip({ open, onClose }: BettingSlipProps) {
                 />
               </div>
               
-              <Button
-                onClick={handlePlaceBet}
-                disabled={placeBetMutation.isPending || bets.length === 0 || !stake || parseFloat(stake) <= 0 || parseFloat(stake) > userBalance}
-                className="w-full bg-yellow-400 text-primary font-medium py-3 hover:bg-yellow-500"
-              >
-                {placeBetMutation.isPending ? "Placing Bet..." : "Place Bet"}
-              </Button>
+              {pendingChanges.length > 0 ? (
+                <>
+                  <p className="text-sm text-yellow-700 mb-2">
+                    {pendingChanges.length === 1 ? "1 selection has" : `${pendingChanges.length} selections have`} new odds.
+                  </p>
+                  <Button
+                    onClick={handleAcceptNewOdds}
+                    className="w-full bg-yellow-400 text-primary font-medium py-3 hover:bg-yellow-500"
+                  >
+                    Accept New Odds
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  onClick={handlePlaceBet}
+                  disabled={placeBetMutation.isPending || bets.length === 0 || !stake || parseFloat(stake) <= 0 || parseFloat(stake) > userBalance}
+                  className="w-full bg-yellow-400 text-primary font-medium py-3 hover:bg-yellow-500"
+                >
+                  {placeBetMutation.isPending ? "Placing Bet..." : "Place Bet"}
+                </Button>
+              )}
               
               {parseFloat(stake) > userBalance && (
                 <p className="text-red-500 text-sm mt-2">
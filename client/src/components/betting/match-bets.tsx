@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { BetWithSelections } from "@shared/schema";
+import {
+  formatDateTime,
+  formatMoney,
+  getMarketLabel,
+  getSelectionStatusClass,
+  getSelectionStatusLabel
+} from "@/lib/utils";
+
+interface MatchBetsProps {
+  matchId: number;
+}
+
+// The user's bets with a selection on this match; accumulators show only
+// their legs on it, with the number of legs elsewhere
+export default function MatchBets({ matchId }: MatchBetsProps) {
+  const { data: bets = [] } = useQuery<BetWithSelections[]>({
+    queryKey: ['/api/bets'],
+  });
+
+  const matchBets = bets.filter(bet => bet.selections.some(selection => selection.market.match.id === matchId));
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-lg font-semibold text-black mb-3">As Minhas Apostas</h2>
+      {matchBets.length === 0 ? (
+        <div className="text-sm text-gray-500">Ainda não apostou neste jogo.</div>
+      ) : (
+        <div className="divide-y">
+          {matchBets.map(bet => {
+            const selections = bet.selections.filter(selection => selection.market.match.id === matchId);
+            const otherLegs = bet.selections.length - selections.length;
+
+            return (
+              <div key={bet.id} className="py-2 space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-500">{formatDateTime(new Date(bet.createdAt))}</span>
+                  <span className="font-medium text-black">
+                    {formatMoney(bet.stake)}
+                    {bet.payout != null
+                      ? ` · Retorno ${formatMoney(bet.payout)}`
+                      : ` · Potencial ${formatMoney(bet.potentialWin)}`}
+                  </span>
+                </div>
+                {selections.map(selection => (
+                  <div key={selection.id} className="flex items-center justify-between text-sm">
+                    <span>{getMarketLabel(selection.market.type)} @ {selection.odds}</span>
+                    {selection.status !== "PENDING" && (
+                      <span className={`px-2 py-0.5 text-xs rounded ${getSelectionStatusClass(selection.status)}`}>
+                        {getSelectionStatusLabel(selection.status)}
+                      </span>
+                    )}
+                  </div>
+                ))}
+                {otherLegs > 0 && (
+                  <div className="text-xs text-gray-500">Múltipla com mais {otherLegs} seleção(ões)</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
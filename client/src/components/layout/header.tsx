@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { useState } from "react";
 import { Link } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 import BettingSlip from "../betting/betting-slip";
 
 interface HeaderProps {
@@ -11,13 +12,15 @@ interface HeaderProps {
 
 export default function Header({ onMenuClick }: HeaderProps) {
   const [bettingSlipOpen, setBettingSlipOpen] = useState(false);
+  const { user, isAdmin, logoutMutation } = useAuth();
   
-  const { data: balanceData } = useQuery({
+  const { data: balanceData } = useQuery<{ balance: number }>({
     queryKey: ['/api/balance'],
     staleTime: 60000, // 1 minute
+    enabled: !!user,
   });
   
-  const balance = balanceData?.balance || 10000;
+  const balance = balanceData?.balance ?? 0;
   
   return (
     <header className="bg-primary shadow-md">
@@ -47,22 +50,25 @@ export default function Header({ onMenuClick }: HeaderProps) {
               </svg>
               <span>{formatMoney(balance)}</span>
             </span>
-            <button 
-              onClick={() => {
-                fetch('/api/balance/add', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ amount: 1000 })
-                })
-                .then(res => res.json())
-                .then(() => {
-                  queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
-                });
-              }}
-              className="bg-green-500 text-white text-sm px-2 py-1 rounded hover:bg-green-600"
-            >
-              +1000€
-            </button>
+            {isAdmin && (
+              <button 
+                onClick={() => {
+                  fetch('/api/balance/add', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ amount: 1000 })
+                  })
+                  .then(res => res.json())
+                  .then(() => {
+                    queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+                    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/transactions') });
+                  });
+                }}
+                className="bg-green-500 text-white text-sm px-2 py-1 rounded hover:bg-green-600"
+              >
+                +1000€
+              </button>
+            )}
           </div>
           <Link
             to="/history"
@@ -70,6 +76,24 @@ export default function Header({ onMenuClick }: HeaderProps) {
           >
             Histórico
           </Link>
+          <Link
+            to="/wallet"
+            className="mr-4 text-white hover:text-yellow-400"
+          >
+            Carteira
+          </Link>
+          {user && (
+            <div className="flex items-center mr-4 text-white">
+              <span className="mr-2 text-sm">{user.username}</span>
+              <button
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="text-sm hover:text-yellow-400"
+              >
+                Sair
+              </button>
+            </div>
+          )}
           <button 
             onClick={() => setBettingSlipOpen(true)}
             className="bg-yellow-400 text-primary px-3 py-1.5 rounded-md font-medium flex items-center"
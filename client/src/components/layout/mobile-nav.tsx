@@ -1,7 +1,9 @@
 import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function MobileNav() {
   const [location] = useLocation();
+  const { isAdmin } = useAuth();
   
   return (
     <div className="md:hidden fixed bottom-0 left-0 right-0 bg-primary text-white flex items-center justify-around py-3 px-4 shadow-lg z-10">
@@ -47,27 +49,30 @@ export default function MobileNav() {
         <span className="text-xs mt-1">Leagues</span>
       </button>
       
-      <div>
-        <Link href="/create">
-          <div className="flex flex-col items-center cursor-pointer">
-            <svg 
-              xmlns="http://www.w3.org/2000/svg" 
-              className="h-5 w-5" 
-              viewBox="0 0 24 24" 
-              fill="none" 
-              stroke="currentColor" 
-              strokeWidth="2" 
-              strokeLinecap="round" 
-              strokeLinejoin="round"
-            >
-              <circle cx="12" cy="12" r="10" />
-              <line x1="12" y1="8" x2="12" y2="16" />
-              <line x1="8" y1="12" x2="16" y2="12" />
-            </svg>
-            <span className="text-xs mt-1">Create</span>
-          </div>
-        </Link>
-      </div>
+      {isAdmin && (
+        <div>
+          <Link href="/create">
+            <div className="flex flex-col items-center cursor-pointer">
+              <svg 
+                xmlns="http://www.w3.org/2000/svg" 
+                className="h-5 w-5" 
+                viewBox="0 0 24 24" 
+                fill="none" 
+                stroke="currentColor" 
+                strokeWidth="2" 
+                strokeLinecap="round" 
+                strokeLinejoin="round"
+              >
+                <circle cx="12" cy="12" r="10" />
+                <line x1="12" y1="8" x2="12" y2="16" />
+                <line x1="8" y1="12" x2="16" y2="12" />
+              </svg>
+              <span className="text-xs mt-1">Create</span>
+            </div>
+          </Link>
+        </div>
+      
+      )}
       
       <button className="flex flex-col items-center" onClick={() => document.dispatchEvent(new Event("open-betting-slip"))}>
         <svg 
@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
 
 interface SidebarProps {
   open: boolean;
@@ -25,6 +26,7 @@ interface Continent {
 
 export default function Sidebar({ open, onClose }: SidebarProps) {
   const [location] = useLocation();
+  const { isAdmin } = useAuth();
   const [expandedContinents, setExpandedContinents] = useState<Record<string, boolean>>({
     "Europe": true
   });
@@ -227,12 +229,20 @@ export default function Sidebar({ open, onClose }: SidebarProps) {
                       {expandedCountries[country.name] && (
                         <div className="pl-4 space-y-1 mt-1">
                           {country.leagues.map(league => (
-                            <div key={league.id} className="league-item flex items-center py-1 px-2 rounded cursor-pointer hover:bg-primary-foreground/5">
+                            <Link
+                              key={league.id}
+                              href={`/league/${league.id}`}
+                              onClick={onClose}
+                              className={cn(
+                                "league-item flex items-center py-1 px-2 rounded cursor-pointer hover:bg-primary-foreground/5",
+                                location === `/league/${league.id}` && "bg-primary-foreground/10"
+                              )}
+                            >
                               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 text-green-400 mr-2" viewBox="0 0 24 24" fill="currentColor">
                                 <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z"/>
                               </svg>
                               <span className="text-sm">{league.name}</span>
-                            </div>
+                            </Link>
                           ))}
                         </div>
                       )}
@@ -243,19 +253,21 @@ export default function Sidebar({ open, onClose }: SidebarProps) {
             </div>
           ))}
           
-          <div className="border-t border-gray-700 my-4 pt-4">
-            <div className="w-full bg-green-700 hover:bg-green-800 text-white py-2 rounded-md flex items-center justify-center">
-              <Link href="/create">
-                <div className="flex items-center">
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <line x1="12" y1="5" x2="12" y2="19" />
-                    <line x1="5" y1="12" x2="19" y2="12" />
-                  </svg>
-                  <span>Create Match</span>
-                </div>
-              </Link>
+          {isAdmin && (
+            <div className="border-t border-gray-700 my-4 pt-4">
+              <div className="w-full bg-green-700 hover:bg-green-800 text-white py-2 rounded-md flex items-center justify-center">
+                <Link href="/create">
+                  <div className="flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <line x1="12" y1="5" x2="12" y2="19" />
+                      <line x1="5" y1="12" x2="19" y2="12" />
+                    </svg>
+                    <span>Create Match</span>
+                  </div>
+                </Link>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </aside>
     </>
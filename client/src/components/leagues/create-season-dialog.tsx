@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Season } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Plus } from "lucide-react";
+
+interface CreateSeasonDialogProps {
+  leagueId: number;
+  onCreated?: (season: Season) => void;
+}
+
+// Admin dialog for a new season; matches kicking off between its dates are
+// filed under it when they are created
+export default function CreateSeasonDialog({ leagueId, onCreated }: CreateSeasonDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const { toast } = useToast();
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest<Season>("POST", `/api/leagues/${leagueId}/seasons`, {
+      name: name.trim(),
+      startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+      endDate: new Date(`${endDate}T00:00:00`).toISOString()
+    }),
+    onSuccess: (season) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/seasons`] });
+      toast({
+        title: "Época criada",
+        description: `${season.name} foi criada com sucesso!`
+      });
+      setName("");
+      setStartDate("");
+      setEndDate("");
+      setIsOpen(false);
+      onCreated?.(season);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          Nova Época
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Criar Nova Época</DialogTitle>
+          <DialogDescription>
+            Os jogos desta liga entre as duas datas passam a contar para esta época.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="seasonName">Nome</Label>
+              <Input
+                id="seasonName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="ex: 2024/25"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="seasonStart">Início</Label>
+                <Input
+                  id="seasonStart"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seasonEnd">Fim</Label>
+                <Input
+                  id="seasonEnd"
+                  type="date"
+                  min={startDate || undefined}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter className="mt-6">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending ? "A criar..." : "Criar Época"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { Link } from "wouter";
+import type { MatchWithTeamsAndMarkets, Round } from "@shared/schema";
+import { getTieWinner } from "@shared/cups";
+import { formatDateTime, formatTieScore, getRoundLabel } from "@/lib/utils";
+
+interface CupBracketProps {
+  rounds: Round[];
+  matches: MatchWithTeamsAndMarkets[];  // The season's matches
+}
+
+// A season's knockout draw, one column per round from the first to the final.
+// Ties not drawn yet (their winners are still playing) are shown as "A definir".
+export default function CupBracket({ rounds, matches }: CupBracketProps) {
+  const bracketRounds = [...rounds].sort((a, b) => a.number - b.number);
+  const bracketMatches = matches.filter(match => match.bracketSlot !== null);
+
+  if (bracketRounds.length === 0 || bracketMatches.length === 0) {
+    return <div className="text-center py-6 text-gray-500">As eliminatórias desta época ainda não foram sorteadas.</div>;
+  }
+
+  const findMatch = (round: Round, slot: number) =>
+    bracketMatches.find(match => match.roundId === round.id && match.bracketSlot === slot);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 overflow-x-auto">
+      <div className="flex gap-4 min-w-max">
+        {bracketRounds.map((round, index) => {
+          // Each round has half the ties of the one before, down to the final
+          const slots = 2 ** (bracketRounds.length - 1 - index);
+          return (
+            <div key={round.id} className="w-56 flex flex-col">
+              <div className="text-sm font-semibold text-black mb-2">
+                {getRoundLabel(round)}
+                {round.startTime && (
+                  <span className="block text-xs font-normal text-gray-500">{formatDateTime(round.startTime)}</span>
+                )}
+              </div>
+              <div className="flex-1 flex flex-col justify-around gap-2">
+                {Array.from({ length: slots }, (_, slot) => {
+                  const match = findMatch(round, slot);
+                  if (!match) {
+                    return (
+                      <div key={slot} className="border border-dashed rounded-md p-2 text-xs text-gray-400 text-center">
+                        A definir
+                      </div>
+                    );
+                  }
+
+                  const winner = getTieWinner(match);
+                  const tieScore = match.walkoverWinner && winner ? "W.O." : formatTieScore(match);
+                  const side = (name: string | undefined, score: number | null, winner: boolean) => (
+                    <div className={`flex justify-between gap-2 ${winner ? "font-semibold text-black" : "text-gray-700"}`}>
+                      <span className="truncate">{name}</span>
+                      <span>{score ?? "-"}</span>
+                    </div>
+                  );
+                  return (
+                    <Link
+                      key={slot}
+                      href={`/matches/${match.id}`}
+                      className="border rounded-md p-2 text-sm hover:bg-gray-50 space-y-1"
+                    >
+                      {side(match.homeTeam?.name || match.homeTeamName, match.homeScore, winner === "HOME")}
+                      {side(match.awayTeam?.name || match.awayTeamName, match.awayScore, winner === "AWAY")}
+                      {tieScore && <div className="text-xs text-gray-500 text-right">{tieScore}</div>}
+                    </Link>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
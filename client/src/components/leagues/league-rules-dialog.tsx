@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { League, LeagueFormat, StandingsTiebreaker, STANDINGS_TIEBREAKERS } from "@shared/schema";
+import { getStandingsRules } from "@shared/standings";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getTiebreakerLabel } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ArrowDown, ArrowUp, Settings, X } from "lucide-react";
+
+interface LeagueRulesDialogProps {
+  league: League;
+}
+
+// Admin dialog for the league format, the points per result and the
+// tiebreaker order
+export default function LeagueRulesDialog({ league }: LeagueRulesDialogProps) {
+  const rules = getStandingsRules(league);
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState(league.format as LeagueFormat);
+  const [pointsForWin, setPointsForWin] = useState(rules.pointsForWin);
+  const [pointsForDraw, setPointsForDraw] = useState(rules.pointsForDraw);
+  const [pointsForLoss, setPointsForLoss] = useState(rules.pointsForLoss);
+  const [tiebreakers, setTiebreakers] = useState<StandingsTiebreaker[]>(rules.tiebreakers);
+  const { toast } = useToast();
+
+  // Starts from the saved rules every time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setFormat(league.format as LeagueFormat);
+      setPointsForWin(rules.pointsForWin);
+      setPointsForDraw(rules.pointsForDraw);
+      setPointsForLoss(rules.pointsForLoss);
+      setTiebreakers(rules.tiebreakers);
+    }
+    setIsOpen(open);
+  };
+
+  const unusedTiebreakers = STANDINGS_TIEBREAKERS.filter(tiebreaker => !tiebreakers.includes(tiebreaker));
+
+  const moveTiebreaker = (index: number, offset: number) => {
+    const next = [...tiebreakers];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setTiebreakers(next);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest<League>("PATCH", `/api/leagues/${league.id}/rules`, {
+      format,
+      pointsForWin,
+      pointsForDraw,
+      pointsForLoss,
+      tiebreakers
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leagues'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(`/api/leagues/${league.id}/standings`) });
+      toast({
+        title: "Regras atualizadas",
+        description: "A classificação foi recalculada com as novas regras."
+      });
+      setIsOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Settings className="h-4 w-4" />
+          Regras
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Regras da Classificação</DialogTitle>
+          <DialogDescription>
+            Formato da competição, pontos por resultado e critérios de desempate, aplicados pela ordem indicada.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Formato</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as LeagueFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="LEAGUE">Liga (classificação)</SelectItem>
+                  <SelectItem value="CUP">Taça (eliminatórias)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="pointsForWin">Vitória</Label>
+                <Input
+                  id="pointsForWin"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={pointsForWin}
+                  onChange={(e) => setPointsForWin(parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pointsForDraw">Empate</Label>
+                <Input
+                  id="pointsForDraw"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={pointsForDraw}
+                  onChange={(e) => setPointsForDraw(parseInt(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pointsForLoss">Derrota</Label>
+                <Input
+                  id="pointsForLoss"
+                  type="number"
+                  min={-10}
+                  max={10}
+                  value={pointsForLoss}
+                  onChange={(e) => setPointsForLoss(parseInt(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Desempate</Label>
+              {tiebreakers.map((tiebreaker, index) => (
+                <div key={tiebreaker} className="flex items-center gap-2 text-sm">
+                  <span className="w-5 text-gray-500">{index + 1}.</span>
+                  <span className="flex-1">{getTiebreakerLabel(tiebreaker)}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === 0}
+                    onClick={() => moveTiebreaker(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={index === tiebreakers.length - 1}
+                    onClick={() => moveTiebreaker(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTiebreakers(tiebreakers.filter(t => t !== tiebreaker))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {unusedTiebreakers.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(value) => setTiebreakers([...tiebreakers, value as StandingsTiebreaker])}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Adicionar critério" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unusedTiebreakers.map(tiebreaker => (
+                      <SelectItem key={tiebreaker} value={tiebreaker}>{getTiebreakerLabel(tiebreaker)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+          <DialogFooter className="mt-6">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "A guardar..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
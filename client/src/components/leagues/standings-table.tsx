@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Standings } from "@shared/standings";
+import { getTiebreakerLabel } from "@/lib/utils";
+import { LoadingSpinner } from "@/components/ui/loading";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface StandingsTableProps {
+  leagueId: number;
+  seasonId?: number;  // Every season when left out
+}
+
+// League table from the finished matches, with the rules it was ranked by
+export default function StandingsTable({ leagueId, seasonId }: StandingsTableProps) {
+  const { data: standings, isLoading } = useQuery<Standings>({
+    queryKey: [`/api/leagues/${leagueId}/standings${seasonId !== undefined ? `?seasonId=${seasonId}` : ""}`],
+  });
+
+  if (isLoading) {
+    return <div className="py-6"><LoadingSpinner /></div>;
+  }
+
+  if (!standings || standings.rows.length === 0) {
+    return <div className="text-center py-6 text-gray-500">Ainda não há jogos nesta liga.</div>;
+  }
+
+  const { rules } = standings;
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10 text-center">#</TableHead>
+            <TableHead>Equipa</TableHead>
+            <TableHead className="text-center" title="Jogos">J</TableHead>
+            <TableHead className="text-center" title="Vitórias">V</TableHead>
+            <TableHead className="text-center" title="Empates">E</TableHead>
+            <TableHead className="text-center" title="Derrotas">D</TableHead>
+            <TableHead className="text-center hidden sm:table-cell" title="Golos marcados">GM</TableHead>
+            <TableHead className="text-center hidden sm:table-cell" title="Golos sofridos">GS</TableHead>
+            <TableHead className="text-center" title="Diferença de golos">DG</TableHead>
+            <TableHead className="text-center" title="Pontos">Pts</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {standings.rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="text-center font-medium">{row.position}</TableCell>
+              <TableCell className="font-medium text-black">{row.name}</TableCell>
+              <TableCell className="text-center">{row.played}</TableCell>
+              <TableCell className="text-center">{row.won}</TableCell>
+              <TableCell className="text-center">{row.drawn}</TableCell>
+              <TableCell className="text-center">{row.lost}</TableCell>
+              <TableCell className="text-center hidden sm:table-cell">{row.goalsFor}</TableCell>
+              <TableCell className="text-center hidden sm:table-cell">{row.goalsAgainst}</TableCell>
+              <TableCell className="text-center">
+                {row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}
+              </TableCell>
+              <TableCell className="text-center font-semibold text-black">{row.points}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="px-4 py-3 border-t text-xs text-gray-500">
+        Vitória {rules.pointsForWin} pts · Empate {rules.pointsForDraw} pts · Derrota {rules.pointsForLoss} pts.
+        {rules.tiebreakers.length > 0 && ` Desempate: ${rules.tiebreakers.map(getTiebreakerLabel).join(", ")}.`}
+      </div>
+    </div>
+  );
+}
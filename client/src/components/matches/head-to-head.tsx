@@ -0,0 +1,87 @@
+import { Link } from "wouter";
+import { MatchWithTeamsAndMarkets } from "@shared/schema";
+import { getTeamKey } from "@shared/standings";
+import { formatDateTime } from "@/lib/utils";
+
+const MAX_MEETINGS = 10;
+
+interface HeadToHeadProps {
+  match: MatchWithTeamsAndMarkets;
+  matches: MatchWithTeamsAndMarkets[];
+}
+
+function getHomeKey(match: MatchWithTeamsAndMarkets) {
+  return getTeamKey(match.homeTeam?.id, match.homeTeamName);
+}
+
+function getAwayKey(match: MatchWithTeamsAndMarkets) {
+  return getTeamKey(match.awayTeam?.id, match.awayTeamName);
+}
+
+// Previous finished meetings of the two teams, home or away, in any league,
+// with the wins and draws counted from this match's home side
+export default function HeadToHead({ match, matches }: HeadToHeadProps) {
+  const homeKey = getHomeKey(match);
+  const awayKey = getAwayKey(match);
+  const homeTeam = match.homeTeam?.name || match.homeTeamName || "Unknown";
+  const awayTeam = match.awayTeam?.name || match.awayTeamName || "Unknown";
+
+  const meetings = matches
+    .filter(other => other.id !== match.id && other.status === "FINISHED")
+    .filter(other => other.homeScore !== null && other.awayScore !== null)
+    .filter(other => {
+      const keys = [getHomeKey(other), getAwayKey(other)];
+      return homeKey !== null && awayKey !== null && keys.includes(homeKey) && keys.includes(awayKey);
+    })
+    .sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+    .slice(0, MAX_MEETINGS);
+
+  let homeWins = 0, draws = 0, awayWins = 0;
+  for (const meeting of meetings) {
+    const homeGoals = getHomeKey(meeting) === homeKey ? meeting.homeScore! : meeting.awayScore!;
+    const awayGoals = getHomeKey(meeting) === homeKey ? meeting.awayScore! : meeting.homeScore!;
+    if (homeGoals > awayGoals) homeWins++;
+    else if (homeGoals < awayGoals) awayWins++;
+    else draws++;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4">
+      <h2 className="text-lg font-semibold text-black mb-3">Confrontos Diretos</h2>
+      {meetings.length === 0 ? (
+        <div className="text-sm text-gray-500">Sem confrontos anteriores.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 text-center mb-4">
+            <div>
+              <div className="text-xl font-semibold text-black">{homeWins}</div>
+              <div className="text-xs text-gray-500 truncate">{homeTeam}</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold text-black">{draws}</div>
+              <div className="text-xs text-gray-500">Empates</div>
+            </div>
+            <div>
+              <div className="text-xl font-semibold text-black">{awayWins}</div>
+              <div className="text-xs text-gray-500 truncate">{awayTeam}</div>
+            </div>
+          </div>
+          <div className="divide-y">
+            {meetings.map(meeting => (
+              <Link
+                key={meeting.id}
+                href={`/matches/${meeting.id}`}
+                className="flex items-center justify-between gap-2 py-2 text-sm hover:bg-gray-50"
+              >
+                <span className="text-gray-500 w-32 shrink-0">{formatDateTime(meeting.startTime)}</span>
+                <span className="flex-1 text-right truncate">{meeting.homeTeam?.name || meeting.homeTeamName}</span>
+                <span className="font-semibold text-black w-12 text-center">{meeting.homeScore}:{meeting.awayScore}</span>
+                <span className="flex-1 truncate">{meeting.awayTeam?.name || meeting.awayTeamName}</span>
+              </Link>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
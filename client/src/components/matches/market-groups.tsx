@@ -0,0 +1,176 @@
+import { Button } from "@/components/ui/button";
+import { formatOdds, getMarketLabel, isMarketAvailable } from "@/lib/utils";
+import { Market, MarketFamily } from "@shared/schema";
+import { getMarketSpec, parseCorrectScore, type MarketSpec } from "@shared/markets";
+import { useBettingStore } from "@/lib/betting-store";
+import { useToast } from "@/hooks/use-toast";
+import { useOddsFlash } from "@/hooks/use-odds-flash";
+
+interface MarketGroupsProps {
+  matchId: number;
+  homeTeam: string;
+  awayTeam: string;
+  markets: Market[];
+}
+
+// Every market of a match grouped by family, each selection toggling it in
+// the betting slip
+export default function MarketGroups({ matchId, homeTeam, awayTeam, markets: allMarkets }: MarketGroupsProps) {
+  const { addBet, removeBet, hasBet } = useBettingStore();
+  const { toast } = useToast();
+  const getOddsFlashClass = useOddsFlash(allMarkets);
+
+  const handleToggleBet = (market: Market) => {
+    if (market.isLocked) {
+      toast({
+        title: "Market is locked",
+        description: "This market is currently locked and unavailable for betting.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (market.isSuspended) {
+      toast({
+        title: "Market is suspended",
+        description: "Betting on this market is paused after a goal until it is repriced.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    if (hasBet(market.id)) {
+      removeBet(market.id);
+    } else {
+      addBet({
+        id: market.id,
+        matchId: matchId,
+        homeTeam: homeTeam,
+        awayTeam: awayTeam,
+        marketType: market.type,
+        odds: market.odds
+      });
+    }
+  };
+
+  // Group markets by family, lines in ascending order. Away handicaps are
+  // mirrored so each home line sits next to the away line it is paired with.
+  const marketSpecs = allMarkets.map(market => ({ market, spec: getMarketSpec(market) }));
+  const lineKey = (spec: MarketSpec) => (spec.side === "AWAY" ? -1 : 1) * (spec.line ?? 0);
+  const byFamily = (family: MarketFamily) => marketSpecs
+    .filter(({ spec }) => spec?.family === family)
+    .sort((a, b) => lineKey(a.spec!) - lineKey(b.spec!))
+    .map(({ market }) => market);
+
+  const mainMarkets = byFamily("MATCH_RESULT");
+  const goalMarkets = byFamily("TOTAL");
+  const bttsMarkets = byFamily("BTTS");
+  const doubleChanceMarkets = byFamily("DOUBLE_CHANCE");
+  const drawNoBetMarkets = byFamily("DRAW_NO_BET");
+  const halfTimeMarkets = byFamily("HT_RESULT");
+  const halfTimeGoalMarkets = byFamily("HT_TOTAL");
+  const halfTimeBttsMarkets = byFamily("HT_BTTS");
+  const handicapMarkets = byFamily("HANDICAP");
+  const asianHandicapMarkets = byFamily("ASIAN_HANDICAP");
+  const asianTotalMarkets = byFamily("ASIAN_TOTAL");
+  const winBothHalvesMarkets = byFamily("WIN_BOTH_HALVES");
+  const winEitherHalfMarkets = byFamily("WIN_EITHER_HALF");
+  const correctScoreMarkets = byFamily("CORRECT_SCORE");
+  const cornerMarkets = byFamily("CORNERS");
+  const teamCornerMarkets = [...byFamily("HOME_CORNERS"), ...byFamily("AWAY_CORNERS")];
+  const cardMarkets = byFamily("CARDS");
+  const bookingPointsMarkets = byFamily("BOOKING_POINTS");
+  const firstCardMarkets = byFamily("FIRST_CARD");
+  const qualifyMarkets = byFamily("TO_QUALIFY");
+  const methodOfVictoryMarkets = byFamily("METHOD_OF_VICTORY");
+  const customMarkets = marketSpecs.filter(({ spec }) => spec === null).map(({ market }) => market);
+
+  const MarketButton = ({ market, label }: { market: Market; label?: string }) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => handleToggleBet(market)}
+      className={`${!isMarketAvailable(market) ? 'opacity-50 cursor-not-allowed' : ''} ${
+        hasBet(market.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'
+      } hover:bg-secondary/80 py-1 rounded text-xs font-medium flex-1 min-w-0`}
+      disabled={!isMarketAvailable(market)}
+    >
+      <span className="truncate">{label ?? getMarketLabel(market.type)}</span>
+      <span className={`font-semibold ml-1 ${getOddsFlashClass(market.id)}`}>{formatOdds(market.odds)}</span>
+    </Button>
+  );
+
+  const MarketSection = ({ title, markets }: { title: string; markets: Market[] }) => {
+    if (markets.length === 0) return null;
+    
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-muted-foreground">{title}</h4>
+        <div className="grid grid-cols-2 gap-2">
+          {markets.map(market => (
+            <MarketButton key={market.id} market={market} />
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Correct scores laid out in home win / draw / away win columns, "any other" last
+  const CorrectScoreSection = ({ markets }: { markets: Market[] }) => {
+    if (markets.length === 0) return null;
+
+    const scored = markets
+      .map(market => ({ market, score: parseCorrectScore(getMarketSpec(market)) }))
+      .filter((m): m is { market: Market; score: { home: number; away: number } } => m.score !== null)
+      .sort((a, b) => (a.score.home + a.score.away) - (b.score.home + b.score.away) || b.score.home - a.score.home);
+    const columns = [
+      scored.filter(m => m.score.home > m.score.away),
+      scored.filter(m => m.score.home === m.score.away),
+      scored.filter(m => m.score.home < m.score.away)
+    ];
+    const otherMarket = markets.find(m => getMarketSpec(m)?.side === "OTHER");
+
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-muted-foreground">Resultado Exato</h4>
+        <div className="grid grid-cols-3 gap-2">
+          {columns.map((column, index) => (
+            <div key={index} className="flex flex-col gap-2">
+              {column.map(({ market, score }) => (
+                <MarketButton key={market.id} market={market} label={`${score.home}-${score.away}`} />
+              ))}
+            </div>
+          ))}
+        </div>
+        {otherMarket && <MarketButton market={otherMarket} label="Outro resultado" />}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <MarketSection title="Resultado (Final)" markets={mainMarkets} />
+      <MarketSection title="Passa à Eliminatória" markets={qualifyMarkets} />
+      <MarketSection title="Forma de Vitória" markets={methodOfVictoryMarkets} />
+      <MarketSection title="Total de Golos" markets={goalMarkets} />
+      <MarketSection title="Ambas as Equipas Marcam" markets={bttsMarkets} />
+      <MarketSection title="Dupla Hipótese" markets={doubleChanceMarkets} />
+      <MarketSection title="Empate Anula Aposta" markets={drawNoBetMarkets} />
+      <MarketSection title="Resultado 1º Tempo" markets={halfTimeMarkets} />
+      <MarketSection title="Golos 1º Tempo" markets={halfTimeGoalMarkets} />
+      <MarketSection title="Ambas Marcam 1º Tempo" markets={halfTimeBttsMarkets} />
+      <MarketSection title="Handicaps" markets={handicapMarkets} />
+      <MarketSection title="Handicap Asiático" markets={asianHandicapMarkets} />
+      <MarketSection title="Total de Golos Asiático" markets={asianTotalMarkets} />
+      <MarketSection title="Vencer Ambas as Partes" markets={winBothHalvesMarkets} />
+      <MarketSection title="Vencer Pelo Menos Uma Parte" markets={winEitherHalfMarkets} />
+      <CorrectScoreSection markets={correctScoreMarkets} />
+      <MarketSection title="Total de Cantos" markets={cornerMarkets} />
+      <MarketSection title="Cantos por Equipa" markets={teamCornerMarkets} />
+      <MarketSection title="Total de Cartões" markets={cardMarkets} />
+      <MarketSection title="Pontos de Cartões" markets={bookingPointsMarkets} />
+      <MarketSection title="Primeiro Cartão" markets={firstCardMarkets} />
+      <MarketSection title="Mercados Personalizados" markets={customMarkets} />
+    </div>
+  );
+}
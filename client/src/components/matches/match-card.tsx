@@ -1,9 +1,9 @@
 import { Button } from "@/components/ui/button";
-import { formatDateTime, formatOdds, getStatusClass, getStatusLabel } from "@/lib/utils";
+import { formatDateTime, formatOdds, formatTieScore, getStatusClass, getStatusLabel, isMarketAvailable } from "@/lib/utils";
 import { useState } from "react";
-import { Market, MatchWithTeamsAndMarkets } from "@shared/schema";
+import { Market, MatchWithTeamsAndMarkets, RegradedBet } from "@shared/schema";
 import { useBettingStore } from "@/lib/betting-store";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,8 +25,12 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useOddsFlash } from "@/hooks/use-odds-flash";
 import { TeamEmblem } from "@/components/ui/team-emblem";
 import ExpandedMarkets from "./expanded-markets";
+import { getMarketSpec } from "@shared/markets";
+import { Link } from "wouter";
 
 interface MatchCardProps {
   match: MatchWithTeamsAndMarkets;
@@ -42,18 +46,27 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
   const [awayScore, setAwayScore] = useState(match.awayScore?.toString() || "");
   const [htHomeScore, setHtHomeScore] = useState(match.htHomeScore?.toString() || "");
   const [htAwayScore, setHtAwayScore] = useState(match.htAwayScore?.toString() || "");
+  const [etHomeScore, setEtHomeScore] = useState(match.etHomeScore?.toString() || "");
+  const [etAwayScore, setEtAwayScore] = useState(match.etAwayScore?.toString() || "");
+  const [penHomeScore, setPenHomeScore] = useState(match.penHomeScore?.toString() || "");
+  const [penAwayScore, setPenAwayScore] = useState(match.penAwayScore?.toString() || "");
   const [matchStatus, setMatchStatus] = useState(match.status);
+  const [walkoverWinner, setWalkoverWinner] = useState(match.walkoverWinner || "");
   const { addBet, removeBet, hasBet } = useBettingStore();
   const { toast } = useToast();
+  const { isAdmin } = useAuth();
 
   const homeTeam = match.homeTeam;
   const awayTeam = match.awayTeam;
   const markets = match.markets;
+  const getOddsFlashClass = useOddsFlash(markets);
 
   // Get home, draw, away markets (1, X, 2)
   const homeMarket = markets.find(m => m.type === "1");
   const drawMarket = markets.find(m => m.type === "X");
   const awayMarket = markets.find(m => m.type === "2");
+  const customMarketCount = markets.filter(m => getMarketSpec(m) === null).length;
+  const suspendedMarketCount = markets.filter(m => m.isSuspended && !m.isLocked).length;
 
   const handleToggleFavorite = () => {
     setFavorited(!favorited);
@@ -69,6 +82,15 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
       return;
     }
 
+    if (market.isSuspended) {
+      toast({
+        title: "Market is suspended",
+        description: "Betting on this market is paused after a goal until it is repriced.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     if (hasBet(market.id)) {
       removeBet(market.id);
     } else {
@@ -102,7 +124,7 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
     } catch (error) {
       toast({
         title: "Error deleting match",
-        description: "There was an error deleting the match.",
+        description: getApiErrorMessage(error) || "There was an error deleting the match.",
         variant: "destructive"
       });
     } finally {
@@ -138,27 +160,79 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
     }
   };
 
+  // Postponed/abandoned/cancelled matches have no final score to enter
+  const isCalledOff = ["POSTPONED", "ABANDONED", "CANCELLED"].includes(matchStatus);
+  // A cup tie level after 90 minutes goes on to extra time and penalties
+  const isTieLevel = match.league?.format === "CUP" && homeScore !== "" && homeScore === awayScore;
+  // An abandoned or cancelled cup tie still needs a side to go through
+  const needsWalkover = match.league?.format === "CUP" && match.bracketSlot !== null
+    && ["ABANDONED", "CANCELLED"].includes(matchStatus);
+
+  const handleUpdateStatus = async () => {
+    setIsLoading(true);
+    try {
+      await apiRequest("PATCH", `/api/matches/${match.id}`, {
+        status: matchStatus,
+        walkoverWinner: needsWalkover ? walkoverWinner || null : null
+      });
+
+      toast({
+        title: "Match updated",
+        description: matchStatus === "POSTPONED"
+          ? "Match postponed. Bets on it stay open."
+          : `Match marked as ${getStatusLabel(matchStatus).toLowerCase()}. Bets on it are void.`
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+
+      if (onRefresh) {
+        onRefresh();
+      }
+    } catch (error) {
+      toast({
+        title: "Error updating match",
+        description: getApiErrorMessage(error) || "There was an error updating the match status.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+      setIsEditScoreDialogOpen(false);
+    }
+  };
+
   const handleUpdateScore = async () => {
     setIsLoading(true);
     try {
       const homeScoreNum = parseInt(homeScore) || 0;
       const awayScoreNum = parseInt(awayScore) || 0;
 
-      await apiRequest("PATCH", `/api/matches/${match.id}/score`, {
+      const result = await apiRequest<{ regradedBets: RegradedBet[] }>("PATCH", `/api/matches/${match.id}/score`, {
         homeScore: homeScoreNum,
         awayScore: awayScoreNum,
         htHomeScore: parseInt(htHomeScore) || 0,
         htAwayScore: parseInt(htAwayScore) || 0,
+        // Left empty unless a level cup tie went on; the server checks they fit the 90 minutes
+        etHomeScore: isTieLevel ? etHomeScore : null,
+        etAwayScore: isTieLevel ? etAwayScore : null,
+        penHomeScore: isTieLevel ? penHomeScore : null,
+        penAwayScore: isTieLevel ? penAwayScore : null,
         status: matchStatus
       });
 
+      const regradedCount = result.regradedBets.length;
       toast({
         title: "Score updated",
-        description: `Match result updated to ${homeScoreNum}:${awayScoreNum}`
+        description: regradedCount > 0
+          ? `Match result updated to ${homeScoreNum}:${awayScoreNum}. ${regradedCount} settled bet${regradedCount === 1 ? "" : "s"} re-graded.`
+          : `Match result updated to ${homeScoreNum}:${awayScoreNum}`
       });
 
-      // Invalidate matches cache to refresh the list
+      // Invalidate matches cache to refresh the list, and bets/balance that settlement may have changed
       queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
 
       if (onRefresh) {
         onRefresh();
@@ -166,7 +240,7 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
     } catch (error) {
       toast({
         title: "Error updating score",
-        description: "There was an error updating the match score.",
+        description: getApiErrorMessage(error) || "There was an error updating the match score.",
         variant: "destructive"
       });
     } finally {
@@ -184,6 +258,7 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
             {match.status !== "UPCOMING" && (
               <span className={`ml-2 px-2 py-0.5 ${getStatusClass(match.status)} text-xs rounded`}>
                 {getStatusLabel(match.status)}
+                {match.status === "LIVE" && match.minute != null && ` ${match.minute}'`}
               </span>
             )}
             {match.isCustom && (
@@ -208,28 +283,32 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                 </svg>
               )}
             </button>
-            <button 
-              className="text-gray-400 hover:text-blue-500"
-              onClick={() => setIsEditScoreDialogOpen(true)}
-              aria-label="Edit Score"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
-                <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
-              </svg>
-            </button>
-            <button 
-              className="text-gray-400 hover:text-red-500"
-              onClick={() => setIsDeleteDialogOpen(true)}
-              aria-label="Delete Match"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                <path d="M3 6h18"></path>
-                <path d="M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"></path>
-                <line x1="10" y1="11" x2="10" y2="17"></line>
-                <line x1="14" y1="11" x2="14" y2="17"></line>
-              </svg>
-            </button>
+            {isAdmin && (
+              <>
+                <button 
+                  className="text-gray-400 hover:text-blue-500"
+                  onClick={() => setIsEditScoreDialogOpen(true)}
+                  aria-label="Edit Score"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
+                    <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
+                  </svg>
+                </button>
+                <button 
+                  className="text-gray-400 hover:text-red-500"
+                  onClick={() => setIsDeleteDialogOpen(true)}
+                  aria-label="Delete Match"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M3 6h18"></path>
+                    <path d="M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"></path>
+                    <line x1="10" y1="11" x2="10" y2="17"></line>
+                    <line x1="14" y1="11" x2="14" y2="17"></line>
+                  </svg>
+                </button>
+              </>
+            )}
           </div>
         </div>
 
@@ -251,16 +330,21 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
             <div className="ml-1 text-xs text-muted-foreground">Home</div>
           </div>
 
-          <div className="text-center px-4">
+          <Link href={`/matches/${match.id}`} className="text-center px-4 hover:opacity-80" title="Ver jogo">
             {match.homeScore !== null && match.awayScore !== null ? (
-              <div className="font-bold text-xl">{match.homeScore}:{match.awayScore}</div>
+              <>
+                <div className="font-bold text-xl">{match.homeScore}:{match.awayScore}</div>
+                {formatTieScore(match) && (
+                  <div className="text-xs text-gray-500">{formatTieScore(match)}</div>
+                )}
+              </>
             ) : (
               <div className="font-bold text-lg">- : -</div>
             )}
             {match.status === "UPCOMING" && (
               <div className="text-xs text-gray-500">{getStatusLabel(match.status)}</div>
             )}
-          </div>
+          </Link>
 
           <div className="flex items-center flex-1 justify-end">
             <div className="mr-1 text-xs text-muted-foreground text-right">Away</div>
@@ -288,10 +372,10 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => handleToggleBet(homeMarket)}
-                className={`${homeMarket.isLocked ? 'opacity-50 cursor-not-allowed' : ''} ${hasBet(homeMarket.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'} hover:bg-secondary/80 py-1 rounded text-sm font-medium w-full`}
-                disabled={homeMarket.isLocked}
+                className={`${!isMarketAvailable(homeMarket) ? 'opacity-50 cursor-not-allowed' : ''} ${hasBet(homeMarket.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'} hover:bg-secondary/80 py-1 rounded text-sm font-medium w-full`}
+                disabled={!isMarketAvailable(homeMarket)}
               >
-                Home <span className="font-semibold">{formatOdds(homeMarket.odds)}</span>
+                Home <span className={`font-semibold ${getOddsFlashClass(homeMarket.id)}`}>{formatOdds(homeMarket.odds)}</span>
                 {homeMarket.isLocked && (
                   <span className="absolute top-0 right-0 transform translate-x-1/3 -translate-y-1/3">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -301,24 +385,26 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                   </span>
                 )}
               </Button>
-              <button 
-                onClick={() => handleToggleMarketLock(homeMarket)}
-                className="absolute top-0 right-0 transform translate-x-1/2 -translate-y-1/2 bg-secondary rounded-full p-1 text-xs shadow-sm hover:bg-secondary/80"
-                title={homeMarket.isLocked ? "Unlock market" : "Lock market"}
-              >
-                {homeMarket.isLocked ? (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                    <path d="M7 11V7a5 5 0 0110 0v4"></path>
-                    <line x1="12" y1="16" x2="12" y2="16.01"></line>
-                  </svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                    <path d="M7 11V7a5 5 0 0110 0v4"></path>
-                  </svg>
-                )}
-              </button>
+              {isAdmin && (
+                <button 
+                  onClick={() => handleToggleMarketLock(homeMarket)}
+                  className="absolute top-0 right-0 transform translate-x-1/2 -translate-y-1/2 bg-secondary rounded-full p-1 text-xs shadow-sm hover:bg-secondary/80"
+                  title={homeMarket.isLocked ? "Unlock market" : "Lock market"}
+                >
+                  {homeMarket.isLocked ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0110 0v4"></path>
+                      <line x1="12" y1="16" x2="12" y2="16.01"></line>
+                    </svg>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0110 0v4"></path>
+                    </svg>
+                  )}
+                </button>
+              )}
             </div>
           )}
 
@@ -328,10 +414,10 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => handleToggleBet(drawMarket)}
-                className={`${drawMarket.isLocked ? 'opacity-50 cursor-not-allowed' : ''} ${hasBet(drawMarket.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'} hover:bg-secondary/80 py-1 rounded text-sm font-medium w-full`}
-                disabled={drawMarket.isLocked}
+                className={`${!isMarketAvailable(drawMarket) ? 'opacity-50 cursor-not-allowed' : ''} ${hasBet(drawMarket.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'} hover:bg-secondary/80 py-1 rounded text-sm font-medium w-full`}
+                disabled={!isMarketAvailable(drawMarket)}
               >
-                Draw <span className="font-semibold">{formatOdds(drawMarket.odds)}</span>
+                Draw <span className={`font-semibold ${getOddsFlashClass(drawMarket.id)}`}>{formatOdds(drawMarket.odds)}</span>
                 {drawMarket.isLocked && (
                   <span className="absolute top-0 right-0 transform translate-x-1/3 -translate-y-1/3">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -341,24 +427,26 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                   </span>
                 )}
               </Button>
-              <button 
-                onClick={() => handleToggleMarketLock(drawMarket)}
-                className="absolute top-0 right-0 transform translate-x-1/2 -translate-y-1/2 bg-secondary rounded-full p-1 text-xs shadow-sm hover:bg-secondary/80"
-                title={drawMarket.isLocked ? "Unlock market" : "Lock market"}
-              >
-                {drawMarket.isLocked ? (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                    <path d="M7 11V7a5 5 0 0110 0v4"></path>
-                    <line x1="12" y1="16" x2="12" y2="16.01"></line>
-                  </svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                    <path d="M7 11V7a5 5 0 0110 0v4"></path>
-                  </svg>
-                )}
-              </button>
+              {isAdmin && (
+                <button 
+                  onClick={() => handleToggleMarketLock(drawMarket)}
+                  className="absolute top-0 right-0 transform translate-x-1/2 -translate-y-1/2 bg-secondary rounded-full p-1 text-xs shadow-sm hover:bg-secondary/80"
+                  title={drawMarket.isLocked ? "Unlock market" : "Lock market"}
+                >
+                  {drawMarket.isLocked ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0110 0v4"></path>
+                      <line x1="12" y1="16" x2="12" y2="16.01"></line>
+                    </svg>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0110 0v4"></path>
+                    </svg>
+                  )}
+                </button>
+              )}
             </div>
           )}
 
@@ -368,10 +456,10 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                 variant="outline"
                 size="sm"
                 onClick={() => handleToggleBet(awayMarket)}
-                className={`${awayMarket.isLocked ? 'opacity-50 cursor-not-allowed' : ''} ${hasBet(awayMarket.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'} hover:bg-secondary/80 py-1 rounded text-sm font-medium w-full`}
-                disabled={awayMarket.isLocked}
+                className={`${!isMarketAvailable(awayMarket) ? 'opacity-50 cursor-not-allowed' : ''} ${hasBet(awayMarket.id) ? 'bg-yellow-400 text-black' : 'bg-secondary text-secondary-foreground'} hover:bg-secondary/80 py-1 rounded text-sm font-medium w-full`}
+                disabled={!isMarketAvailable(awayMarket)}
               >
-                Away <span className="font-semibold">{formatOdds(awayMarket.odds)}</span>
+                Away <span className={`font-semibold ${getOddsFlashClass(awayMarket.id)}`}>{formatOdds(awayMarket.odds)}</span>
                 {awayMarket.isLocked && (
                   <span className="absolute top-0 right-0 transform translate-x-1/3 -translate-y-1/3">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-red-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -381,24 +469,26 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                   </span>
                 )}
               </Button>
-              <button 
-                onClick={() => handleToggleMarketLock(awayMarket)}
-                className="absolute top-0 right-0 transform translate-x-1/2 -translate-y-1/2 bg-secondary rounded-full p-1 text-xs shadow-sm hover:bg-secondary/80"
-                title={awayMarket.isLocked ? "Unlock market" : "Lock market"}
-              >
-                {awayMarket.isLocked ? (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                    <path d="M7 11V7a5 5 0 0110 0v4"></path>
-                    <line x1="12" y1="16" x2="12" y2="16.01"></line>
-                  </svg>
-                ) : (
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
-                    <path d="M7 11V7a5 5 0 0110 0v4"></path>
-                  </svg>
-                )}
-              </button>
+              {isAdmin && (
+                <button 
+                  onClick={() => handleToggleMarketLock(awayMarket)}
+                  className="absolute top-0 right-0 transform translate-x-1/2 -translate-y-1/2 bg-secondary rounded-full p-1 text-xs shadow-sm hover:bg-secondary/80"
+                  title={awayMarket.isLocked ? "Unlock market" : "Lock market"}
+                >
+                  {awayMarket.isLocked ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0110 0v4"></path>
+                      <line x1="12" y1="16" x2="12" y2="16.01"></line>
+                    </svg>
+                  ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <rect x="3" y="11" width="18" height="11" rx="2" ry="2"></rect>
+                      <path d="M7 11V7a5 5 0 0110 0v4"></path>
+                    </svg>
+                  )}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -408,9 +498,30 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
           homeTeam={match.homeTeam?.name || match.homeTeamName || "Unknown"}
           awayTeam={match.awayTeam?.name || match.awayTeamName || "Unknown"}
           allMarkets={markets}
+          status={match.status}
+          events={match.events}
         />
 
-        {match.isCustom && (
+        {isAdmin && markets.length > 0 && (
+          <div className="mt-3 flex justify-end gap-4">
+            <Link
+              href={`/matches/${match.id}/odds`}
+              className="text-primary hover:text-primary/80 text-sm"
+            >
+              {suspendedMarketCount > 0 ? `Atualizar preços (${suspendedMarketCount} suspensos)` : "Editar preços"}
+            </Link>
+            {customMarketCount > 0 && (
+              <Link
+                href={`/matches/${match.id}/custom-markets`}
+                className="text-primary hover:text-primary/80 text-sm"
+              >
+                Resolver mercados personalizados ({customMarketCount})
+              </Link>
+            )}
+          </div>
+        )}
+
+        {isAdmin && match.isCustom && (
           <div className="mt-3 text-right">
             <button className="text-primary hover:text-primary/80 text-sm flex items-center justify-end ml-auto">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -430,62 +541,125 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
           <DialogHeader>
             <DialogTitle>Edit Match Score</DialogTitle>
             <DialogDescription>
-              Update the score for this match. This will mark the match as finished.
+              Update the score and status for this match. Abandoned and cancelled matches void every bet selection on them.
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="homeScore" className="text-right">
-                Home Score
-              </Label>
-              <Input
-                id="homeScore"
-                type="number"
-                min="0"
-                value={homeScore}
-                onChange={(e) => setHomeScore(e.target.value)}
-                className="col-span-3"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="awayScore" className="text-right">
-                Away Score
-              </Label>
-              <Input
-                id="awayScore"
-                type="number"
-                min="0"
-                value={awayScore}
-                onChange={(e) => setAwayScore(e.target.value)}
-                className="col-span-3"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="htHomeScore" className="text-right">
-                HT Home
-              </Label>
-              <Input
-                id="htHomeScore"
-                type="number"
-                min="0"
-                value={htHomeScore}
-                onChange={(e) => setHtHomeScore(e.target.value)}
-                className="col-span-3"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="htAwayScore" className="text-right">
-                HT Away
-              </Label>
-              <Input
-                id="htAwayScore"
-                type="number"
-                min="0"
-                value={htAwayScore}
-                onChange={(e) => setHtAwayScore(e.target.value)}
-                className="col-span-3"
-              />
-            </div>
+            {!isCalledOff && (
+              <>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="homeScore" className="text-right">
+                    Home Score
+                  </Label>
+                  <Input
+                    id="homeScore"
+                    type="number"
+                    min="0"
+                    value={homeScore}
+                    onChange={(e) => setHomeScore(e.target.value)}
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="awayScore" className="text-right">
+                    Away Score
+                  </Label>
+                  <Input
+                    id="awayScore"
+                    type="number"
+                    min="0"
+                    value={awayScore}
+                    onChange={(e) => setAwayScore(e.target.value)}
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="htHomeScore" className="text-right">
+                    HT Home
+                  </Label>
+                  <Input
+                    id="htHomeScore"
+                    type="number"
+                    min="0"
+                    value={htHomeScore}
+                    onChange={(e) => setHtHomeScore(e.target.value)}
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="htAwayScore" className="text-right">
+                    HT Away
+                  </Label>
+                  <Input
+                    id="htAwayScore"
+                    type="number"
+                    min="0"
+                    value={htAwayScore}
+                    onChange={(e) => setHtAwayScore(e.target.value)}
+                    className="col-span-3"
+                  />
+                </div>
+                {isTieLevel && (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      Extra time includes the 90 minute goals. Leave it empty if the tie went straight to penalties.
+                    </p>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="etHomeScore" className="text-right">
+                        ET Home
+                      </Label>
+                      <Input
+                        id="etHomeScore"
+                        type="number"
+                        min="0"
+                        value={etHomeScore}
+                        onChange={(e) => setEtHomeScore(e.target.value)}
+                        className="col-span-3"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="etAwayScore" className="text-right">
+                        ET Away
+                      </Label>
+                      <Input
+                        id="etAwayScore"
+                        type="number"
+                        min="0"
+                        value={etAwayScore}
+                        onChange={(e) => setEtAwayScore(e.target.value)}
+                        className="col-span-3"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="penHomeScore" className="text-right">
+                        Pens Home
+                      </Label>
+                      <Input
+                        id="penHomeScore"
+                        type="number"
+                        min="0"
+                        value={penHomeScore}
+                        onChange={(e) => setPenHomeScore(e.target.value)}
+                        className="col-span-3"
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="penAwayScore" className="text-right">
+                        Pens Away
+                      </Label>
+                      <Input
+                        id="penAwayScore"
+                        type="number"
+                        min="0"
+                        value={penAwayScore}
+                        onChange={(e) => setPenAwayScore(e.target.value)}
+                        className="col-span-3"
+                      />
+                    </div>
+                  </>
+                )}
+              </>
+            )}
             <div className="space-y-2">
               <Label htmlFor="matchStatus">Match Status</Label>
               <select
@@ -497,8 +671,26 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
                 <option value="UPCOMING">Upcoming</option>
                 <option value="LIVE">Live</option>
                 <option value="FINISHED">Finished</option>
+                <option value="POSTPONED">Postponed</option>
+                <option value="ABANDONED">Abandoned</option>
+                <option value="CANCELLED">Cancelled</option>
               </select>
             </div>
+            {needsWalkover && (
+              <div className="space-y-2">
+                <Label htmlFor="walkoverWinner">Goes Through (Walkover)</Label>
+                <select
+                  id="walkoverWinner"
+                  value={walkoverWinner}
+                  onChange={(e) => setWalkoverWinner(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">Choose a team</option>
+                  <option value="HOME">{homeTeam?.name || match.homeTeamName}</option>
+                  <option value="AWAY">{awayTeam?.name || match.awayTeamName}</option>
+                </select>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button 
@@ -509,10 +701,10 @@ export default function MatchCard({ match, onRefresh }: MatchCardProps) {
               Cancel
             </Button>
             <Button 
-              onClick={handleUpdateScore}
-              disabled={isLoading}
+              onClick={isCalledOff ? handleUpdateStatus : handleUpdateScore}
+              disabled={isLoading || (needsWalkover && !walkoverWinner)}
             >
-              {isLoading ? "Updating..." : "Update Score"}
+              {isLoading ? "Updating..." : isCalledOff ? "Update Status" : "Update Score"}
             </Button>
           </DialogFooter>
         </DialogContent>
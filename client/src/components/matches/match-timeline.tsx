@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { MatchEvent, MatchEventType, MatchEventTeam, MATCH_EVENT_TYPES, RegradedBet } from "@shared/schema";
+import { getScoringTeam } from "@shared/match-events";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getMatchEventLabel } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, CircleDot, Flag, X } from "lucide-react";
+
+interface MatchTimelineProps {
+  matchId: number;
+  status: string;
+  homeTeam: string;
+  awayTeam: string;
+  events: MatchEvent[];
+}
+
+function EventIcon({ type }: { type: string }) {
+  switch (type) {
+    case "GOAL":
+    case "PENALTY_GOAL":
+      return <CircleDot className="h-3.5 w-3.5 text-green-600" />;
+    case "OWN_GOAL":
+      return <CircleDot className="h-3.5 w-3.5 text-red-600" />;
+    case "YELLOW_CARD":
+      return <span className="inline-block h-3.5 w-2.5 rounded-sm bg-yellow-400" />;
+    case "RED_CARD":
+      return <span className="inline-block h-3.5 w-2.5 rounded-sm bg-red-600" />;
+    case "CORNER":
+      return <Flag className="h-3.5 w-3.5 text-muted-foreground" />;
+    default:
+      return <ArrowLeftRight className="h-3.5 w-3.5 text-muted-foreground" />;
+  }
+}
+
+// Goals, cards, corners and substitutions in match order, home events on the
+// left and away events on the right. Admins can record and remove events
+// while the match is live or after it finished.
+export default function MatchTimeline({ matchId, status, homeTeam, awayTeam, events }: MatchTimelineProps) {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [minute, setMinute] = useState("");
+  const [team, setTeam] = useState<MatchEventTeam>("HOME");
+  const [type, setType] = useState<MatchEventType>("GOAL");
+  const [playerName, setPlayerName] = useState("");
+
+  const canRecord = isAdmin && (status === "LIVE" || status === "FINISHED");
+
+  const onEventsChanged = (regradedBets: RegradedBet[]) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+    if (regradedBets.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+      toast({
+        title: "Apostas corrigidas",
+        description: `${regradedBets.length} aposta(s) corrigida(s) com o novo resultado.`
+      });
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const addEventMutation = useMutation({
+    mutationFn: () => apiRequest<MatchEvent & { regradedBets: RegradedBet[] }>("POST", `/api/matches/${matchId}/events`, {
+      minute: parseInt(minute),
+      team,
+      type,
+      playerName: playerName.trim() || null
+    }),
+    onSuccess: (data) => {
+      setMinute("");
+      setPlayerName("");
+      onEventsChanged(data.regradedBets);
+    },
+    onError
+  });
+
+  const deleteEventMutation = useMutation({
+    mutationFn: (eventId: number) =>
+      apiRequest<{ regradedBets: RegradedBet[] }>("DELETE", `/api/matches/${matchId}/events/${eventId}`),
+    onSuccess: (data) => onEventsChanged(data.regradedBets),
+    onError
+  });
+
+  if (events.length === 0 && !canRecord) {
+    return null;
+  }
+
+  // Running score shown next to each goal
+  let homeScore = 0, awayScore = 0;
+  const rows = events.map(event => {
+    const scoringTeam = getScoringTeam(event);
+    if (scoringTeam === "HOME") homeScore++;
+    if (scoringTeam === "AWAY") awayScore++;
+    return { event, score: scoringTeam ? `${homeScore}-${awayScore}` : null };
+  });
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium text-muted-foreground">Eventos do Jogo</h4>
+
+      {rows.length === 0 ? (
+        <div className="text-xs text-muted-foreground">Sem eventos registados.</div>
+      ) : (
+        <div className="space-y-1">
+          {rows.map(({ event, score }) => (
+            <div
+              key={event.id}
+              className={`flex items-center gap-2 text-xs ${event.team === "AWAY" ? "flex-row-reverse text-right" : ""}`}
+            >
+              <span className="w-8 shrink-0 font-semibold text-center">{event.minute}'</span>
+              <EventIcon type={event.type} />
+              <span className="truncate">
+                {getMatchEventLabel(event.type)}
+                {event.playerName && ` - ${event.playerName}`}
+                {score && <span className="font-semibold ml-1">({score})</span>}
+              </span>
+              {canRecord && (
+                <button
+                  className="text-muted-foreground hover:text-destructive"
+                  title="Remover evento"
+                  disabled={deleteEventMutation.isPending}
+                  onClick={() => deleteEventMutation.mutate(event.id)}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canRecord && (
+        <form
+          className="flex flex-wrap items-center gap-2 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addEventMutation.mutate();
+          }}
+        >
+          <Input
+            type="number"
+            min={0}
+            max={130}
+            placeholder="Min."
+            value={minute}
+            onChange={(e) => setMinute(e.target.value)}
+            className="w-16 h-8 text-xs"
+          />
+          <Select value={team} onValueChange={(value) => setTeam(value as MatchEventTeam)}>
+            <SelectTrigger className="w-[120px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="HOME">{homeTeam}</SelectItem>
+              <SelectItem value="AWAY">{awayTeam}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={type} onValueChange={(value) => setType(value as MatchEventType)}>
+            <SelectTrigger className="w-[140px] h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MATCH_EVENT_TYPES.map(eventType => (
+                <SelectItem key={eventType} value={eventType}>{getMatchEventLabel(eventType)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Jogador (opcional)"
+            value={playerName}
+            onChange={(e) => setPlayerName(e.target.value)}
+            className="flex-1 min-w-[120px] h-8 text-xs"
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={minute === "" || addEventMutation.isPending}>
+            Adicionar
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
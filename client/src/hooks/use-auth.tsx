@@ -0,0 +1,99 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { PublicUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type Credentials = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isAdmin: boolean;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Clear everything cached for the previous user and store the new one
+  const setCurrentUser = (nextUser: PublicUser | null) => {
+    queryClient.removeQueries({ predicate: query => query.queryKey[0] !== '/api/user' });
+    queryClient.setQueryData(['/api/user'], nextUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) =>
+      apiRequest<PublicUser>("POST", "/api/login", credentials),
+    onSuccess: setCurrentUser,
+    onError: () => {
+      toast({
+        title: "Login failed",
+        description: "Invalid username or password.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: Credentials) =>
+      apiRequest<PublicUser>("POST", "/api/register", credentials),
+    onSuccess: setCurrentUser,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => setCurrentUser(null),
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        isAdmin: user?.role === "admin",
+        isLoading,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,105 @@
+import { useEffect } from "react";
+import { LiveUpdate, Market, MatchWithTeamsAndMarkets } from "@shared/schema";
+import { isMatchSettled } from "@shared/settlement";
+import { queryClient } from "@/lib/queryClient";
+
+const RECONNECT_DELAY_MS = 3000;
+
+// Updates a match in both the match list and its own query, where cached
+function patchMatch(id: number, update: (match: MatchWithTeamsAndMarkets) => MatchWithTeamsAndMarkets) {
+  queryClient.setQueryData<MatchWithTeamsAndMarkets[]>(['/api/matches'], (matches) =>
+    matches?.map(match => match.id === id ? update(match) : match)
+  );
+  queryClient.setQueryData<MatchWithTeamsAndMarkets>([`/api/matches/${id}`], (match) =>
+    match && update(match)
+  );
+}
+
+// Replaces a market in place, or adds it if it is new
+function withMarket(markets: Market[], market: Market): Market[] {
+  return markets.some(m => m.id === market.id)
+    ? markets.map(m => m.id === market.id ? market : m)
+    : [...markets, market];
+}
+
+function applyLiveUpdate(update: LiveUpdate) {
+  if (update.type === "market") {
+    const { market } = update;
+    const cached = queryClient.getQueryData<MatchWithTeamsAndMarkets>([`/api/matches/${market.matchId}`])
+      ?? queryClient.getQueryData<MatchWithTeamsAndMarkets[]>(['/api/matches'])?.find(match => match.id === market.matchId);
+    const previousResult = cached?.markets.find(m => m.id === market.id)?.result ?? null;
+    patchMatch(market.matchId, (match) => ({ ...match, markets: withMarket(match.markets, market) }));
+
+    // Grading a custom market settles (or re-grades) the bets waiting on it
+    if (market.result !== previousResult) {
+      queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+    }
+    return;
+  }
+
+  const matches = queryClient.getQueryData<MatchWithTeamsAndMarkets[]>(['/api/matches']);
+  const previous = matches?.find(match => match.id === update.match.id)
+    ?? queryClient.getQueryData<MatchWithTeamsAndMarkets>([`/api/matches/${update.match.id}`]);
+
+  // A match created elsewhere is loaded with its teams and league
+  if (matches && !matches.some(match => match.id === update.match.id)) {
+    queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+  }
+  patchMatch(update.match.id, (match) => ({ ...match, ...update.match }));
+
+  // Bets on a match that was just settled may have been paid out
+  if (previous && isMatchSettled(update.match.status) && !isMatchSettled(previous.status)) {
+    queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+  }
+
+  // A result entered, corrected or reopened changes the league table
+  if (previous && (update.match.status === "FINISHED" || previous.status === "FINISHED")) {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(`/api/leagues/${previous.league.id}/standings`) });
+  }
+}
+
+// Keeps the cached matches in sync with the server's /ws WebSocket: status,
+// score, clock, timeline, odds and locks are patched into the React Query
+// cache as they change, reconnecting whenever the connection drops.
+export function useLiveUpdates() {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onmessage = (event) => {
+        try {
+          applyLiveUpdate(JSON.parse(event.data) as LiveUpdate);
+        } catch (error) {
+          console.error("Invalid live update:", error);
+        }
+      };
+
+      // Changes missed while disconnected are picked up by refetching
+      socket.onopen = () => {
+        if (reconnectTimeout !== undefined) {
+          queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        reconnectTimeout = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimeout);
+      socket?.close();
+    };
+  }, []);
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from "react";
+import { Market } from "@shared/schema";
+
+const FLASH_DURATION_MS = 2000;
+
+type OddsMove = "up" | "down";
+
+// Highlights markets whose odds just changed (e.g. from a live update):
+// green when the price drifted out, red when it shortened
+export function useOddsFlash(markets: Market[]) {
+  const previousOdds = useRef(new Map<number, number>());
+  const timeouts = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const [moves, setMoves] = useState<Record<number, OddsMove>>({});
+
+  useEffect(() => {
+    const changed: Record<number, OddsMove> = {};
+    for (const market of markets) {
+      const previous = previousOdds.current.get(market.id);
+      if (previous !== undefined && previous !== market.odds) {
+        changed[market.id] = market.odds > previous ? "up" : "down";
+      }
+      previousOdds.current.set(market.id, market.odds);
+    }
+
+    const ids = Object.keys(changed).map(Number);
+    if (ids.length === 0) return;
+
+    setMoves(current => ({ ...current, ...changed }));
+    const timeout = setTimeout(() => {
+      timeouts.current.delete(timeout);
+      setMoves(current => {
+        const next = { ...current };
+        ids.forEach(id => delete next[id]);
+        return next;
+      });
+    }, FLASH_DURATION_MS);
+    timeouts.current.add(timeout);
+  }, [markets]);
+
+  useEffect(() => () => timeouts.current.forEach(clearTimeout), []);
+
+  return (marketId: number): string => {
+    switch (moves[marketId]) {
+      case "up": return "text-green-600 animate-pulse";
+      case "down": return "text-red-600 animate-pulse";
+      default: return "";
+    }
+  };
+}
@@ -16,6 +16,7 @@ interface BettingState {
   removeBet: (id: number) => void;
   clearBets: () => void;
   hasBet: (id: number) => boolean;
+  updateOdds: (changes: { marketId: number; newOdds: number }[]) => void;
 }
 
 export const useBettingStore = create<BettingState>()(
@@ -41,6 +42,15 @@ export const useBettingStore = create<BettingState>()(
       
       hasBet: (id) => {
         return get().bets.some(bet => bet.id === id);
+      },
+      
+      updateOdds: (changes) => {
+        set((state) => ({
+          bets: state.bets.map(bet => {
+            const change = changes.find(change => change.marketId === bet.id);
+            return change ? { ...bet, odds: change.newOdds } : bet;
+          })
+        }));
       }
     }),
     {
@@ -0,0 +1,33 @@
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { LoadingSpinner } from "@/components/ui/loading";
+
+// Route that redirects to the login page when nobody is logged in,
+// and admin-only routes back home for bettors
+export function ProtectedRoute({
+  path,
+  component: Component,
+  adminOnly = false,
+}: {
+  path: string;
+  component: React.ComponentType;
+  adminOnly?: boolean;
+}) {
+  const { user, isAdmin, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="py-12">
+          <LoadingSpinner />
+        </div>
+      ) : !user ? (
+        <Redirect to="/login" />
+      ) : adminOnly && !isAdmin ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
@@ -1,9 +1,32 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error for non-2xx responses, keeping the parsed JSON body so callers
+// can react to structured errors (e.g. changed odds when placing a bet)
+export class ApiError<T = unknown> extends Error {
+  constructor(public status: number, message: string, public data?: T) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// The server's message for a failed request, if its JSON body has one
+export function getApiErrorMessage(error: unknown): string | undefined {
+  if (error instanceof ApiError && typeof error.data === "object" && error.data !== null && "message" in error.data) {
+    return typeof error.data.message === "string" ? error.data.message : undefined;
+  }
+  return undefined;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = undefined;
+    }
+    throw new ApiError(res.status, `${res.status}: ${text}`, data);
   }
 }
 
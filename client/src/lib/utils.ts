@@ -1,81 +1,95 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { format } from "date-fns";
+import { parseMarketType, parseCorrectScore, type MarketSpec } from "@shared/markets";
+import type { Market, Match } from "@shared/schema";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function getMarketLabel(marketType: string): string {
-  switch (marketType) {
-    case "1":
-      return "Casa";
-    case "X":
-      return "Empate";
-    case "2":
-      return "Fora";
-    case "OVER_1_5":
-      return "Mais de 1.5 Golos";
-    case "UNDER_1_5":
-      return "Menos de 1.5 Golos";
-    case "OVER_2_5":
-      return "Mais de 2.5 Golos";
-    case "UNDER_2_5":
-      return "Menos de 2.5 Golos";
-    case "OVER_3_5":
-      return "Mais de 3.5 Golos";
-    case "UNDER_3_5":
-      return "Menos de 3.5 Golos";
-    case "BTTS_YES":
-      return "Ambas Marcam - Sim";
-    case "BTTS_NO":
-      return "Ambas Marcam - Não";
-    case "DNB_1":
-      return "Casa (Empate Anula)";
-    case "DNB_2":
-      return "Fora (Empate Anula)";
-    case "DC_1X":
-      return "Casa ou Empate";
-    case "DC_12":
-      return "Casa ou Fora";
-    case "DC_X2":
-      return "Empate ou Fora";
-    case "HT_1":
-      return "1º Tempo - Casa";
-    case "HT_X":
-      return "1º Tempo - Empate";
-    case "HT_2":
-      return "1º Tempo - Fora";
-    case "HT_OVER_0_5":
-      return "1º Tempo - Mais de 0.5";
-    case "HT_UNDER_0_5":
-      return "1º Tempo - Menos de 0.5";
-    case "HT_OVER_1_5":
-      return "1º Tempo - Mais de 1.5";
-    case "HT_UNDER_1_5":
-      return "1º Tempo - Menos de 1.5";
-    case "HT_BTTS_YES":
-      return "1º Tempo - Ambas Marcam";
-    case "HT_BTTS_NO":
-      return "1º Tempo - Nem Ambas Marcam";
-    case "HANDICAP_1_MINUS_1":
-      return "Casa (-1)";
-    case "HANDICAP_1_MINUS_2":
-      return "Casa (-2)";
-    case "HANDICAP_2_MINUS_1":
-      return "Fora (-1)";
-    case "HANDICAP_2_MINUS_2":
-      return "Fora (-2)";
-    case "WIN_BOTH_HALVES_1":
-      return "Casa Vence Ambas as Partes";
-    case "WIN_BOTH_HALVES_2":
-      return "Fora Vence Ambas as Partes";
-    case "WIN_EITHER_HALF_1":
-      return "Casa Vence Pelo Menos Uma Parte";
-    case "WIN_EITHER_HALF_2":
-      return "Fora Vence Pelo Menos Uma Parte";
+const SIDE_LABELS: Record<string, string> = {
+  HOME: "Casa",
+  DRAW: "Empate",
+  AWAY: "Fora",
+  HOME_DRAW: "Casa ou Empate",
+  HOME_AWAY: "Casa ou Fora",
+  DRAW_AWAY: "Empate ou Fora"
+};
+
+const TIE_METHOD_LABELS: Record<string, string> = {
+  REGULAR_TIME: "90 Minutos",
+  EXTRA_TIME: "Prolongamento",
+  PENALTIES: "Penáltis"
+};
+
+// Handicap lines are shown signed, e.g. -1 / +1
+export function formatHandicap(line: number | null): string {
+  if (line === null) return "";
+  return line > 0 ? `+${line}` : `${line}`;
+}
+
+export function getMarketLabel(market: string | MarketSpec): string {
+  const spec = typeof market === "string" ? parseMarketType(market) : market;
+  if (!spec) {
+    return typeof market === "string" ? market : "";
+  }
+
+  const { side, line } = spec;
+  const team = SIDE_LABELS[side] ?? side;
+  const totalLabel = side === "OVER" ? `Mais de ${line}` : `Menos de ${line}`;
+
+  switch (spec.family) {
+    case "MATCH_RESULT":
+    case "DOUBLE_CHANCE":
+      return team;
+    case "TOTAL":
+      return `${totalLabel} Golos`;
+    case "BTTS":
+      return side === "YES" ? "Ambas Marcam - Sim" : "Ambas Marcam - Não";
+    case "DRAW_NO_BET":
+      return `${team} (Empate Anula)`;
+    case "HT_RESULT":
+      return `1º Tempo - ${team}`;
+    case "HT_TOTAL":
+      return `1º Tempo - ${totalLabel}`;
+    case "HT_BTTS":
+      return side === "YES" ? "1º Tempo - Ambas Marcam" : "1º Tempo - Nem Ambas Marcam";
+    case "HANDICAP":
+      return `${team} (${formatHandicap(line)})`;
+    case "ASIAN_HANDICAP":
+      return `${team} ${formatHandicap(line)} (Asiático)`;
+    case "ASIAN_TOTAL":
+      return `${totalLabel} Golos (Asiático)`;
+    case "WIN_BOTH_HALVES":
+      return `${team} Vence Ambas as Partes`;
+    case "WIN_EITHER_HALF":
+      return `${team} Vence Pelo Menos Uma Parte`;
+    case "CORRECT_SCORE": {
+      const score = parseCorrectScore(spec);
+      return score ? `Resultado Exato ${score.home}-${score.away}` : "Resultado Exato - Outro";
+    }
+    case "CORNERS":
+      return `${totalLabel} Cantos`;
+    case "HOME_CORNERS":
+      return `Casa - ${totalLabel} Cantos`;
+    case "AWAY_CORNERS":
+      return `Fora - ${totalLabel} Cantos`;
+    case "CARDS":
+      return `${totalLabel} Cartões`;
+    case "BOOKING_POINTS":
+      return `${totalLabel} Pontos de Cartões`;
+    case "FIRST_CARD":
+      return side === "NONE" ? "Primeiro Cartão - Nenhum" : `Primeiro Cartão - ${team}`;
+    case "TO_QUALIFY":
+      return `Passa - ${team}`;
+    case "METHOD_OF_VICTORY": {
+      // Sides read WINNER_METHOD, e.g. HOME_EXTRA_TIME
+      const [winner, ...method] = side.split("_");
+      return `${SIDE_LABELS[winner] ?? winner} - ${TIE_METHOD_LABELS[method.join("_")] ?? method.join(" ")}`;
+    }
     default:
-      return marketType;
+      return typeof market === "string" ? market : side;
   }
 }
 
@@ -98,6 +112,11 @@ export function formatOdds(odds: number): string {
   return odds.toFixed(2);
 }
 
+// Locked markets are closed for good; suspended ones reopen once repriced after a goal
+export function isMarketAvailable(market: Pick<Market, "isLocked" | "isSuspended">): boolean {
+  return !market.isLocked && !market.isSuspended;
+}
+
 export function calculateTotalOdds(odds: number[]): number {
   if (!odds.length) return 0;
   return odds.reduce((total, odd) => total * odd, 1);
@@ -107,158 +126,14 @@ export function calculatePotentialWin(stake: number, totalOdds: number): number
   return stake * totalOdds;
 }
 
-type BetMarketTypes = "1" | "X" | "2" | "OVER_1_5" | "UNDER_1_5" | "OVER_2_5" | "UNDER_2_5" | "OVER_3_5" | "UNDER_3_5" | "BTTS_YES" | "BTTS_NO" | "DNB_1" | "DNB_2" | "DC_1X" | "DC_12" | "DC_X2" | "HT_1" | "HT_X" | "HT_2" | "HT_OVER_0_5" | "HT_UNDER_0_5" | "HT_OVER_1_5" | "HT_UNDER_1_5" | "HT_BTTS_YES" | "HT_BTTS_NO" | "HANDICAP_1_MINUS_1" | "HANDICAP_1_MINUS_2" | "HANDICAP_2_MINUS_1" | "HANDICAP_2_MINUS_2" | "WIN_BOTH_HALVES_1" | "WIN_BOTH_HALVES_2" | "WIN_EITHER_HALF_1" | "WIN_EITHER_HALF_2" | "CORRECT_SCORE" | "CUSTOM";
-
-// Function to determine if a bet wins based on match result and market type
-export function isBetWinner(
-  marketType: string, 
-  homeScore: number, 
-  awayScore: number, 
-  htHomeScore: number = 0, 
-  htAwayScore: number = 0
-): boolean {
-  const totalGoals = homeScore + awayScore;
-  const htTotalGoals = htHomeScore + htAwayScore;
-  
-  switch (marketType) {
-    // 1X2 Markets
-    case "1": return homeScore > awayScore;
-    case "X": return homeScore === awayScore;
-    case "2": return awayScore > homeScore;
-    
-    // Total Goals Markets
-    case "OVER_1_5": return totalGoals > 1.5;
-    case "UNDER_1_5": return totalGoals < 1.5;
-    case "OVER_2_5": return totalGoals > 2.5;
-    case "UNDER_2_5": return totalGoals < 2.5;
-    case "OVER_3_5": return totalGoals > 3.5;
-    case "UNDER_3_5": return totalGoals < 3.5;
-    
-    // Both Teams To Score
-    case "BTTS_YES": return homeScore > 0 && awayScore > 0;
-    case "BTTS_NO": return homeScore === 0 || awayScore === 0;
-    
-    // Draw No Bet
-    case "DNB_1": return homeScore > awayScore; // Push if draw
-    case "DNB_2": return awayScore > homeScore; // Push if draw
-    
-    // Double Chance
-    case "DC_1X": return homeScore >= awayScore;
-    case "DC_12": return homeScore !== awayScore;
-    case "DC_X2": return awayScore >= homeScore;
-    
-    // Half Time Markets
-    case "HT_1": return htHomeScore > htAwayScore;
-    case "HT_X": return htHomeScore === htAwayScore;
-    case "HT_2": return htAwayScore > htHomeScore;
-    case "HT_OVER_0_5": return htTotalGoals > 0.5;
-    case "HT_UNDER_0_5": return htTotalGoals < 0.5;
-    case "HT_OVER_1_5": return htTotalGoals > 1.5;
-    case "HT_UNDER_1_5": return htTotalGoals < 1.5;
-    case "HT_BTTS_YES": return htHomeScore > 0 && htAwayScore > 0;
-    case "HT_BTTS_NO": return htHomeScore === 0 || htAwayScore === 0;
-    
-    // Handicap Markets
-    case "HANDICAP_1_MINUS_1": return (homeScore - 1) > awayScore;
-    case "HANDICAP_1_MINUS_2": return (homeScore - 2) > awayScore;
-    case "HANDICAP_2_MINUS_1": return homeScore < (awayScore - 1);
-    case "HANDICAP_2_MINUS_2": return homeScore < (awayScore - 2);
-    
-    // Win Both Halves (assuming we have half time scores)
-    case "WIN_BOTH_HALVES_1": 
-      return htHomeScore > htAwayScore && (homeScore - htHomeScore) > (awayScore - htAwayScore);
-    case "WIN_BOTH_HALVES_2": 
-      return htAwayScore > htHomeScore && (awayScore - htAwayScore) > (homeScore - htHomeScore);
-    
-    // Win Either Half
-    case "WIN_EITHER_HALF_1": 
-      return htHomeScore > htAwayScore || (homeScore - htHomeScore) > (awayScore - htAwayScore);
-    case "WIN_EITHER_HALF_2": 
-      return htAwayScore > htHomeScore || (awayScore - htAwayScore) > (homeScore - htHomeScore);
-    
-    default: return false;
-  }
-}
-
-// Function to check if a bet is a push (stake returned)
-export function isBetPush(marketType: string, homeScore: number, awayScore: number): boolean {
-  switch (marketType) {
-    case "DNB_1": return homeScore === awayScore;
-    case "DNB_2": return homeScore === awayScore;
-    default: return false;
-  }
-}
-
-
-
-// Function to calculate related odds based on main market odds
-export function calculateRelatedOdds(homeOdds: number, drawOdds: number, awayOdds: number) {
-  const totalImpliedProb = (1/homeOdds + 1/drawOdds + 1/awayOdds);
-  const margin = totalImpliedProb - 1;
-
-  // Estimate team strengths
-  const homeProb = (1/homeOdds) / totalImpliedProb;
-  const drawProb = (1/drawOdds) / totalImpliedProb;
-  const awayProb = (1/awayOdds) / totalImpliedProb;
-
-  return {
-    // Total Goals markets
-    OVER_1_5: Number((1 / (0.85 - margin * 0.5)).toFixed(2)),
-    UNDER_1_5: Number((1 / (0.15 + margin * 0.5)).toFixed(2)),
-    OVER_2_5: Number((1 / (0.60 - margin * 0.5)).toFixed(2)),
-    UNDER_2_5: Number((1 / (0.40 + margin * 0.5)).toFixed(2)),
-    OVER_3_5: Number((1 / (0.35 - margin * 0.5)).toFixed(2)),
-    UNDER_3_5: Number((1 / (0.65 + margin * 0.5)).toFixed(2)),
-
-    // Both Teams To Score
-    BTTS_YES: Number((1 / (0.55 - margin * 0.5)).toFixed(2)),
-    BTTS_NO: Number((1 / (0.45 + margin * 0.5)).toFixed(2)),
-
-    // Draw No Bet
-    DNB_1: Number((homeOdds * (homeProb + drawProb) / homeProb).toFixed(2)),
-    DNB_2: Number((awayOdds * (awayProb + drawProb) / awayProb).toFixed(2)),
-
-    // Double Chance
-    DC_1X: Number((1 / (homeProb + drawProb + margin * 0.5)).toFixed(2)),
-    DC_12: Number((1 / (homeProb + awayProb + margin * 0.5)).toFixed(2)),
-    DC_X2: Number((1 / (drawProb + awayProb + margin * 0.5)).toFixed(2)),
-
-    // Half Time (estimated)
-    HT_1: Number((homeOdds * 1.4).toFixed(2)),
-    HT_X: Number((drawOdds * 0.8).toFixed(2)),
-    HT_2: Number((awayOdds * 1.4).toFixed(2)),
-
-    // Half Time Goals
-    HT_OVER_0_5: Number((1 / (0.75 - margin * 0.5)).toFixed(2)),
-    HT_UNDER_0_5: Number((1 / (0.25 + margin * 0.5)).toFixed(2)),
-    HT_OVER_1_5: Number((1 / (0.35 - margin * 0.5)).toFixed(2)),
-    HT_UNDER_1_5: Number((1 / (0.65 + margin * 0.5)).toFixed(2)),
-
-    // Half Time Both Teams Score
-    HT_BTTS_YES: Number((1 / (0.35 - margin * 0.5)).toFixed(2)),
-    HT_BTTS_NO: Number((1 / (0.65 + margin * 0.5)).toFixed(2)),
-
-    // Handicaps
-    HANDICAP_1_MINUS_1: Number((homeOdds * 1.6).toFixed(2)),
-    HANDICAP_1_MINUS_2: Number((homeOdds * 2.2).toFixed(2)),
-    HANDICAP_2_MINUS_1: Number((awayOdds * 1.6).toFixed(2)),
-    HANDICAP_2_MINUS_2: Number((awayOdds * 2.2).toFixed(2)),
-
-    // Win Both Halves
-    WIN_BOTH_HALVES_1: Number((homeOdds * 2.5).toFixed(2)),
-    WIN_BOTH_HALVES_2: Number((awayOdds * 2.5).toFixed(2)),
-
-    // Win Either Half
-    WIN_EITHER_HALF_1: Number((homeOdds * 0.7).toFixed(2)),
-    WIN_EITHER_HALF_2: Number((awayOdds * 0.7).toFixed(2))
-  };
-}
-
 export function getStatusLabel(status: string): string {
   switch (status) {
     case "LIVE": return "LIVE";
     case "UPCOMING": return "Upcoming";
     case "FINISHED": return "Finished";
+    case "POSTPONED": return "Postponed";
+    case "ABANDONED": return "Abandoned";
+    case "CANCELLED": return "Cancelled";
     default: return status;
   }
 }
@@ -268,10 +143,76 @@ export function getStatusClass(status: string): string {
     case "LIVE": return "bg-green-600 text-white";
     case "UPCOMING": return "bg-blue-500 text-white";
     case "FINISHED": return "bg-gray-500 text-white";
+    case "POSTPONED": return "bg-orange-500 text-white";
+    case "ABANDONED":
+    case "CANCELLED": return "bg-red-600 text-white";
     default: return "bg-gray-200 text-gray-800";
   }
 }
 
+export function getMatchEventLabel(type: string): string {
+  switch (type) {
+    case "GOAL": return "Golo";
+    case "OWN_GOAL": return "Autogolo";
+    case "PENALTY_GOAL": return "Golo de penálti";
+    case "YELLOW_CARD": return "Cartão amarelo";
+    case "RED_CARD": return "Cartão vermelho";
+    case "CORNER": return "Canto";
+    case "SUBSTITUTION": return "Substituição";
+    default: return type;
+  }
+}
+
+// Label and badge colours of a settlement status, for a whole bet or one of its selections
+export function getSelectionStatusLabel(status: string): string {
+  switch (status) {
+    case "WON": return "Ganhou";
+    case "LOST": return "Perdeu";
+    case "PUSH": return "Devolvida";
+    case "VOID": return "Anulada";
+    case "HALF_WON": return "Meia ganha";
+    case "HALF_LOST": return "Meia perdida";
+    default: return status;
+  }
+}
+
+export function getSelectionStatusClass(status: string): string {
+  switch (status) {
+    case "WON":
+    case "HALF_WON": return "bg-green-100 text-green-800";
+    case "LOST":
+    case "HALF_LOST": return "bg-red-100 text-red-800";
+    default: return "bg-gray-200 text-gray-700";
+  }
+}
+
+export function getTiebreakerLabel(tiebreaker: string): string {
+  switch (tiebreaker) {
+    case "GOAL_DIFFERENCE": return "Diferença de golos";
+    case "GOALS_FOR": return "Golos marcados";
+    case "HEAD_TO_HEAD": return "Confronto direto";
+    case "WINS": return "Vitórias";
+    case "AWAY_GOALS": return "Golos fora";
+    default: return tiebreaker;
+  }
+}
+
+// How a level cup tie was settled, shown next to the 90 minute score:
+// "a.p." after extra time, "g.p." on penalties; null for any other match
+export function formatTieScore(match: Pick<Match, "etHomeScore" | "etAwayScore" | "penHomeScore" | "penAwayScore">): string | null {
+  if (match.penHomeScore !== null && match.penAwayScore !== null) {
+    return `${match.penHomeScore}-${match.penAwayScore} g.p.`;
+  }
+  if (match.etHomeScore !== null && match.etAwayScore !== null) {
+    return `${match.etHomeScore}-${match.etAwayScore} a.p.`;
+  }
+  return null;
+}
+
+export function getRoundLabel(round: { number: number; name: string | null }): string {
+  return round.name || `Jornada ${round.number}`;
+}
+
 export function generateInitials(name: string): string {
   if (!name) return "";
 
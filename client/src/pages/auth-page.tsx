@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Link, Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface AuthPageProps {
+  mode: "login" | "register";
+}
+
+export default function AuthPage({ mode }: AuthPageProps) {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const isLogin = mode === "login";
+  const mutation = isLogin ? loginMutation : registerMutation;
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    mutation.mutate({ username: username.trim(), password });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md">
+        <form onSubmit={handleSubmit}>
+          <CardHeader>
+            <CardTitle>{isLogin ? "Sign in" : "Create account"}</CardTitle>
+            <CardDescription>
+              {isLogin
+                ? "Sign in to FM24 Sportsbook to see your wallet and bets."
+                : "Every account starts with its own wallet and bet history."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={isLogin ? "current-password" : "new-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+          </CardContent>
+          <CardFooter className="flex flex-col gap-3">
+            <Button type="submit" className="w-full" disabled={mutation.isPending}>
+              {mutation.isPending
+                ? (isLogin ? "Signing in..." : "Creating account...")
+                : (isLogin ? "Sign in" : "Create account")}
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              {isLogin ? "No account yet? " : "Already have an account? "}
+              <Link href={isLogin ? "/register" : "/login"} className="text-primary hover:underline">
+                {isLogin ? "Register" : "Sign in"}
+              </Link>
+            </p>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,20 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { calculateRelatedOdds } from "@/lib/utils";
+import {
+  createPricingModel,
+  priceMarkets,
+  inferExpectedGoals,
+  getAsianMarketTypes,
+  DERIVED_MARKET_TYPES,
+  CORRECT_SCORE_MARKET_TYPES,
+  EVENT_MARKET_TYPES,
+  CUP_MARKET_TYPES,
+  DEFAULT_PRICING_OPTIONS
+} from "@shared/pricing";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -68,6 +78,7 @@ interface League {
   name: string;
   country: string;
   isActive: boolean;
+  format: string;
 }
 
 interface Team {
@@ -93,6 +104,13 @@ export default function CreateMatch() {
   const [awayTeamMode, setAwayTeamMode] = useState<'predefined' | 'manual'>('predefined');
   const [customMarkets, setCustomMarkets] = useState<{type: string, odds: number}[]>([]);
   const [generateRelatedMarkets, setGenerateRelatedMarkets] = useState(true);
+  const [margin, setMargin] = useState(5);
+  const [generateCorrectScores, setGenerateCorrectScores] = useState(true);
+  const [generateAsianLines, setGenerateAsianLines] = useState(true);
+  const [generateEventMarkets, setGenerateEventMarkets] = useState(true);
+  const [liveMatchResult, setLiveMatchResult] = useState(false);
+  const [expectedCorners, setExpectedCorners] = useState(DEFAULT_PRICING_OPTIONS.expectedCorners);
+  const [expectedCards, setExpectedCards] = useState(DEFAULT_PRICING_OPTIONS.expectedCards);
 
   // Fetch continents, leagues and teams
   const { data: continents = [] } = useQuery<Continent[]>({
@@ -160,6 +178,13 @@ export default function CreateMatch() {
   // State to track if the current selection is an eSports league
   const [isEsportsLeague, setIsEsportsLeague] = useState(false);
 
+  // Expected goals implied by the 1X2 odds, shown next to the related markets option
+  const [homeOdds, drawOdds, awayOdds] = form.watch(['homeOdds', 'drawOdds', 'awayOdds']);
+  const expectedGoals = useMemo(
+    () => homeOdds > 1 && drawOdds > 1 && awayOdds > 1 ? inferExpectedGoals(homeOdds, drawOdds, awayOdds) : null,
+    [homeOdds, drawOdds, awayOdds]
+  );
+
   // Functions to handle mode changes
   const handleHomeTeamModeChange = () => {
     const newMode = homeTeamMode === 'predefined' ? 'manual' : 'predefined';
@@ -224,95 +249,34 @@ export default function CreateMatch() {
         throw new Error("Invalid start time format");
       }
 
-      let markets = isEsportsLeague 
+      // Live markets stay open after kick-off; everything else locks then
+      let markets: { type: string; odds: number; isLive?: boolean }[] = isEsportsLeague 
         ? [
-            { type: "1", odds: values.homeOdds },
-            { type: "2", odds: values.awayOdds }
+            { type: "1", odds: values.homeOdds, isLive: liveMatchResult },
+            { type: "2", odds: values.awayOdds, isLive: liveMatchResult }
           ]
         : [
-            { type: "1", odds: values.homeOdds },
-            { type: "X", odds: values.drawOdds },
-            { type: "2", odds: values.awayOdds }
+            { type: "1", odds: values.homeOdds, isLive: liveMatchResult },
+            { type: "X", odds: values.drawOdds, isLive: liveMatchResult },
+            { type: "2", odds: values.awayOdds, isLive: liveMatchResult }
           ];
 
-      // Add related markets if enabled and not eSports
+      // Add related markets priced from the 1X2 odds if enabled and not eSports
       if (generateRelatedMarkets && !isEsportsLeague) {
-        const relatedOdds = {
-          OVER_1_5: 1.25,
-          UNDER_1_5: 3.75,
-          OVER_2_5: 1.85,
-          UNDER_2_5: 1.95,
-          OVER_3_5: 2.85,
-          UNDER_3_5: 1.40,
-          BTTS_YES: 1.70,
-          BTTS_NO: 2.10,
-          DNB_1: values.homeOdds > 1.50 ? values.homeOdds - 0.20 : 1.30,
-          DNB_2: values.awayOdds > 1.50 ? values.awayOdds - 0.20 : 1.30,
-          DC_1X: 1.25,
-          DC_12: 1.35,
-          DC_X2: 1.30,
-          HT_1: values.homeOdds + 0.50,
-          HT_X: 2.20,
-          HT_2: values.awayOdds + 0.50,
-          HT_OVER_0_5: 1.60,
-          HT_UNDER_0_5: 2.30,
-          HT_OVER_1_5: 3.20,
-          HT_UNDER_1_5: 1.30,
-          HT_BTTS_YES: 2.40,
-          HT_BTTS_NO: 1.55,
-          HANDICAP_1_MINUS_1: values.homeOdds + 0.80,
-          HANDICAP_1_MINUS_2: values.homeOdds + 1.50,
-          HANDICAP_2_MINUS_1: values.awayOdds + 0.80,
-          HANDICAP_2_MINUS_2: values.awayOdds + 1.50,
-          WIN_BOTH_HALVES_1: values.homeOdds + 2.50,
-          WIN_BOTH_HALVES_2: values.awayOdds + 2.50,
-          WIN_EITHER_HALF_1: values.homeOdds - 0.30,
-          WIN_EITHER_HALF_2: values.awayOdds - 0.30
-        };
-
-        markets = [
-          ...markets,
-          // Total Goals
-          { type: "OVER_1_5", odds: relatedOdds.OVER_1_5 },
-          { type: "UNDER_1_5", odds: relatedOdds.UNDER_1_5 },
-          { type: "OVER_2_5", odds: relatedOdds.OVER_2_5 },
-          { type: "UNDER_2_5", odds: relatedOdds.UNDER_2_5 },
-          { type: "OVER_3_5", odds: relatedOdds.OVER_3_5 },
-          { type: "UNDER_3_5", odds: relatedOdds.UNDER_3_5 },
-          // Both Teams to Score
-          { type: "BTTS_YES", odds: relatedOdds.BTTS_YES },
-          { type: "BTTS_NO", odds: relatedOdds.BTTS_NO },
-          // Draw No Bet
-          { type: "DNB_1", odds: relatedOdds.DNB_1 },
-          { type: "DNB_2", odds: relatedOdds.DNB_2 },
-          // Double Chance
-          { type: "DC_1X", odds: relatedOdds.DC_1X },
-          { type: "DC_12", odds: relatedOdds.DC_12 },
-          { type: "DC_X2", odds: relatedOdds.DC_X2 },
-          // Half Time Result
-          { type: "HT_1", odds: relatedOdds.HT_1 },
-          { type: "HT_X", odds: relatedOdds.HT_X },
-          { type: "HT_2", odds: relatedOdds.HT_2 },
-          // Half Time Goals
-          { type: "HT_OVER_0_5", odds: relatedOdds.HT_OVER_0_5 },
-          { type: "HT_UNDER_0_5", odds: relatedOdds.HT_UNDER_0_5 },
-          { type: "HT_OVER_1_5", odds: relatedOdds.HT_OVER_1_5 },
-          { type: "HT_UNDER_1_5", odds: relatedOdds.HT_UNDER_1_5 },
-          // Half Time Both Teams Score
-          { type: "HT_BTTS_YES", odds: relatedOdds.HT_BTTS_YES },
-          { type: "HT_BTTS_NO", odds: relatedOdds.HT_BTTS_NO },
-          // Handicaps
-          { type: "HANDICAP_1_MINUS_1", odds: relatedOdds.HANDICAP_1_MINUS_1 },
-          { type: "HANDICAP_1_MINUS_2", odds: relatedOdds.HANDICAP_1_MINUS_2 },
-          { type: "HANDICAP_2_MINUS_1", odds: relatedOdds.HANDICAP_2_MINUS_1 },
-          { type: "HANDICAP_2_MINUS_2", odds: relatedOdds.HANDICAP_2_MINUS_2 },
-          // Win Both Halves
-          { type: "WIN_BOTH_HALVES_1", odds: relatedOdds.WIN_BOTH_HALVES_1 },
-          { type: "WIN_BOTH_HALVES_2", odds: relatedOdds.WIN_BOTH_HALVES_2 },
-          // Win Either Half
-          { type: "WIN_EITHER_HALF_1", odds: relatedOdds.WIN_EITHER_HALF_1 },
-          { type: "WIN_EITHER_HALF_2", odds: relatedOdds.WIN_EITHER_HALF_2 }
+        const model = createPricingModel(values.homeOdds, values.drawOdds, values.awayOdds, {
+          margin: margin / 100,
+          expectedCorners,
+          expectedCards
+        });
+        const marketTypes = [
+          ...DERIVED_MARKET_TYPES,
+          ...(generateCorrectScores ? CORRECT_SCORE_MARKET_TYPES : []),
+          ...(generateAsianLines ? getAsianMarketTypes(model) : []),
+          ...(generateEventMarkets ? EVENT_MARKET_TYPES : []),
+          // Cup ties also get who goes through and how
+          ...(leagues.find(l => l.id === parseInt(values.leagueId))?.format === "CUP" ? CUP_MARKET_TYPES : [])
         ];
+        markets = [...markets, ...priceMarkets(model, marketTypes)];
       }
 
       // Add custom markets
@@ -693,6 +657,19 @@ export default function CreateMatch() {
                 </div>
               </div>
 
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="liveMatchResult"
+                  checked={liveMatchResult}
+                  onChange={(e) => setLiveMatchResult(e.target.checked)}
+                  className="rounded"
+                />
+                <label htmlFor="liveMatchResult" className="text-sm">
+                  Manter o resultado final aberto durante o jogo (apostas ao vivo)
+                </label>
+              </div>
+
               {!isEsportsLeague && (
                 <div className="space-y-4">
                   <div className="flex items-center space-x-2">
@@ -708,6 +685,95 @@ export default function CreateMatch() {
                     </label>
                   </div>
 
+                  {generateRelatedMarkets && (
+                    <div className="flex flex-wrap items-center gap-4">
+                      <div className="flex items-center gap-2">
+                        <label htmlFor="margin" className="text-sm">Margem (%)</label>
+                        <Input
+                          id="margin"
+                          type="number"
+                          step="0.5"
+                          min="0"
+                          max="30"
+                          value={margin}
+                          onChange={(e) => setMargin(parseFloat(e.target.value) || 0)}
+                          className="w-20"
+                        />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="generateCorrectScores"
+                          checked={generateCorrectScores}
+                          onChange={(e) => setGenerateCorrectScores(e.target.checked)}
+                          className="rounded"
+                        />
+                        <label htmlFor="generateCorrectScores" className="text-sm">
+                          Resultado exato (0-0 a 4-4)
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="generateAsianLines"
+                          checked={generateAsianLines}
+                          onChange={(e) => setGenerateAsianLines(e.target.checked)}
+                          className="rounded"
+                        />
+                        <label htmlFor="generateAsianLines" className="text-sm">
+                          Linhas asiáticas
+                        </label>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          id="generateEventMarkets"
+                          checked={generateEventMarkets}
+                          onChange={(e) => setGenerateEventMarkets(e.target.checked)}
+                          className="rounded"
+                        />
+                        <label htmlFor="generateEventMarkets" className="text-sm">
+                          Cantos e cartões
+                        </label>
+                      </div>
+                      {generateEventMarkets && (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <label htmlFor="expectedCorners" className="text-sm">Cantos esperados</label>
+                            <Input
+                              id="expectedCorners"
+                              type="number"
+                              step="0.5"
+                              min="1"
+                              max="25"
+                              value={expectedCorners}
+                              onChange={(e) => setExpectedCorners(parseFloat(e.target.value) || DEFAULT_PRICING_OPTIONS.expectedCorners)}
+                              className="w-20"
+                            />
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <label htmlFor="expectedCards" className="text-sm">Cartões esperados</label>
+                            <Input
+                              id="expectedCards"
+                              type="number"
+                              step="0.5"
+                              min="0.5"
+                              max="12"
+                              value={expectedCards}
+                              onChange={(e) => setExpectedCards(parseFloat(e.target.value) || DEFAULT_PRICING_OPTIONS.expectedCards)}
+                              className="w-20"
+                            />
+                          </div>
+                        </>
+                      )}
+                      {expectedGoals && (
+                        <span className="text-sm text-muted-foreground">
+                          Golos esperados: {expectedGoals.home.toFixed(2)} - {expectedGoals.away.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <h3 className="text-sm font-medium">Mercados Personalizados</h3>
@@ -0,0 +1,150 @@
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MatchWithTeamsAndMarkets, Market, MarketResult, RegradedBet } from "@shared/schema";
+import { getMarketSpec } from "@shared/markets";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatOdds, getStatusLabel, getStatusClass } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { ArrowLeft } from "lucide-react";
+
+function getMarketResultLabel(result: string | null): string {
+  switch (result) {
+    case "WON": return "Ganhou";
+    case "LOST": return "Perdeu";
+    case "VOID": return "Anulado";
+    default: return "Por resolver";
+  }
+}
+
+function getMarketResultClass(result: string | null): string {
+  switch (result) {
+    case "WON": return "bg-green-100 text-green-800";
+    case "LOST": return "bg-red-100 text-red-800";
+    case "VOID": return "bg-gray-200 text-gray-700";
+    default: return "bg-yellow-100 text-yellow-800";
+  }
+}
+
+const RESULT_BUTTONS: { result: MarketResult; label: string }[] = [
+  { result: "WON", label: "Ganhou" },
+  { result: "LOST", label: "Perdeu" },
+  { result: "VOID", label: "Anular" }
+];
+
+// Admin screen to grade a match's custom markets by hand
+export default function CustomMarkets() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+
+  const { data: match, isLoading } = useQuery<MatchWithTeamsAndMarkets>({
+    queryKey: [`/api/matches/${id}`],
+  });
+
+  const setResultMutation = useMutation({
+    mutationFn: ({ marketId, result }: { marketId: number; result: MarketResult | null }) =>
+      apiRequest<Market & { regradedBets: RegradedBet[] }>("PATCH", `/api/markets/${marketId}/result`, { result }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+
+      toast({
+        title: "Mercado atualizado",
+        description: data.regradedBets.length > 0
+          ? `${data.regradedBets.length} aposta(s) corrigida(s).`
+          : `Resultado: ${getMarketResultLabel(data.result).toLowerCase()}.`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return <div className="py-12"><LoadingSpinner /></div>;
+  }
+
+  if (!match) {
+    return <div className="text-center py-12 text-gray-500">Jogo não encontrado.</div>;
+  }
+
+  const homeTeam = match.homeTeam?.name || match.homeTeamName || "Unknown";
+  const awayTeam = match.awayTeam?.name || match.awayTeamName || "Unknown";
+  const customMarkets = match.markets.filter(market => getMarketSpec(market) === null);
+  const pendingCount = customMarkets.filter(market => market.result === null).length;
+
+  return (
+    <div className="container mx-auto py-6">
+      <Link href="/" className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-4">
+        <ArrowLeft className="h-4 w-4" />
+        Voltar
+      </Link>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-black">Mercados Personalizados</h1>
+          <p className="text-gray-600">
+            {homeTeam} vs {awayTeam}
+            {match.homeScore != null && match.awayScore != null && ` (${match.homeScore}-${match.awayScore})`}
+          </p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusClass(match.status)}`}>
+          {getStatusLabel(match.status)}
+        </span>
+      </div>
+
+      {match.status === "FINISHED" && pendingCount > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md p-3 mb-4 text-sm">
+          {pendingCount} mercado(s) por resolver. As apostas nestes mercados ficam pendentes até serem resolvidos.
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow divide-y">
+        {customMarkets.map(market => (
+          <div key={market.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="font-medium text-black">{market.type}</div>
+              <div className="text-sm text-gray-500">Odd {formatOdds(market.odds)}</div>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className={`px-2 py-1 rounded text-xs font-medium ${getMarketResultClass(market.result)}`}>
+                {getMarketResultLabel(market.result)}
+              </span>
+              {RESULT_BUTTONS.map(({ result, label }) => (
+                <Button
+                  key={result}
+                  size="sm"
+                  variant={market.result === result ? "default" : "outline"}
+                  disabled={setResultMutation.isPending || market.result === result}
+                  onClick={() => setResultMutation.mutate({ marketId: market.id, result })}
+                >
+                  {label}
+                </Button>
+              ))}
+              {market.result !== null && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={setResultMutation.isPending}
+                  onClick={() => setResultMutation.mutate({ marketId: market.id, result: null })}
+                >
+                  Limpar
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+        {customMarkets.length === 0 && (
+          <div className="p-8 text-center text-gray-500">Este jogo não tem mercados personalizados.</div>
+        )}
+      </div>
+    </div>
+  );
+}
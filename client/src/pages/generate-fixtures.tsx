@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useParams, Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { League, Team, Season, GenerateFixtures, GenerateBracket, GeneratedFixtures, GeneratedBracket } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDateTime, formatOdds } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { ArrowLeft } from "lucide-react";
+
+// Admin tool that builds a whole round-robin season for a league: pick the
+// teams, preview the calendar and prices, then create every match at once.
+// A cup is drawn into a bracket instead: the teams are paired in the order
+// they are picked and only the first round is created up front.
+export default function GenerateFixturesPage() {
+  const { id } = useParams<{ id: string }>();
+  const leagueId = parseInt(id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const [selectedTeamIds, setSelectedTeamIds] = useState<number[]>([]);
+  const [customNames, setCustomNames] = useState("");
+  const [doubleRoundRobin, setDoubleRoundRobin] = useState(true);
+  const [seasonId, setSeasonId] = useState("none");
+  const [startTime, setStartTime] = useState("");
+  const [daysBetweenRounds, setDaysBetweenRounds] = useState(7);
+  const [homeExpectedGoals, setHomeExpectedGoals] = useState(1.5);
+  const [awayExpectedGoals, setAwayExpectedGoals] = useState(1.15);
+  const [marginPercent, setMarginPercent] = useState(5);
+  const [preview, setPreview] = useState<GeneratedFixtures | GeneratedBracket | null>(null);
+
+  const { data: leagues = [], isLoading } = useQuery<League[]>({
+    queryKey: ['/api/leagues'],
+  });
+  const league = leagues.find(l => l.id === leagueId);
+
+  const { data: countryTeams = [] } = useQuery<Team[]>({
+    queryKey: [`/api/teams/${encodeURIComponent(league?.country ?? "")}`],
+    enabled: !!league,
+  });
+
+  const { data: seasons = [] } = useQuery<Season[]>({
+    queryKey: [`/api/leagues/${leagueId}/seasons`],
+  });
+
+  // eSports teams all share the "Global" country, so they are narrowed to the league
+  const teams = league?.country === "Global"
+    ? countryTeams.filter(team => team.league === league.name)
+    : countryTeams;
+
+  const customTeamNames = customNames.split("\n").map(name => name.trim()).filter(Boolean);
+  const teamCount = selectedTeamIds.length + customTeamNames.length;
+  const isCup = league?.format === "CUP";
+  const fillsBracket = Number.isInteger(Math.log2(teamCount));
+  const endpoint = `/api/leagues/${leagueId}/${isCup ? "bracket" : "fixtures"}`;
+
+  // Any change to the request makes the last preview stale
+  const update = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPreview(null);
+  };
+
+  const toggleTeam = (teamId: number) => {
+    update(setSelectedTeamIds)(
+      selectedTeamIds.includes(teamId)
+        ? selectedTeamIds.filter(selected => selected !== teamId)
+        : [...selectedTeamIds, teamId]
+    );
+  };
+
+  const buildRequest = (isPreview: boolean): GenerateFixtures | GenerateBracket => ({
+    teams: [
+      ...selectedTeamIds.map(teamId => ({ teamId })),
+      ...customTeamNames.map(name => ({ name }))
+    ],
+    ...(isCup ? {} : { doubleRoundRobin }),
+    seasonId: seasonId === "none" ? undefined : parseInt(seasonId),
+    startTime: new Date(startTime).toISOString(),
+    daysBetweenRounds,
+    homeExpectedGoals,
+    awayExpectedGoals,
+    margin: marginPercent / 100,
+    preview: isPreview
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: () => apiRequest<GeneratedFixtures | GeneratedBracket>("POST", endpoint, buildRequest(true)),
+    onSuccess: (result) => setPreview(result),
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest<GeneratedFixtures | GeneratedBracket>("POST", endpoint, buildRequest(false)),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(`/api/leagues/${leagueId}/standings`) });
+      toast(isCup ? {
+        title: "Eliminatórias sorteadas",
+        description: `${result.created.length} jogos criados. As eliminatórias seguintes são sorteadas à medida que há vencedores.`
+      } : {
+        title: "Calendário criado",
+        description: `${result.created.length} jogos criados em ${result.rounds} jornadas.`
+      });
+      navigate(`/league/${leagueId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return <div className="py-12"><LoadingSpinner /></div>;
+  }
+
+  if (!league) {
+    return <div className="text-center py-12 text-gray-500">Liga não encontrada.</div>;
+  }
+
+  // A cup preview only has the first round, later ties depend on its winners
+  const rounds = preview
+    ? Array.from({ length: preview.rounds }, (_, i) => preview.fixtures.filter(fixture => fixture.round === i + 1))
+      .filter(fixtures => fixtures.length > 0)
+    : [];
+  const matchResultOdds = preview?.markets.filter(market => ["1", "X", "2"].includes(market.type)) ?? [];
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <Link
+        href={`/league/${league.id}`}
+        className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {league.name}
+      </Link>
+
+      <div>
+        <h1 className="text-2xl font-bold text-black">{isCup ? "Sortear Eliminatórias" : "Gerar Calendário"}</h1>
+        <p className="text-gray-600">
+          {isCup
+            ? "Eliminatórias a uma mão: as equipas jogam pela ordem escolhida (1ª contra 2ª, 3ª contra 4ª, ...)."
+            : "Todos contra todos, com mercados abertos em cada jogo."}
+        </p>
+      </div>
+
+      <form
+        className="bg-white rounded-lg shadow p-4 space-y-6"
+        onSubmit={(e) => {
+          e.preventDefault();
+          previewMutation.mutate();
+        }}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Equipas ({league.country})</Label>
+            {teams.length === 0 ? (
+              <div className="text-sm text-gray-500">Sem equipas registadas para esta liga.</div>
+            ) : (
+              <div className="border rounded-md p-2 max-h-64 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {teams.map(team => (
+                  <label key={team.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selectedTeamIds.includes(team.id)}
+                      onChange={() => toggleTeam(team.id)}
+                      className="rounded"
+                    />
+                    <span>{team.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+            {teams.length > 0 && (
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update(setSelectedTeamIds)(teams.map(team => team.id))}
+                >
+                  Selecionar todas
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => update(setSelectedTeamIds)([])}>
+                  Limpar
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customNames">Equipas personalizadas (uma por linha)</Label>
+            <Textarea
+              id="customNames"
+              rows={8}
+              value={customNames}
+              onChange={(e) => update(setCustomNames)(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="startTime">{isCup ? "Primeira eliminatória" : "Primeira jornada"}</Label>
+            <Input
+              id="startTime"
+              type="datetime-local"
+              required
+              value={startTime}
+              onChange={(e) => update(setStartTime)(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Época</Label>
+            <Select value={seasonId} onValueChange={update(setSeasonId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* A bracket lives in one season, whose rounds hold its ties */}
+                <SelectItem value="none" disabled={isCup}>{isCup ? "Escolha uma época" : "Pela data de cada jogo"}</SelectItem>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id.toString()}>{season.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="daysBetweenRounds">{isCup ? "Dias entre eliminatórias" : "Dias entre jornadas"}</Label>
+            <Input
+              id="daysBetweenRounds"
+              type="number"
+              min={1}
+              max={60}
+              value={daysBetweenRounds}
+              onChange={(e) => update(setDaysBetweenRounds)(parseInt(e.target.value) || 1)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="marginPercent">Margem (%)</Label>
+            <Input
+              id="marginPercent"
+              type="number"
+              min={0}
+              max={30}
+              step={0.5}
+              value={marginPercent}
+              onChange={(e) => update(setMarginPercent)(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="homeExpectedGoals">Golos esperados (casa)</Label>
+            <Input
+              id="homeExpectedGoals"
+              type="number"
+              min={0.2}
+              max={5}
+              step={0.05}
+              value={homeExpectedGoals}
+              onChange={(e) => update(setHomeExpectedGoals)(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="awayExpectedGoals">Golos esperados (fora)</Label>
+            <Input
+              id="awayExpectedGoals"
+              type="number"
+              min={0.2}
+              max={5}
+              step={0.05}
+              value={awayExpectedGoals}
+              onChange={(e) => update(setAwayExpectedGoals)(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+
+        {isCup ? (
+          <p className="text-sm text-gray-500">
+            {seasons.length === 0
+              ? "Crie primeiro uma época na página da liga."
+              : "O número de equipas tem de encher a chave: 2, 4, 8, 16, 32 ou 64."}
+          </p>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="doubleRoundRobin"
+              checked={doubleRoundRobin}
+              onChange={(e) => update(setDoubleRoundRobin)(e.target.checked)}
+              className="rounded"
+            />
+            <label htmlFor="doubleRoundRobin" className="text-sm">
+              Duas voltas (cada equipa joga em casa e fora com todas as outras)
+            </label>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="submit"
+            disabled={
+              teamCount < 2 || !startTime || previewMutation.isPending
+              || (isCup && (!fillsBracket || seasonId === "none"))
+            }
+          >
+            {previewMutation.isPending ? "A calcular..." : `Pré-visualizar (${teamCount} equipas)`}
+          </Button>
+        </div>
+      </form>
+
+      {preview && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h2 className="text-lg font-semibold text-black">
+                {"roundNames" in preview
+                  ? `${preview.fixtures.length} jogos na ${preview.roundNames[0]} · ${preview.roundNames.join(" → ")}`
+                  : `${preview.fixtures.length} jogos em ${preview.rounds} jornadas`}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {preview.markets.length} mercados por jogo
+                {matchResultOdds.length > 0 && ` · ${matchResultOdds.map(market => `${market.type} ${formatOdds(market.odds)}`).join(" · ")}`}
+              </p>
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+              {createMutation.isPending ? "A criar..." : `Criar ${preview.fixtures.length} jogos`}
+            </Button>
+          </div>
+
+          <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+            {rounds.map((fixtures, index) => (
+              <div key={index}>
+                <div className="text-sm font-semibold text-black mb-1">
+                  {"roundNames" in preview ? preview.roundNames[index] : `Jornada ${index + 1}`}
+                  {fixtures.length > 0 && (
+                    <span className="font-normal text-gray-500"> · {formatDateTime(fixtures[0].startTime)}</span>
+                  )}
+                </div>
+                <div className="divide-y border rounded-md">
+                  {fixtures.map(fixture => (
+                    <div
+                      key={`${fixture.homeTeamName}-${fixture.awayTeamName}`}
+                      className="flex items-center justify-between gap-2 p-2 text-sm"
+                    >
+                      <span className="flex-1 text-right truncate text-black">{fixture.homeTeamName}</span>
+                      <span className="text-gray-500">vs</span>
+                      <span className="flex-1 truncate text-black">{fixture.awayTeamName}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
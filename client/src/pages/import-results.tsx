@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useParams, Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { League, Team, ImportResults, ImportReport, ImportRowAction } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { ArrowLeft } from "lucide-react";
+
+type TeamMappings = NonNullable<ImportResults["teamMappings"]>;
+
+const ACTION_LABELS: Record<ImportRowAction, string> = {
+  CREATE: "Novo jogo",
+  CREATE_RESULT: "Novo resultado",
+  UPDATE_SCORE: "Atualiza resultado",
+  UNCHANGED: "Sem alterações",
+  SKIP: "Ignorado"
+};
+
+const ACTION_CLASSES: Record<ImportRowAction, string> = {
+  CREATE: "bg-blue-100 text-blue-800",
+  CREATE_RESULT: "bg-green-100 text-green-800",
+  UPDATE_SCORE: "bg-green-100 text-green-800",
+  UNCHANGED: "bg-gray-200 text-gray-700",
+  SKIP: "bg-red-100 text-red-800"
+};
+
+// Admin tool that mirrors a Football Manager save: upload the fixtures or
+// results table FM exports (web page or text/CSV), check which team each
+// name was matched to and what every row will do, then import it. Results
+// settle the bets on their matches like a score entered by hand.
+export default function ImportResultsPage() {
+  const { id } = useParams<{ id: string }>();
+  const leagueId = parseInt(id);
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [dateOrder, setDateOrder] = useState<"DMY" | "MDY">("DMY");
+  const [teamMappings, setTeamMappings] = useState<TeamMappings>({});
+  const [competitions, setCompetitions] = useState<string[] | undefined>();
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const { data: leagues = [], isLoading } = useQuery<League[]>({
+    queryKey: ['/api/leagues'],
+  });
+  const league = leagues.find(l => l.id === leagueId);
+
+  const { data: countryTeams = [] } = useQuery<Team[]>({
+    queryKey: [`/api/teams/${encodeURIComponent(league?.country ?? "")}`],
+    enabled: !!league,
+  });
+
+  // eSports teams all share the "Global" country, so they are narrowed to the league
+  const teams = league?.country === "Global"
+    ? countryTeams.filter(team => team.league === league.name)
+    : countryTeams;
+
+  // The current choices, plus any just made that the state does not hold yet
+  const buildRequest = (changes: Partial<ImportResults> = {}): ImportResults => ({
+    content,
+    dateOrder,
+    teamMappings,
+    competitions,
+    preview: true,
+    ...changes
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Erro",
+      description: error.message,
+      variant: "destructive"
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: (request: ImportResults) =>
+      apiRequest<ImportReport>("POST", `/api/leagues/${leagueId}/import`, request),
+    onSuccess: (result) => setReport(result),
+    onError
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => apiRequest<ImportReport>("POST", `/api/leagues/${leagueId}/import`, buildRequest({ preview: false })),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/bets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/balance'] });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(`/api/leagues/${leagueId}/standings`) });
+      toast({
+        title: "Importação concluída",
+        description: `${result.created} jogos criados e ${result.updated} resultados atualizados`
+          + (result.regradedBets > 0 ? `, ${result.regradedBets} apostas reavaliadas.` : ".")
+      });
+      navigate(`/league/${leagueId}`);
+    },
+    onError
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    setReport(null);
+    setTeamMappings({});
+    setCompetitions(undefined);
+    setFileName(file?.name ?? "");
+    setContent(file ? await file.text() : "");
+  };
+
+  // Every correction is previewed straight away so the rows reflect it
+  const handleMapping = (name: string, value: string) => {
+    const mapping: TeamMappings[string] = value === "CUSTOM" || value === "SKIP" ? value : parseInt(value);
+    const mappings = { ...teamMappings, [name]: mapping };
+    setTeamMappings(mappings);
+    previewMutation.mutate(buildRequest({ teamMappings: mappings }));
+  };
+
+  const handleCompetition = (name: string, included: boolean) => {
+    const current = report?.competitions.filter(competition => competition.included).map(competition => competition.name) ?? [];
+    const chosen = included ? [...current, name] : current.filter(competition => competition !== name);
+    setCompetitions(chosen);
+    previewMutation.mutate(buildRequest({ competitions: chosen }));
+  };
+
+  if (isLoading) {
+    return <div className="py-12"><LoadingSpinner /></div>;
+  }
+
+  if (!league) {
+    return <div className="text-center py-12 text-gray-500">Liga não encontrada.</div>;
+  }
+
+  const counts = report
+    ? report.rows.reduce((total, row) => ({ ...total, [row.action]: (total[row.action] ?? 0) + 1 }), {} as Partial<Record<ImportRowAction, number>>)
+    : {};
+  const changes = (counts.CREATE ?? 0) + (counts.CREATE_RESULT ?? 0) + (counts.UPDATE_SCORE ?? 0);
+  const unmatchedTeams = report?.teams.filter(team => team.mapping === null).length ?? 0;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <Link
+        href={`/league/${league.id}`}
+        className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {league.name}
+      </Link>
+
+      <div>
+        <h1 className="text-2xl font-bold text-black">Importar do Football Manager</h1>
+        <p className="text-gray-600">
+          Calendário ou resultados exportados pelo FM (página web, ficheiro de texto ou CSV), com colunas de equipa da casa e de fora.
+        </p>
+      </div>
+
+      <form
+        className="bg-white rounded-lg shadow p-4 space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          previewMutation.mutate(buildRequest());
+        }}
+      >
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="importFile">Ficheiro</Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".html,.htm,.txt,.csv,.rtf"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Formato das datas</Label>
+            <Select
+              value={dateOrder}
+              onValueChange={(value) => {
+                setDateOrder(value as "DMY" | "MDY");
+                setReport(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="DMY">Dia/Mês/Ano</SelectItem>
+                <SelectItem value="MDY">Mês/Dia/Ano</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={!content || previewMutation.isPending}>
+            {previewMutation.isPending ? "A analisar..." : fileName ? `Analisar ${fileName}` : "Analisar"}
+          </Button>
+        </div>
+      </form>
+
+      {report && (
+        <>
+          {report.competitions.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-4 space-y-3">
+              <div>
+                <h2 className="text-lg font-semibold text-black">Competições</h2>
+                <p className="text-sm text-gray-500">
+                  Só os jogos das competições escolhidas são importados para {league.name}.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-4">
+                {report.competitions.map((competition, index) => (
+                  <div key={competition.name} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`competition-${index}`}
+                      checked={competition.included}
+                      disabled={previewMutation.isPending}
+                      onChange={(e) => handleCompetition(competition.name, e.target.checked)}
+                      className="rounded"
+                    />
+                    <label htmlFor={`competition-${index}`} className="text-sm text-black">
+                      {competition.name} ({competition.rows})
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <div>
+              <h2 className="text-lg font-semibold text-black">Equipas</h2>
+              <p className="text-sm text-gray-500">
+                {unmatchedTeams > 0
+                  ? `${unmatchedTeams} equipas sem correspondência: escolha a equipa, use o nome como equipa personalizada ou ignore os jogos delas.`
+                  : "Todas as equipas têm correspondência. Corrija as que estiverem erradas."}
+              </p>
+            </div>
+            <div className="divide-y border rounded-md max-h-80 overflow-y-auto">
+              {report.teams.map(team => (
+                <div key={team.name} className="flex flex-wrap items-center gap-2 p-2 text-sm">
+                  <span className="flex-1 min-w-[8rem] text-black">{team.name}</span>
+                  {team.mapping === "AUTO" && team.confidence !== null && (
+                    <span className={`px-2 py-0.5 text-xs rounded ${team.confidence < 0.9 ? "bg-yellow-100 text-yellow-800" : "bg-gray-200 text-gray-700"}`}>
+                      {Math.round(team.confidence * 100)}%
+                    </span>
+                  )}
+                  {team.mapping === null && (
+                    <span className="px-2 py-0.5 text-xs rounded bg-red-100 text-red-800">Sem correspondência</span>
+                  )}
+                  <Select
+                    value={team.teamId !== null ? team.teamId.toString() : team.mapping ?? ""}
+                    onValueChange={(value) => handleMapping(team.name, value)}
+                  >
+                    <SelectTrigger className="w-56 h-8">
+                      <SelectValue placeholder="Escolher equipa" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teams.map(option => (
+                        <SelectItem key={option.id} value={option.id.toString()}>{option.name}</SelectItem>
+                      ))}
+                      <SelectItem value="CUSTOM">Equipa personalizada</SelectItem>
+                      <SelectItem value="SKIP">Ignorar</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <h2 className="text-lg font-semibold text-black">{report.rows.length} jogos no ficheiro</h2>
+                <p className="text-sm text-gray-500">
+                  {(Object.keys(ACTION_LABELS) as ImportRowAction[])
+                    .filter(action => counts[action])
+                    .map(action => `${ACTION_LABELS[action]}: ${counts[action]}`)
+                    .join(" · ")}
+                </p>
+              </div>
+              <Button onClick={() => importMutation.mutate()} disabled={changes === 0 || importMutation.isPending}>
+                {importMutation.isPending ? "A importar..." : `Importar ${changes} jogos`}
+              </Button>
+            </div>
+
+            <div className="divide-y border rounded-md max-h-[32rem] overflow-y-auto">
+              {report.rows.map(row => (
+                <div key={row.line} className="flex flex-wrap items-center gap-2 p-2 text-sm">
+                  <span className="text-gray-500 w-32 shrink-0">
+                    {row.startTime ? formatDateTime(row.startTime) : "Sem data"}
+                    {row.competition && <span className="block text-xs truncate">{row.competition}</span>}
+                  </span>
+                  <span className="flex-1 text-right truncate text-black">{row.homeName}</span>
+                  <span className="font-semibold text-black w-16 text-center">
+                    {row.homeScore !== null ? `${row.homeScore}:${row.awayScore}` : "vs"}
+                    {row.penHomeScore !== null && (
+                      <span className="block text-xs font-normal text-gray-500">{row.penHomeScore}-{row.penAwayScore} g.p.</span>
+                    )}
+                  </span>
+                  <span className="flex-1 truncate text-black">{row.awayName}</span>
+                  <span className={`px-2 py-0.5 text-xs rounded ${ACTION_CLASSES[row.action]}`}>
+                    {ACTION_LABELS[row.action]}
+                  </span>
+                  {row.problem && (
+                    <span className="w-full text-xs text-red-700">Linha {row.line}: {row.problem}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { League, MatchWithTeamsAndMarkets, Season, Round } from "@shared/schema";
+import { getCurrentSeason } from "@shared/seasons";
+import { formatDateTime, formatTieScore, getRoundLabel, getStatusClass, getStatusLabel } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import MatchCard from "@/components/matches/match-card";
+import StandingsTable from "@/components/leagues/standings-table";
+import CupBracket from "@/components/leagues/cup-bracket";
+import LeagueRulesDialog from "@/components/leagues/league-rules-dialog";
+import CreateSeasonDialog from "@/components/leagues/create-season-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, CalendarPlus, Upload } from "lucide-react";
+
+const TAB_TRIGGER_CLASS = "rounded-t-md data-[state=active]:bg-primary data-[state=active]:text-white";
+
+// Fixtures still to be played (or being played) as bettable match cards,
+// results as a compact list and the league table (the bracket for a cup),
+// for one season at a time (the current one unless another is picked) or
+// across all of them
+export default function LeaguePage() {
+  const { id } = useParams<{ id: string }>();
+  const leagueId = parseInt(id);
+  const { isAdmin } = useAuth();
+  const [selectedSeason, setSelectedSeason] = useState<string | null>(null);
+
+  const { data: leagues = [], isLoading } = useQuery<League[]>({
+    queryKey: ['/api/leagues'],
+  });
+
+  const { data: matches = [], isLoading: isLoadingMatches, refetch } = useQuery<MatchWithTeamsAndMarkets[]>({
+    queryKey: ['/api/matches'],
+  });
+
+  const { data: seasons = [] } = useQuery<Season[]>({
+    queryKey: [`/api/leagues/${leagueId}/seasons`],
+  });
+
+  // A season picked on another league's page does not carry over
+  const currentSeason = getCurrentSeason(seasons);
+  const isKnownSeason = selectedSeason === "all" || seasons.some(season => season.id.toString() === selectedSeason);
+  const seasonValue = (isKnownSeason && selectedSeason) || (currentSeason ? currentSeason.id.toString() : "all");
+  const seasonId = seasonValue === "all" ? undefined : parseInt(seasonValue);
+
+  const { data: rounds = [] } = useQuery<Round[]>({
+    queryKey: [`/api/seasons/${seasonId}/rounds`],
+    enabled: seasonId !== undefined,
+  });
+
+  const league = leagues.find(l => l.id === leagueId);
+
+  if (isLoading) {
+    return <div className="py-12"><LoadingSpinner /></div>;
+  }
+
+  if (!league) {
+    return <div className="text-center py-12 text-gray-500">Liga não encontrada.</div>;
+  }
+
+  const byStartTime = (a: MatchWithTeamsAndMarkets, b: MatchWithTeamsAndMarkets) =>
+    new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+  const leagueMatches = matches.filter(match =>
+    match.league.id === league.id && (seasonId === undefined || match.seasonId === seasonId)
+  );
+  const roundsById = new Map(rounds.map(round => [round.id, round]));
+  const fixtures = leagueMatches
+    .filter(match => match.status === "UPCOMING" || match.status === "LIVE" || match.status === "POSTPONED")
+    .sort(byStartTime);
+  const results = leagueMatches
+    .filter(match => !fixtures.includes(match))
+    .sort((a, b) => byStartTime(b, a));
+  const isCup = league.format === "CUP";
+
+  return (
+    <div className="container mx-auto py-6">
+      <Link href="/" className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-4">
+        <ArrowLeft className="h-4 w-4" />
+        Voltar
+      </Link>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-black">{league.name}</h1>
+          <p className="text-gray-600">{league.country}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {seasons.length > 0 && (
+            <Select value={seasonValue} onValueChange={setSelectedSeason}>
+              <SelectTrigger className="w-40 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id.toString()}>{season.name}</SelectItem>
+                ))}
+                <SelectItem value="all">Todas as épocas</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {isAdmin && (
+            <>
+              <CreateSeasonDialog leagueId={league.id} onCreated={season => setSelectedSeason(season.id.toString())} />
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/league/${league.id}/fixtures`} className="flex items-center gap-2">
+                  <CalendarPlus className="h-4 w-4" />
+                  {isCup ? "Sortear eliminatórias" : "Gerar calendário"}
+                </Link>
+              </Button>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/league/${league.id}/import`} className="flex items-center gap-2">
+                  <Upload className="h-4 w-4" />
+                  Importar do FM
+                </Link>
+              </Button>
+              <LeagueRulesDialog league={league} />
+            </>
+          )}
+        </div>
+      </div>
+
+      <Tabs defaultValue="fixtures" className="w-full">
+        <TabsList className="border-b mb-4 w-full justify-start space-x-1 rounded-none bg-transparent p-0">
+          <TabsTrigger value="fixtures" className={TAB_TRIGGER_CLASS}>Jogos ({fixtures.length})</TabsTrigger>
+          <TabsTrigger value="results" className={TAB_TRIGGER_CLASS}>Resultados ({results.length})</TabsTrigger>
+          {isCup ? (
+            <TabsTrigger value="bracket" className={TAB_TRIGGER_CLASS}>Chave</TabsTrigger>
+          ) : (
+            <TabsTrigger value="standings" className={TAB_TRIGGER_CLASS}>Classificação</TabsTrigger>
+          )}
+        </TabsList>
+
+        <TabsContent value="fixtures">
+          {isLoadingMatches ? (
+            <div className="py-6"><LoadingSpinner /></div>
+          ) : fixtures.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">Não há jogos agendados.</div>
+          ) : (
+            <div className="space-y-4">
+              {fixtures.map(match => (
+                <MatchCard key={match.id} match={match} onRefresh={refetch} />
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="results">
+          {results.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">Ainda não há resultados.</div>
+          ) : (
+            <div className="bg-white rounded-lg shadow divide-y">
+              {results.map(match => (
+                <Link
+                  key={match.id}
+                  href={`/matches/${match.id}`}
+                  className="flex items-center justify-between gap-2 p-3 text-sm hover:bg-gray-50"
+                >
+                  <span className="text-gray-500 w-32 shrink-0">{formatDateTime(match.startTime)}</span>
+                  {match.roundId !== null && roundsById.has(match.roundId) && (
+                    <span className="text-gray-500 w-24 shrink-0 hidden sm:block">
+                      {getRoundLabel(roundsById.get(match.roundId)!)}
+                    </span>
+                  )}
+                  <span className="flex-1 text-right truncate text-black">{match.homeTeam?.name || match.homeTeamName}</span>
+                  <span className="font-semibold text-black w-16 text-center">
+                    {match.homeScore !== null && match.awayScore !== null ? `${match.homeScore}:${match.awayScore}` : "-:-"}
+                    {formatTieScore(match) && (
+                      <span className="block text-xs font-normal text-gray-500">{formatTieScore(match)}</span>
+                    )}
+                  </span>
+                  <span className="flex-1 truncate text-black">{match.awayTeam?.name || match.awayTeamName}</span>
+                  {match.status !== "FINISHED" && (
+                    <span className={`px-2 py-0.5 text-xs rounded ${getStatusClass(match.status)}`}>
+                      {getStatusLabel(match.status)}
+                    </span>
+                  )}
+                </Link>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        {isCup ? (
+          <TabsContent value="bracket">
+            {seasonId === undefined ? (
+              <div className="text-center py-6 text-gray-500">Escolha uma época para ver a chave.</div>
+            ) : (
+              <CupBracket rounds={rounds} matches={leagueMatches} />
+            )}
+          </TabsContent>
+        ) : (
+          <TabsContent value="standings">
+            <StandingsTable leagueId={league.id} seasonId={seasonId} />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+}
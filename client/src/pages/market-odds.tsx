@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useParams, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MatchWithTeamsAndMarkets, Market } from "@shared/schema";
+import { apiRequest, queryClient, getApiErrorMessage } from "@/lib/queryClient";
+import { formatOdds, getMarketLabel, getStatusLabel, getStatusClass } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { ArrowLeft } from "lucide-react";
+
+function getMarketStateLabel(market: Market): string | null {
+  if (market.isLocked) return "Fechado";
+  if (market.isSuspended) return "Suspenso";
+  return market.isLive ? "Ao vivo" : null;
+}
+
+function getMarketStateClass(market: Market): string {
+  if (market.isLocked) return "bg-gray-200 text-gray-700";
+  if (market.isSuspended) return "bg-yellow-100 text-yellow-800";
+  return "bg-green-100 text-green-800";
+}
+
+// Admin screen to reprice a match's markets by hand. Live markets suspended
+// after a goal only reopen once they have a new price.
+export default function MarketOdds() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+
+  const { data: match, isLoading } = useQuery<MatchWithTeamsAndMarkets>({
+    queryKey: [`/api/matches/${id}`],
+  });
+
+  const setOddsMutation = useMutation({
+    mutationFn: ({ marketId, odds }: { marketId: number; odds: number }) =>
+      apiRequest<Market>("PATCH", `/api/markets/${marketId}/odds`, { odds }),
+    onSuccess: (market) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/matches'] });
+      setDrafts(({ [market.id]: _saved, ...rest }) => rest);
+
+      toast({
+        title: "Preço atualizado",
+        description: `${getMarketLabel(market.type)}: ${formatOdds(market.odds)}.`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: getApiErrorMessage(error) || "Não foi possível atualizar o preço.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return <div className="py-12"><LoadingSpinner /></div>;
+  }
+
+  if (!match) {
+    return <div className="text-center py-12 text-gray-500">Jogo não encontrado.</div>;
+  }
+
+  const homeTeam = match.homeTeam?.name || match.homeTeamName || "Unknown";
+  const awayTeam = match.awayTeam?.name || match.awayTeamName || "Unknown";
+  const suspendedCount = match.markets.filter(market => market.isSuspended && !market.isLocked).length;
+
+  const handleSave = (market: Market) => {
+    const odds = parseFloat(drafts[market.id] ?? "");
+    if (!(odds > 1)) {
+      toast({ title: "Odd inválida", description: "A odd tem de ser maior que 1.", variant: "destructive" });
+      return;
+    }
+    setOddsMutation.mutate({ marketId: market.id, odds });
+  };
+
+  return (
+    <div className="container mx-auto py-6">
+      <Link href={`/matches/${match.id}`} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1 mb-4">
+        <ArrowLeft className="h-4 w-4" />
+        Voltar
+      </Link>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-black">Preços</h1>
+          <p className="text-gray-600">
+            {homeTeam} vs {awayTeam}
+            {match.homeScore != null && match.awayScore != null && ` (${match.homeScore}-${match.awayScore})`}
+            {match.status === "LIVE" && match.minute != null && ` ${match.minute}'`}
+          </p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-medium ${getStatusClass(match.status)}`}>
+          {getStatusLabel(match.status)}
+        </span>
+      </div>
+
+      {suspendedCount > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md p-3 mb-4 text-sm">
+          {suspendedCount} mercado(s) suspenso(s) depois de um golo. Cada um reabre quando tiver um novo preço.
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow divide-y">
+        {match.markets.map(market => {
+          const state = getMarketStateLabel(market);
+          return (
+            <div key={market.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <div className="font-medium text-black">{getMarketLabel(market.type)}</div>
+                <div className="text-sm text-gray-500">Odd atual {formatOdds(market.odds)}</div>
+              </div>
+              <div className="flex items-center gap-2">
+                {state && (
+                  <span className={`px-2 py-1 rounded text-xs font-medium ${getMarketStateClass(market)}`}>
+                    {state}
+                  </span>
+                )}
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="1.01"
+                  className="w-24"
+                  aria-label={`Nova odd de ${getMarketLabel(market.type)}`}
+                  placeholder={formatOdds(market.odds)}
+                  disabled={market.isLocked}
+                  value={drafts[market.id] ?? ""}
+                  onChange={(e) => setDrafts(current => ({ ...current, [market.id]: e.target.value }))}
+                />
+                <Button
+                  size="sm"
+                  disabled={market.isLocked || setOddsMutation.isPending || !drafts[market.id]}
+                  onClick={() => handleSave(market)}
+                >
+                  Guardar
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        {match.markets.length === 0 && (
+          <div className="p-8 text-center text-gray-500">Este jogo não tem mercados.</div>
+        )}
+      </div>
+    </div>
+  );
+}
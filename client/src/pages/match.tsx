@@ -0,0 +1,132 @@
+import { useParams, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { MatchWithTeamsAndMarkets } from "@shared/schema";
+import { formatDateTime, formatTieScore, getStatusClass, getStatusLabel } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
+import MarketGroups from "@/components/matches/market-groups";
+import MatchTimeline from "@/components/matches/match-timeline";
+import HeadToHead from "@/components/matches/head-to-head";
+import MatchBets from "@/components/betting/match-bets";
+import { TeamEmblem } from "@/components/ui/team-emblem";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { ArrowLeft } from "lucide-react";
+
+export default function MatchPage() {
+  const { id } = useParams<{ id: string }>();
+  const { isAdmin } = useAuth();
+
+  const { data: match, isLoading } = useQuery<MatchWithTeamsAndMarkets>({
+    queryKey: [`/api/matches/${id}`],
+  });
+
+  const { data: matches = [] } = useQuery<MatchWithTeamsAndMarkets[]>({
+    queryKey: ['/api/matches'],
+  });
+
+  if (isLoading) {
+    return <div className="py-12"><LoadingSpinner /></div>;
+  }
+
+  if (!match) {
+    return <div className="text-center py-12 text-gray-500">Jogo não encontrado.</div>;
+  }
+
+  const homeTeam = match.homeTeam?.name || match.homeTeamName || "Unknown";
+  const awayTeam = match.awayTeam?.name || match.awayTeamName || "Unknown";
+  const canRecordEvents = isAdmin && (match.status === "LIVE" || match.status === "FINISHED");
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <Link
+        href={`/league/${match.league.id}`}
+        className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {match.league.name}
+      </Link>
+
+      <div className="bg-white rounded-lg shadow p-4">
+        <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
+          <span>{formatDateTime(match.startTime)}</span>
+          <span className={`px-2 py-0.5 text-xs rounded ${getStatusClass(match.status)}`}>
+            {getStatusLabel(match.status)}
+            {match.status === "LIVE" && match.minute != null && ` ${match.minute}'`}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <TeamEmblem
+              team={{
+                id: match.homeTeam?.id || 0,
+                name: homeTeam,
+                shortName: match.homeTeam?.shortName || "",
+                country: match.homeTeam?.country || "",
+                league: match.homeTeam?.league || "",
+                logo: match.homeTeamLogo || match.homeTeam?.logo || null
+              }}
+              teamName={homeTeam}
+              showName={true}
+              size="lg"
+            />
+          </div>
+          <div className="text-center px-4">
+            {match.homeScore !== null && match.awayScore !== null ? (
+              <div className="font-bold text-3xl text-black">{match.homeScore}:{match.awayScore}</div>
+            ) : (
+              <div className="font-bold text-2xl text-black">- : -</div>
+            )}
+            {match.htHomeScore !== null && match.htAwayScore !== null && (
+              <div className="text-xs text-gray-500">Intervalo {match.htHomeScore}:{match.htAwayScore}</div>
+            )}
+            {formatTieScore(match) && (
+              <div className="text-xs text-gray-500">{formatTieScore(match)}</div>
+            )}
+          </div>
+          <div className="flex-1 flex justify-end">
+            <TeamEmblem
+              team={{
+                id: match.awayTeam?.id || 0,
+                name: awayTeam,
+                shortName: match.awayTeam?.shortName || "",
+                country: match.awayTeam?.country || "",
+                league: match.awayTeam?.league || "",
+                logo: match.awayTeamLogo || match.awayTeam?.logo || null
+              }}
+              teamName={awayTeam}
+              showName={true}
+              namePosition="right"
+              size="lg"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-lg shadow p-4">
+          <h2 className="text-lg font-semibold text-black mb-3">Mercados</h2>
+          {match.markets.length === 0 ? (
+            <div className="text-sm text-gray-500">Sem mercados para este jogo.</div>
+          ) : (
+            <MarketGroups matchId={match.id} homeTeam={homeTeam} awayTeam={awayTeam} markets={match.markets} />
+          )}
+        </div>
+
+        <div className="space-y-6">
+          {(match.events.length > 0 || canRecordEvents) && (
+            <div className="bg-white rounded-lg shadow p-4">
+              <MatchTimeline
+                matchId={match.id}
+                status={match.status}
+                homeTeam={homeTeam}
+                awayTeam={awayTeam}
+                events={match.events}
+              />
+            </div>
+          )}
+          <MatchBets matchId={match.id} />
+          <HeadToHead match={match} matches={matches} />
+        </div>
+      </div>
+    </div>
+  );
+}
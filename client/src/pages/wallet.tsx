@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Transaction } from "@shared/schema";
+import { formatMoney, formatDateTime } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+function getTransactionTypeLabel(type: string): string {
+  switch (type) {
+    case "DEPOSIT": return "Depósito";
+    case "STAKE": return "Aposta";
+    case "PAYOUT": return "Ganho";
+    case "REFUND": return "Reembolso";
+    case "BONUS": return "Bónus";
+    case "ADJUSTMENT": return "Ajuste";
+    default: return type;
+  }
+}
+
+// Builds the statement URL; "to" covers the whole selected day
+function getTransactionsUrl(from: string, to: string): string {
+  const params = new URLSearchParams();
+  if (from) params.set("from", new Date(`${from}T00:00:00`).toISOString());
+  if (to) params.set("to", new Date(`${to}T23:59:59.999`).toISOString());
+  const query = params.toString();
+  return query ? `/api/transactions?${query}` : "/api/transactions";
+}
+
+export default function Wallet() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: balanceData } = useQuery<{ balance: number }>({
+    queryKey: ['/api/balance'],
+  });
+
+  // Balance changes elsewhere in the app, so always refetch the statement
+  const { data: transactions = [], isLoading } = useQuery<Transaction[]>({
+    queryKey: [getTransactionsUrl(from, to)],
+    staleTime: 0,
+  });
+
+  const credits = transactions.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
+  const debits = transactions.filter(t => t.amount < 0).reduce((sum, t) => sum + t.amount, 0);
+
+  return (
+    <div className="container mx-auto py-6">
+      <h1 className="text-2xl font-bold mb-6 text-black">Carteira</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="text-sm text-gray-500">Saldo atual</div>
+          <div className="text-xl font-semibold text-black">{formatMoney(balanceData?.balance ?? 0)}</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="text-sm text-gray-500">Entradas no período</div>
+          <div className="text-xl font-semibold text-green-600">{formatMoney(credits)}</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="text-sm text-gray-500">Saídas no período</div>
+          <div className="text-xl font-semibold text-red-600">{formatMoney(Math.abs(debits))}</div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="from">De</Label>
+          <Input id="from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="to">Até</Label>
+          <Input id="to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+        </div>
+        {(from || to) && (
+          <Button variant="ghost" onClick={() => { setFrom(""); setTo(""); }}>
+            Limpar filtros
+          </Button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b text-left text-gray-500">
+            <tr>
+              <th className="px-4 py-2 font-medium">Data</th>
+              <th className="px-4 py-2 font-medium">Tipo</th>
+              <th className="px-4 py-2 font-medium">Descrição</th>
+              <th className="px-4 py-2 font-medium text-right">Valor</th>
+              <th className="px-4 py-2 font-medium text-right">Saldo</th>
+            </tr>
+          </thead>
+          <tbody>
+            {transactions.map(transaction => (
+              <tr key={transaction.id} className="border-b last:border-0 text-black">
+                <td className="px-4 py-2 whitespace-nowrap">{formatDateTime(new Date(transaction.createdAt))}</td>
+                <td className="px-4 py-2">{getTransactionTypeLabel(transaction.type)}</td>
+                <td className="px-4 py-2 text-gray-600">{transaction.description}</td>
+                <td className={`px-4 py-2 text-right font-semibold ${transaction.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {transaction.amount >= 0 ? '+' : '-'}{formatMoney(Math.abs(transaction.amount))}
+                </td>
+                <td className="px-4 py-2 text-right">{formatMoney(transaction.balanceAfter)}</td>
+              </tr>
+            ))}
+            {!isLoading && transactions.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-500">
+                  Sem movimentos neste período.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
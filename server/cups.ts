@@ -0,0 +1,105 @@
+// Moves cup winners through the bracket. Once both ties feeding a slot of the
+// next round are decided, that slot's match is created between their winners
+// and priced like a drawn tie; the winner of the even slot plays at home. An
+// abandoned or cancelled tie is decided by the walkover the admin gave.
+import { storage } from "./storage";
+import { broadcastMatch } from "./live-updates";
+import { priceFixture, DEFAULT_FIXTURE_PRICING } from "./fixtures";
+import { getTieWinner, getNextBracketSlot, WALKOVER_STATUSES, type TieSide } from "@shared/cups";
+import { insertMarketSchema, type Match } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A walkover that does not fit the status change it came with. Conflict
+// (409) when an abandoned or cancelled cup tie is missing one, as its
+// round then cannot advance.
+export class WalkoverError extends Error {
+  constructor(public status: 400 | 409, message: string) {
+    super(message);
+    this.name = "WalkoverError";
+  }
+}
+
+// Checks the walkover sent with a match's new status and returns the one to
+// save. A cup tie that is abandoned or cancelled has no result, so one of
+// its sides must be given the walkover or the next round can never be drawn;
+// any other status clears it.
+export async function resolveWalkover(match: Match, status: string, walkoverWinner?: TieSide | null): Promise<TieSide | null> {
+  if (!WALKOVER_STATUSES.includes(status)) {
+    if (walkoverWinner) throw new WalkoverError(400, "Only an abandoned or cancelled cup tie is decided by walkover");
+    return null;
+  }
+
+  const isCupTie = match.bracketSlot !== null && (await storage.getLeague(match.leagueId))?.format === "CUP";
+  if (!isCupTie) {
+    if (walkoverWinner) throw new WalkoverError(400, "Only a cup tie is decided by walkover");
+    return null;
+  }
+  if (!walkoverWinner) {
+    throw new WalkoverError(409, `A cup tie that is ${status.toLowerCase()} has no winner, so its round cannot advance. Give HOME or AWAY the walkover (walkoverWinner).`);
+  }
+  return walkoverWinner;
+}
+
+function getWinner(match: Match) {
+  const winner = getTieWinner(match);
+  if (!winner) return null;
+  return winner === "HOME"
+    ? { teamId: match.homeTeamId, teamName: match.homeTeamName }
+    : { teamId: match.awayTeamId, teamName: match.awayTeamName };
+}
+
+// Returns the next round's match if this result completed its pairing. A
+// tie whose next match already exists is left alone: correcting a result
+// after the next round was drawn means fixing that match by hand.
+export async function advanceCupWinner(match: Match): Promise<Match | undefined> {
+  if (!getTieWinner(match) || match.bracketSlot === null || match.roundId === null || match.seasonId === null) {
+    return undefined;
+  }
+
+  const league = await storage.getLeague(match.leagueId);
+  const round = await storage.getRound(match.roundId);
+  if (league?.format !== "CUP" || !round) return undefined;
+
+  // No next round means this was the final
+  const nextRound = (await storage.getRounds(match.seasonId)).find(r => r.number === round.number + 1);
+  if (!nextRound) return undefined;
+
+  const roundMatches = (await storage.getMatches()).filter(m => m.roundId === round.id || m.roundId === nextRound.id);
+  const next = getNextBracketSlot(match.bracketSlot);
+  if (roundMatches.some(m => m.roundId === nextRound.id && m.bracketSlot === next.slot)) {
+    return undefined;
+  }
+
+  const sibling = roundMatches.find(m => m.roundId === round.id && m.bracketSlot === (match.bracketSlot! ^ 1));
+  if (!sibling) return undefined;
+
+  const winner = getWinner(match);
+  const siblingWinner = getWinner(sibling);
+  if (!winner || !siblingWinner) return undefined;
+  const [home, away] = next.home ? [winner, siblingWinner] : [siblingWinner, winner];
+
+  // The round's planned date, else a week after the later of the two ties;
+  // never in the past so the new match opens for betting
+  const feedersDone = Math.max(new Date(match.startTime).getTime(), new Date(sibling.startTime).getTime());
+  const planned = nextRound.startTime ? new Date(nextRound.startTime).getTime() : feedersDone + 7 * DAY_MS;
+  const startTime = new Date(planned > Date.now() ? planned : Date.now() + DAY_MS);
+
+  const created = await storage.createMatch({
+    leagueId: match.leagueId,
+    seasonId: match.seasonId,
+    roundId: nextRound.id,
+    bracketSlot: next.slot,
+    homeTeamId: home.teamId ?? undefined,
+    awayTeamId: away.teamId ?? undefined,
+    homeTeamName: home.teamName ?? undefined,
+    awayTeamName: away.teamName ?? undefined,
+    startTime,
+    status: "UPCOMING",
+    isCustom: true
+  });
+  const markets = priceFixture(league, DEFAULT_FIXTURE_PRICING);
+  await storage.createMarkets(markets.map(market => insertMarketSchema.parse({ ...market, matchId: created.id })));
+  await broadcastMatch(created.id);
+  return created;
+}
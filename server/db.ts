@@ -0,0 +1,14 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+// Creates a Drizzle database connected to the given PostgreSQL URL. node-postgres
+// talks to any server, a local one included; hosted databases that require TLS
+// take it from the URL (?sslmode=require)
+export function createDb(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
+export type DbTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
@@ -0,0 +1,242 @@
+// Season generator behind POST /api/leagues/:id/fixtures.
+// Pairs the teams in a round-robin, dates each matchday and opens the same
+// priced markets on every fixture. A preview returns the fixtures without
+// creating anything, so the admin can check the calendar before committing.
+// Given a season, each matchday is filed under that season's round of the
+// same number; otherwise matches fall into whichever season covers their date.
+// Cups are drawn through POST /api/leagues/:id/bracket instead: only the first
+// round is created, later ties follow as winners go through (see cups.ts).
+import { storage } from "./storage";
+import { broadcastMatch } from "./live-updates";
+import { resolveMatchSeason, getOrCreateRounds } from "./seasons";
+import { generateRoundRobin, getRoundStartTime } from "@shared/fixtures";
+import { getBracketRounds, getBracketRoundName } from "@shared/cups";
+import { getTeamKey } from "@shared/standings";
+import {
+  createPricingModel,
+  getMatchResultOdds,
+  getAsianMarketTypes,
+  priceMarkets,
+  DERIVED_MARKET_TYPES,
+  CORRECT_SCORE_MARKET_TYPES,
+  EVENT_MARKET_TYPES,
+  CUP_MARKET_TYPES
+} from "@shared/pricing";
+import {
+  insertMarketSchema,
+  generateFixturesSchema,
+  type GenerateFixturesRequest,
+  type GenerateBracketRequest,
+  type GeneratedFixture,
+  type GeneratedFixtures,
+  type GeneratedBracket,
+  type League,
+  type Match
+} from "@shared/schema";
+
+export class FixtureGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FixtureGenerationError";
+  }
+}
+
+interface FixtureTeam {
+  teamId: number | null;
+  name: string;
+}
+
+// Resolves team IDs against the seeded teams and rejects a team listed twice
+async function resolveTeams(requested: { teamId?: number; name?: string }[]): Promise<FixtureTeam[]> {
+  const teams = new Map((await storage.getTeams()).map(team => [team.id, team]));
+  const seen = new Set<string>();
+
+  return requested.map(({ teamId, name }) => {
+    if (teamId !== undefined && !teams.has(teamId)) {
+      throw new FixtureGenerationError(`Team with ID ${teamId} not found`);
+    }
+
+    const team: FixtureTeam = teamId !== undefined
+      ? { teamId, name: teams.get(teamId)!.name }
+      : { teamId: null, name: name!.trim() };
+
+    const key = getTeamKey(team.teamId, team.name)!;
+    if (seen.has(key)) {
+      throw new FixtureGenerationError(`${team.name} is listed more than once`);
+    }
+    seen.add(key);
+    return team;
+  });
+}
+
+type FixturePricing = Pick<GenerateFixturesRequest, "homeExpectedGoals" | "awayExpectedGoals" | "margin">;
+
+// The generator's default expected goals and margin, for matches created
+// without a request to price them from (cup ties, imported fixtures)
+export const DEFAULT_FIXTURE_PRICING: FixturePricing = generateFixturesSchema.pick({
+  homeExpectedGoals: true,
+  awayExpectedGoals: true,
+  margin: true
+}).parse({});
+
+// Football fixtures get the 1X2 and every market CreateMatch derives from it,
+// plus the tie markets in a cup; eSports matches have no draw, so only the
+// two winner markets are opened
+export function priceFixture(league: League, request: FixturePricing) {
+  const xg = { home: request.homeExpectedGoals, away: request.awayExpectedGoals };
+  const odds = getMatchResultOdds(xg, { margin: request.margin });
+
+  if (league.country === "Global") {
+    const drawShare = 1 / odds.draw / (1 / odds.home + 1 / odds.draw + 1 / odds.away);
+    const withoutDraw = (price: number) => Math.max(1.01, Math.round(price * (1 - drawShare) * 100) / 100);
+    return [
+      { type: "1", odds: withoutDraw(odds.home) },
+      { type: "2", odds: withoutDraw(odds.away) }
+    ];
+  }
+
+  const model = createPricingModel(odds.home, odds.draw, odds.away, { margin: request.margin });
+  return [
+    { type: "1", odds: odds.home },
+    { type: "X", odds: odds.draw },
+    { type: "2", odds: odds.away },
+    ...priceMarkets(model, [
+      ...DERIVED_MARKET_TYPES,
+      ...CORRECT_SCORE_MARKET_TYPES,
+      ...getAsianMarketTypes(model),
+      ...EVENT_MARKET_TYPES,
+      ...(league.format === "CUP" ? CUP_MARKET_TYPES : [])
+    ])
+  ];
+}
+
+export async function generateFixtures(
+  league: League,
+  request: GenerateFixturesRequest
+): Promise<GeneratedFixtures> {
+  const teams = await resolveTeams(request.teams);
+  const pairings = generateRoundRobin(teams, request.doubleRoundRobin);
+
+  const fixtures: GeneratedFixture[] = pairings.map(({ round, home, away }) => ({
+    round,
+    startTime: getRoundStartTime(request.startTime, round, request.daysBetweenRounds),
+    homeTeamId: home.teamId,
+    awayTeamId: away.teamId,
+    homeTeamName: home.name,
+    awayTeamName: away.name
+  }));
+  const markets = priceFixture(league, request);
+  const rounds = Math.max(0, ...fixtures.map(fixture => fixture.round));
+
+  if (request.seasonId !== undefined) {
+    await resolveMatchSeason(league.id, request.startTime, request.seasonId);
+  }
+
+  if (request.preview) {
+    return { rounds, fixtures, markets, created: [] };
+  }
+
+  // Markets are validated once up front so a bad price cannot leave half a
+  // season behind
+  markets.forEach(market => insertMarketSchema.parse({ ...market, matchId: 0 }));
+
+  const seasonRounds = request.seasonId !== undefined
+    ? await getOrCreateRounds(request.seasonId, rounds)
+    : null;
+
+  const created: Match[] = [];
+  for (const fixture of fixtures) {
+    const placement = seasonRounds
+      ? { seasonId: request.seasonId!, roundId: seasonRounds[fixture.round - 1].id }
+      : await resolveMatchSeason(league.id, fixture.startTime);
+    const match = await storage.createMatch({
+      leagueId: league.id,
+      seasonId: placement.seasonId,
+      roundId: placement.roundId,
+      homeTeamId: fixture.homeTeamId ?? undefined,
+      awayTeamId: fixture.awayTeamId ?? undefined,
+      // Seeded teams are shown by their team record, custom ones by name
+      homeTeamName: fixture.homeTeamId === null ? fixture.homeTeamName : undefined,
+      awayTeamName: fixture.awayTeamId === null ? fixture.awayTeamName : undefined,
+      startTime: fixture.startTime,
+      status: "UPCOMING",
+      isCustom: true
+    });
+    await storage.createMarkets(markets.map(market => insertMarketSchema.parse({ ...market, matchId: match.id })));
+    await broadcastMatch(match.id);
+    created.push(match);
+  }
+
+  return { rounds, fixtures, markets, created };
+}
+
+// Draws a knockout cup into one of the league's seasons. Each round is
+// created up front with its name and planned kick-off, but only the first
+// round's ties are: the rest are drawn as winners go through.
+export async function generateBracket(
+  league: League,
+  request: GenerateBracketRequest
+): Promise<GeneratedBracket> {
+  if (league.format !== "CUP") {
+    throw new FixtureGenerationError("Only cup competitions can be drawn into a bracket");
+  }
+  await resolveMatchSeason(league.id, request.startTime, request.seasonId);
+
+  const matches = await storage.getMatches();
+  if (matches.some(match => match.seasonId === request.seasonId && match.bracketSlot !== null)) {
+    throw new FixtureGenerationError("This season has already been drawn");
+  }
+
+  const teams = await resolveTeams(request.teams);
+  const rounds = getBracketRounds(teams.length);
+  const roundNames = Array.from({ length: rounds }, (_, i) => getBracketRoundName(i + 1, rounds));
+  const startTime = getRoundStartTime(request.startTime, 1, request.daysBetweenRounds);
+
+  const fixtures: GeneratedFixture[] = Array.from({ length: teams.length / 2 }, (_, slot) => {
+    const home = teams[slot * 2];
+    const away = teams[slot * 2 + 1];
+    return {
+      round: 1,
+      startTime,
+      homeTeamId: home.teamId,
+      awayTeamId: away.teamId,
+      homeTeamName: home.name,
+      awayTeamName: away.name,
+      bracketSlot: slot
+    };
+  });
+  const markets = priceFixture(league, request);
+
+  if (request.preview) {
+    return { rounds, roundNames, fixtures, markets, created: [] };
+  }
+
+  markets.forEach(market => insertMarketSchema.parse({ ...market, matchId: 0 }));
+
+  const seasonRounds = await getOrCreateRounds(request.seasonId, rounds, number => ({
+    name: roundNames[number - 1],
+    startTime: getRoundStartTime(request.startTime, number, request.daysBetweenRounds)
+  }));
+
+  const created: Match[] = [];
+  for (const fixture of fixtures) {
+    const match = await storage.createMatch({
+      leagueId: league.id,
+      seasonId: request.seasonId,
+      roundId: seasonRounds[0].id,
+      bracketSlot: fixture.bracketSlot,
+      homeTeamId: fixture.homeTeamId ?? undefined,
+      awayTeamId: fixture.awayTeamId ?? undefined,
+      homeTeamName: fixture.homeTeamId === null ? fixture.homeTeamName : undefined,
+      awayTeamName: fixture.awayTeamId === null ? fixture.awayTeamName : undefined,
+      startTime: fixture.startTime,
+      status: "UPCOMING",
+      isCustom: true
+    });
+    await storage.createMarkets(markets.map(market => insertMarketSchema.parse({ ...market, matchId: match.id })));
+    await broadcastMatch(match.id);
+    created.push(match);
+  }
+
+  return { rounds, roundNames, fixtures, markets, created };
+}
@@ -0,0 +1,248 @@
+// Football Manager import behind POST /api/leagues/:id/import.
+// Reads the exported fixtures/results table, matches its team names to the
+// league's teams and works out what each row does: a new fixture (priced like
+// a generated one), a new match with its result, or the result of a match
+// already here (same teams, same day). A preview only reports that plan so
+// the admin can correct team names first; results go through the same path
+// as a score typed in by hand, so bets are settled or re-graded. An FM export
+// often mixes competitions (league, cups, friendlies): only the ones chosen
+// are imported, by default those named like the league.
+//
+// Every row is read, matched and checked before the first write, and each
+// new match is created together with its markets. A run that fails part way
+// therefore leaves only whole matches behind, and importing the same file
+// again finds them (same teams, same day) and applies just what is missing.
+import { storage } from "./storage";
+import { broadcastMatch } from "./live-updates";
+import { applyMatchResult } from "./match-results";
+import { resolveMatchSeason } from "./seasons";
+import { priceFixture, DEFAULT_FIXTURE_PRICING } from "./fixtures";
+import { parseFmExport, type FmRow } from "@shared/fm-import";
+import { findTeamByName, normalizeTeamName } from "@shared/team-matching";
+import { getTeamKey } from "@shared/standings";
+import { getTieScoreError } from "@shared/cups";
+import {
+  type ImportResultsRequest,
+  type ImportReport,
+  type ImportedCompetition,
+  type ImportedRow,
+  type ImportedTeam,
+  type League,
+  type Match
+} from "@shared/schema";
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// Matches are told apart by their teams and the day they are played on
+const getDayKey = (date: Date | string) => {
+  const day = new Date(date);
+  return `${day.getFullYear()}-${day.getMonth() + 1}-${day.getDate()}`;
+};
+
+// Team key used for standings: the seeded team, or the custom name
+const getImportedTeamKey = (team: ImportedTeam) =>
+  getTeamKey(team.teamId, team.teamId === null ? team.name : null);
+
+// The competitions asked for or, by default, those whose name contains the
+// league's or is contained in it (all of them if none is)
+function chooseCompetitions(league: League, names: string[], requested?: string[]): Set<string> {
+  if (requested) return new Set(requested);
+
+  const leagueName = normalizeTeamName(league.name);
+  const matching = names.filter(name => {
+    const normalized = normalizeTeamName(name);
+    return normalized !== "" && (normalized.includes(leagueName) || leagueName.includes(normalized));
+  });
+  return new Set(matching.length > 0 ? matching : names);
+}
+
+async function matchTeams(league: League, names: string[], request: ImportResultsRequest): Promise<ImportedTeam[]> {
+  const allTeams = await storage.getTeams();
+  const teamsById = new Map(allTeams.map(team => [team.id, team]));
+  // eSports teams all share the "Global" country, so they are narrowed to the league
+  const candidates = league.country === "Global"
+    ? allTeams.filter(team => team.league === league.name)
+    : allTeams.filter(team => team.country === league.country);
+
+  return names.map((name): ImportedTeam => {
+    const mapping = request.teamMappings[name];
+    if (mapping === "SKIP" || mapping === "CUSTOM") {
+      return { name, teamId: null, teamName: null, confidence: null, mapping };
+    }
+    if (mapping !== undefined) {
+      const team = teamsById.get(mapping);
+      if (!team) {
+        throw new ImportError(`Team with ID ${mapping} not found`);
+      }
+      return { name, teamId: team.id, teamName: team.name, confidence: null, mapping: "MANUAL" };
+    }
+
+    const match = findTeamByName(name, candidates);
+    return match
+      ? { name, teamId: match.team.id, teamName: match.team.name, confidence: Math.round(match.confidence * 100) / 100, mapping: "AUTO" }
+      : { name, teamId: null, teamName: null, confidence: null, mapping: null };
+  });
+}
+
+function planRow(
+  row: FmRow,
+  teamsByName: Map<string, ImportedTeam>,
+  existing: Map<string, Match>,
+  seen: Set<string>,
+  competitions: Set<string>
+): ImportedRow {
+  const planned: ImportedRow = {
+    line: row.line,
+    startTime: row.date,
+    competition: row.competition,
+    homeName: row.homeName,
+    awayName: row.awayName,
+    homeScore: row.score?.homeScore ?? null,
+    awayScore: row.score?.awayScore ?? null,
+    penHomeScore: row.score?.penHomeScore ?? null,
+    penAwayScore: row.score?.penAwayScore ?? null,
+    matchId: null,
+    action: "SKIP",
+    problem: null
+  };
+  const skip = (problem: string): ImportedRow => ({ ...planned, problem });
+
+  if (row.competition && !competitions.has(row.competition)) {
+    return skip(`${row.competition} is not being imported`);
+  }
+
+  const home = teamsByName.get(row.homeName)!;
+  const away = teamsByName.get(row.awayName)!;
+  for (const team of [home, away]) {
+    if (team.mapping === "SKIP") return skip(`${team.name} is skipped`);
+    if (team.mapping === null) return skip(`No team matches ${team.name}`);
+  }
+  if (!row.date) return skip("The date could not be read");
+  if (row.score?.afterExtraTime) return skip("The score is after extra time; enter the 90 minute score by hand");
+  const tieScoreError = row.score && getTieScoreError(row.score);
+  if (tieScoreError) return skip(tieScoreError);
+
+  const homeKey = getImportedTeamKey(home);
+  const awayKey = getImportedTeamKey(away);
+  if (homeKey === awayKey) return skip("A team cannot play itself");
+
+  const key = `${homeKey}|${awayKey}|${getDayKey(row.date)}`;
+  if (seen.has(key)) return skip("The match is listed more than once");
+  seen.add(key);
+
+  const match = existing.get(key);
+  if (!match) {
+    return { ...planned, action: row.score ? "CREATE_RESULT" : "CREATE" };
+  }
+
+  const isSameResult = row.score !== null
+    && match.status === "FINISHED"
+    && match.homeScore === row.score.homeScore
+    && match.awayScore === row.score.awayScore
+    && (row.score.penHomeScore === null || (match.penHomeScore === row.score.penHomeScore && match.penAwayScore === row.score.penAwayScore));
+  return {
+    ...planned,
+    matchId: match.id,
+    action: !row.score || isSameResult ? "UNCHANGED" : "UPDATE_SCORE"
+  };
+}
+
+export async function importResults(league: League, request: ImportResultsRequest): Promise<ImportReport> {
+  const parsed = parseFmExport(request.content, request.dateOrder);
+  if (!parsed) {
+    throw new ImportError("No table with Home and Away columns was found in the file");
+  }
+  if (parsed.length === 0) {
+    throw new ImportError("The table has no matches");
+  }
+
+  const competitionNames = Array.from(new Set(parsed.flatMap(row => row.competition ? [row.competition] : [])));
+  const included = chooseCompetitions(league, competitionNames, request.competitions);
+  const competitions = competitionNames.map((name): ImportedCompetition => ({
+    name,
+    rows: parsed.filter(row => row.competition === name).length,
+    included: included.has(name)
+  }));
+
+  // Only teams of the competitions being imported need matching
+  const importedRows = parsed.filter(row => !row.competition || included.has(row.competition));
+  const names = Array.from(new Set(importedRows.flatMap(row => [row.homeName, row.awayName])));
+  const teams = await matchTeams(league, names, request);
+  const teamsByName = new Map(teams.map(team => [team.name, team]));
+
+  const existing = new Map<string, Match>();
+  for (const match of await storage.getMatches()) {
+    const homeKey = getTeamKey(match.homeTeamId, match.homeTeamName);
+    const awayKey = getTeamKey(match.awayTeamId, match.awayTeamName);
+    if (match.leagueId === league.id && homeKey && awayKey) {
+      existing.set(`${homeKey}|${awayKey}|${getDayKey(match.startTime)}`, match);
+    }
+  }
+
+  const seen = new Set<string>();
+  const rows = parsed.map(row => planRow(row, teamsByName, existing, seen, included));
+
+  if (request.preview) {
+    return { rows, teams, competitions, created: 0, updated: 0, regradedBets: 0 };
+  }
+
+  // Seasons are looked up for every new match before anything is written
+  const seasons = new Map<ImportedRow, Pick<Match, "seasonId" | "roundId">>();
+  for (const row of rows) {
+    if (row.action === "CREATE" || row.action === "CREATE_RESULT") {
+      seasons.set(row, await resolveMatchSeason(league.id, row.startTime!));
+    }
+  }
+
+  const markets = priceFixture(league, DEFAULT_FIXTURE_PRICING);
+  let created = 0;
+  let updated = 0;
+  let regradedBets = 0;
+
+  for (const row of rows) {
+    if (row.action === "CREATE" || row.action === "CREATE_RESULT") {
+      const home = teamsByName.get(row.homeName)!;
+      const away = teamsByName.get(row.awayName)!;
+      // Matches already played are only there for their result
+      const match = await storage.createMatchWithMarkets({
+        leagueId: league.id,
+        ...seasons.get(row)!,
+        homeTeamId: home.teamId ?? undefined,
+        awayTeamId: away.teamId ?? undefined,
+        // Seeded teams are shown by their team record, custom ones by name
+        homeTeamName: home.teamId === null ? home.name : undefined,
+        awayTeamName: away.teamId === null ? away.name : undefined,
+        startTime: row.startTime!,
+        status: "UPCOMING",
+        isCustom: true
+      }, row.action === "CREATE" ? markets : []);
+      row.matchId = match.id;
+      created++;
+    } else if (row.action === "UPDATE_SCORE") {
+      updated++;
+    }
+
+    if (row.action === "CREATE_RESULT" || row.action === "UPDATE_SCORE") {
+      // Extra time is never imported, so a shoot-out follows the 90 minutes
+      const tieScore = row.penHomeScore !== null
+        ? { etHomeScore: null, etAwayScore: null, penHomeScore: row.penHomeScore, penAwayScore: row.penAwayScore }
+        : undefined;
+      const result = await applyMatchResult(row.matchId!, "FINISHED", {
+        homeScore: row.homeScore!,
+        awayScore: row.awayScore!
+      }, tieScore);
+      regradedBets += result?.regradedBets.length ?? 0;
+    }
+
+    if (row.action !== "UNCHANGED" && row.action !== "SKIP") {
+      await broadcastMatch(row.matchId!);
+    }
+  }
+
+  return { rows, teams, competitions, created, updated, regradedBets };
+}
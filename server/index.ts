@@ -1,9 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
+import { startMatchSimulator } from "./simulator";
+import { startMarketScheduler } from "./market-scheduler";
 
 const app = express();
-app.use(express.json());
+// Football Manager exports posted to the import endpoint run to a few MB
+app.use(express.json({ limit: "6mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +41,7 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storage.initialize();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,4 +72,12 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startMarketScheduler();
+
+  // Off unless MATCH_SIMULATOR=on: it plays out every match whose kick-off has
+  // passed, which would overwrite results mirrored from a Football Manager save
+  if (process.env.MATCH_SIMULATOR === "on") {
+    startMatchSimulator();
+  }
 })();
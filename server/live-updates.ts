@@ -0,0 +1,70 @@
+// Pushes match and market changes to every connected browser over a
+// WebSocket on /ws, so clients watching the same match stay in sync without
+// refetching. Clients only listen; every change still goes through the API.
+import { WebSocketServer, WebSocket } from "ws";
+import type { Server } from "http";
+import { storage } from "./storage";
+import type { LiveUpdate, Market } from "@shared/schema";
+
+export const LIVE_UPDATES_PATH = "/ws";
+
+let wss: WebSocketServer | null = null;
+
+// Handles upgrades on /ws only, leaving any other WebSocket (Vite HMR in
+// development) to its own handler
+export function setupLiveUpdates(server: Server) {
+  wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "", "http://localhost");
+    if (pathname !== LIVE_UPDATES_PATH) return;
+
+    wss!.handleUpgrade(req, socket, head, (ws) => {
+      wss!.emit("connection", ws, req);
+    });
+  });
+}
+
+export function broadcast(update: LiveUpdate) {
+  if (!wss) return;
+
+  const message = JSON.stringify(update);
+  wss.clients.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+}
+
+// Sends a match's current status, score, clock and timeline
+export async function broadcastMatch(id: number) {
+  if (!wss || wss.clients.size === 0) return;
+
+  const match = await storage.getMatch(id);
+  if (!match) return;
+
+  const events = await storage.getMatchEvents(id);
+  broadcast({
+    type: "match",
+    match: {
+      id: match.id,
+      status: match.status,
+      homeScore: match.homeScore,
+      awayScore: match.awayScore,
+      htHomeScore: match.htHomeScore,
+      htAwayScore: match.htAwayScore,
+      etHomeScore: match.etHomeScore,
+      etAwayScore: match.etAwayScore,
+      penHomeScore: match.penHomeScore,
+      penAwayScore: match.penAwayScore,
+      walkoverWinner: match.walkoverWinner,
+      minute: match.minute,
+      events
+    }
+  });
+}
+
+// Sends a market's current odds and lock state
+export function broadcastMarket(market: Market) {
+  broadcast({ type: "market", market });
+}
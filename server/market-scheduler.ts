@@ -0,0 +1,100 @@
+// Market scheduler.
+// Locks pre-match markets once their match kicks off and every market once
+// the match is finished, postponed or cancelled, so stale prices cannot be
+// bet after the fact. Live markets stay open in play but are suspended after
+// each goal: they reopen once they have been repriced (by an admin or the
+// simulator) and a short window has passed, never at the pre-goal price. Bet
+// placement applies the same rules, so a bet cannot slip in between two ticks.
+import { storage } from "./storage";
+import { broadcastMarket } from "./live-updates";
+import { log } from "./vite";
+import { isMatchSettled } from "@shared/settlement";
+import type { Market, Match } from "@shared/schema";
+
+export interface MarketSchedulerOptions {
+  tickMs: number;        // How often markets are checked against their match
+  suspensionMs: number;  // How long live markets stay suspended after a goal at least
+}
+
+export function getMarketSchedulerOptions(): MarketSchedulerOptions {
+  const suspensionMs = Math.max(0, parseInt(process.env.MARKET_SUSPENSION_MS || "") || 30000);
+  return { tickMs: 5000, suspensionMs };
+}
+
+// Whether a market has to stay locked: pre-match markets close at kick-off,
+// live markets once the match is over
+export function isMarketClosed(market: Market, match: Match, now: number = Date.now()): boolean {
+  if (isMatchSettled(match.status)) return true;
+  return !market.isLive && (match.status !== "UPCOMING" || new Date(match.startTime).getTime() <= now);
+}
+
+// When each match's suspended markets may reopen, if repriced by then
+const suspendedUntil = new Map<number, number>();
+
+// Whether a suspended market's price was changed after it was suspended
+export function isRepricedSinceSuspension(market: Market): boolean {
+  if (!market.suspendedAt || !market.oddsUpdatedAt) return false;
+  return new Date(market.oddsUpdatedAt).getTime() >= new Date(market.suspendedAt).getTime();
+}
+
+async function broadcastUpdated(market: Market | undefined) {
+  if (market) broadcastMarket(market);
+}
+
+// Suspends a match's open live markets, e.g. right after a goal. A goal
+// during an existing suspension restarts it, so a price set before that goal
+// does not reopen the market.
+export async function suspendLiveMarkets(matchId: number, options: MarketSchedulerOptions = getMarketSchedulerOptions()) {
+  if (options.suspensionMs === 0) return;
+
+  suspendedUntil.set(matchId, Date.now() + options.suspensionMs);
+  const markets = await storage.getMarketsByMatchId(matchId);
+  for (const market of markets) {
+    if (market.isLive && !market.isLocked) {
+      await broadcastUpdated(await storage.setMarketSuspended(market.id, true));
+    }
+  }
+}
+
+export function startMarketScheduler(options: MarketSchedulerOptions = getMarketSchedulerOptions()): () => void {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = Date.now();
+      const matches = new Map((await storage.getMatches()).map(match => [match.id, match]));
+      const markets = await storage.getMarkets();
+
+      for (const market of markets) {
+        const match = matches.get(market.matchId);
+        if (!match) continue;
+
+        if (!market.isLocked && isMarketClosed(market, match, now)) {
+          await broadcastUpdated(await storage.toggleMarketLock(market.id, true));
+        }
+
+        // Suspensions left over from a restart have no end time: only the price matters
+        const resumeAt = suspendedUntil.get(market.matchId);
+        if (market.isSuspended && (resumeAt === undefined || resumeAt <= now) && isRepricedSinceSuspension(market)) {
+          await broadcastUpdated(await storage.setMarketSuspended(market.id, false));
+        }
+      }
+
+      suspendedUntil.forEach((resumeAt, matchId) => {
+        if (resumeAt <= now) suspendedUntil.delete(matchId);
+      });
+    } catch (error) {
+      console.error("Market scheduler error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(tick, options.tickMs);
+  tick();
+  log(`market scheduler running, live markets suspended for at least ${options.suspensionMs}ms after goals`, "scheduler");
+
+  return () => clearInterval(interval);
+}
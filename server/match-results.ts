@@ -0,0 +1,85 @@
+import { storage, type MatchTieScore } from "./storage";
+import { advanceCupWinner } from "./cups";
+import { isMatchSettled } from "@shared/settlement";
+import { isGoalEvent, getScoreFromEvents, HALF_TIME_MINUTE } from "@shared/match-events";
+import type { Match, MatchEvent, RegradedBet } from "@shared/schema";
+
+export interface MatchScoreUpdate {
+  homeScore?: number;
+  awayScore?: number;
+  htHomeScore?: number | null;
+  htAwayScore?: number | null;
+}
+
+// A match with a goal timeline takes its score from it. The half time score
+// is known once the match finished or the clock or an event is past 45'.
+function getEventScore(status: string, minute: number | null, events: MatchEvent[]) {
+  const pastHalfTime = status === "FINISHED"
+    || (minute ?? 0) > HALF_TIME_MINUTE
+    || events.some(event => event.minute > HALF_TIME_MINUTE);
+  return getScoreFromEvents(events, pastHalfTime);
+}
+
+// Single path for every status/score change, whether it comes from an admin
+// or the live simulator: pending bets are resolved once the match is settled,
+// and changing the result of a match that was already settled re-grades the
+// bets paid on it. A cup tie's extra time and penalties are saved first so
+// its tie markets settle with the rest, and a decided tie puts the winner
+// into the next round. With fromStatus the change only applies if the match
+// still has that status, so the simulator never overrides an admin.
+export async function applyMatchResult(
+  id: number,
+  status: string,
+  scores: MatchScoreUpdate = {},
+  tieScore?: MatchTieScore,
+  fromStatus?: string
+): Promise<{ match: Match; regradedBets: RegradedBet[] } | undefined> {
+  const previous = await storage.getMatch(id);
+  if (!previous || (fromStatus && previous.status !== fromStatus)) return undefined;
+
+  const events = await storage.getMatchEvents(id);
+  if (events.some(isGoalEvent)) {
+    scores = getEventScore(status, previous.minute, events);
+  }
+
+  if (tieScore) {
+    await storage.updateMatchTieScore(id, tieScore);
+  }
+
+  const match = await storage.updateMatchStatus(
+    id,
+    status,
+    scores.homeScore,
+    scores.awayScore,
+    scores.htHomeScore,
+    scores.htAwayScore,
+    fromStatus
+  );
+  if (!match) return undefined;
+
+  const regradedBets = isMatchSettled(previous.status)
+    ? await storage.regradeBetsForMatch(id)
+    : [];
+
+  await advanceCupWinner(match);
+
+  return { match, regradedBets };
+}
+
+// Re-derives a match's score after its goal events changed. A live match just
+// takes the new score; a settled one is settled again so its bets follow.
+export async function applyEventScore(
+  id: number
+): Promise<{ match: Match; regradedBets: RegradedBet[] } | undefined> {
+  const match = await storage.getMatch(id);
+  if (!match) return undefined;
+
+  // Computed here as well so removing the last goal still resets the score
+  const score = getEventScore(match.status, match.minute, await storage.getMatchEvents(id));
+  if (isMatchSettled(match.status)) {
+    return applyMatchResult(id, match.status, score);
+  }
+
+  const updated = await storage.updateMatchClock(id, { minute: match.minute, ...score });
+  return updated && { match: updated, regradedBets: [] };
+}
@@ -1,15 +1,73 @@
 import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, BetPlacementError } from "./storage";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import { applyMatchResult, applyEventScore } from "./match-results";
+import { setupLiveUpdates, broadcastMatch, broadcastMarket } from "./live-updates";
+import { suspendLiveMarkets, isMarketClosed } from "./market-scheduler";
+import { generateFixtures, generateBracket, FixtureGenerationError } from "./fixtures";
+import { importResults, ImportError } from "./fm-import";
+import { resolveMatchSeason, SeasonAssignmentError } from "./seasons";
+import { resolveWalkover, WalkoverError } from "./cups";
 import { 
-  insertMatchSchema, 
+  insertLeagueSchema,
+  updateLeagueRulesSchema,
+  generateFixturesSchema,
+  generateBracketSchema,
+  importResultsSchema,
+  insertSeasonSchema,
+  insertRoundSchema,
+  createMatchSchema,
   insertMarketSchema, 
-  insertBetSchema, 
-  insertBetSelectionSchema
+  insertMatchEventSchema,
+  placeBetSchema,
+  MATCH_STATUSES,
+  MARKET_RESULTS,
+  type RegradedBet
 } from "@shared/schema";
+import { isMatchSettled, settleBet } from "@shared/settlement";
+import { getMarketSpec } from "@shared/markets";
+import { getTieScoreError, TIE_SIDES } from "@shared/cups";
+import { isGoalEvent } from "@shared/match-events";
+import { computeStandings, getStandingsRules, type Standings } from "@shared/standings";
 import { z } from "zod";
 
+const transactionFiltersSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+const addBalanceSchema = z.object({
+  amount: z.number().positive(),
+  userId: z.number().int().positive().optional(),
+  type: z.enum(["DEPOSIT", "BONUS"]).default("DEPOSIT")
+});
+
+// Scores come from form inputs as numbers or numeric strings. A 0-0 half time
+// is a real score, only an empty input means "unknown"; the same goes for a
+// cup tie's extra time and penalties.
+const scoreSchema = z.preprocess(value => value === "" || value === null ? undefined : value, z.coerce.number().int().min(0));
+const optionalScoreSchema = z.preprocess(value => value === "" ? null : value, z.coerce.number().int().min(0).nullish())
+  .transform(value => value ?? null);
+
+const walkoverWinnerSchema = z.enum(TIE_SIDES).nullish();
+
+const updateMatchScoreSchema = z.object({
+  homeScore: scoreSchema,
+  awayScore: scoreSchema,
+  htHomeScore: optionalScoreSchema,
+  htAwayScore: optionalScoreSchema,
+  etHomeScore: optionalScoreSchema,
+  etAwayScore: optionalScoreSchema,
+  penHomeScore: optionalScoreSchema,
+  penAwayScore: optionalScoreSchema,
+  status: z.enum(MATCH_STATUSES).default("FINISHED"),
+  walkoverWinner: walkoverWinnerSchema
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+
   const apiRouter = express.Router();
 
   // GET /api/countries - Get all countries with leagues
@@ -120,6 +178,262 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // POST /api/leagues - Create a new league
+  apiRouter.post("/leagues", requireAdmin, async (req, res) => {
+    try {
+      const leagueData = insertLeagueSchema.parse(req.body);
+      const league = await storage.createLeague(leagueData);
+      res.status(201).json(league);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid league data", errors: error.errors });
+      }
+      console.error("Error creating league:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/leagues/:id/rules - Change the format, and the points and tiebreakers the standings use
+  apiRouter.patch("/leagues/:id/rules", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const rules = updateLeagueRulesSchema.parse(req.body);
+      const league = await storage.updateLeagueRules(id, rules);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      res.json(league);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid league rules", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/leagues/:id/standings - League table from the league's finished matches
+  apiRouter.get("/leagues/:id/standings", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const league = await storage.getLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      // Optionally limited to one season; otherwise every match the league has played
+      const seasonId = req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined;
+      if (seasonId !== undefined) {
+        if (isNaN(seasonId)) {
+          return res.status(400).json({ message: "Invalid season ID" });
+        }
+        const season = await storage.getSeason(seasonId);
+        if (!season || season.leagueId !== id) {
+          return res.status(404).json({ message: "Season not found" });
+        }
+      }
+
+      const [matches, teams] = await Promise.all([storage.getMatches(), storage.getTeams()]);
+      const rules = getStandingsRules(league);
+      const standings: Standings = {
+        leagueId: id,
+        seasonId: seasonId ?? null,
+        rules,
+        rows: computeStandings(
+          matches.filter(match => match.leagueId === id && (seasonId === undefined || match.seasonId === seasonId)),
+          rules,
+          new Map(teams.map(team => [team.id, team.name]))
+        )
+      };
+
+      res.json(standings);
+    } catch (error) {
+      console.error("Error computing standings:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/leagues/:id/fixtures - Generate a round-robin season (preview or create)
+  apiRouter.post("/leagues/:id/fixtures", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const league = await storage.getLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const request = generateFixturesSchema.parse(req.body);
+      const result = await generateFixtures(league, request);
+
+      res.status(request.preview ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid fixture request", errors: error.errors });
+      }
+      if (error instanceof FixtureGenerationError || error instanceof SeasonAssignmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error generating fixtures:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/leagues/:id/bracket - Draw a knockout cup (preview or create)
+  apiRouter.post("/leagues/:id/bracket", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const league = await storage.getLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const request = generateBracketSchema.parse(req.body);
+      const result = await generateBracket(league, request);
+
+      res.status(request.preview ? 200 : 201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bracket request", errors: error.errors });
+      }
+      if (error instanceof FixtureGenerationError || error instanceof SeasonAssignmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error drawing bracket:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/leagues/:id/import - Import fixtures and results from a Football Manager export (preview or apply)
+  apiRouter.post("/leagues/:id/import", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const league = await storage.getLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const request = importResultsSchema.parse(req.body);
+      const report = await importResults(league, request);
+
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import request", errors: error.errors });
+      }
+      if (error instanceof ImportError || error instanceof SeasonAssignmentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error importing results:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/leagues/:id/seasons - A league's seasons, latest first
+  apiRouter.get("/leagues/:id/seasons", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const seasons = await storage.getSeasons(id);
+      res.json(seasons);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/leagues/:id/seasons - Create a season
+  apiRouter.post("/leagues/:id/seasons", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid league ID" });
+      }
+
+      const league = await storage.getLeague(id);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const seasonData = insertSeasonSchema.parse({ ...req.body, leagueId: id });
+      const season = await storage.createSeason(seasonData);
+
+      // Matches already played or scheduled in its dates join the new season
+      await storage.assignMatchesToSeason(season);
+      res.status(201).json(season);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid season data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // GET /api/seasons/:id/rounds - A season's rounds in order
+  apiRouter.get("/seasons/:id/rounds", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid season ID" });
+      }
+
+      const rounds = await storage.getRounds(id);
+      res.json(rounds);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/seasons/:id/rounds - Add a round (matchday) to a season
+  apiRouter.post("/seasons/:id/rounds", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid season ID" });
+      }
+
+      const season = await storage.getSeason(id);
+      if (!season) {
+        return res.status(404).json({ message: "Season not found" });
+      }
+
+      const roundData = insertRoundSchema.parse({ ...req.body, seasonId: id });
+      const existing = await storage.getRounds(id);
+      if (existing.some(round => round.number === roundData.number)) {
+        return res.status(400).json({ message: `Round ${roundData.number} already exists in this season` });
+      }
+
+      const round = await storage.createRound(roundData);
+      res.status(201).json(round);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid round data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // GET /api/teams - Get all teams
   apiRouter.get("/teams", async (req, res) => {
     try {
@@ -145,12 +459,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get("/matches", async (req, res) => {
     try {
       const status = req.query.status as string | undefined;
+      const seasonId = req.query.seasonId ? parseInt(req.query.seasonId as string) : undefined;
+      const roundId = req.query.roundId ? parseInt(req.query.roundId as string) : undefined;
+      if (Number.isNaN(seasonId) || Number.isNaN(roundId)) {
+        return res.status(400).json({ message: "Invalid season or round ID" });
+      }
+
       let matches = await storage.getMatchesWithDetails();
 
       // Filter by status if provided
       if (status) {
         matches = matches.filter(match => match.status === status.toUpperCase());
       }
+      if (seasonId !== undefined) {
+        matches = matches.filter(match => match.seasonId === seasonId);
+      }
+      if (roundId !== undefined) {
+        matches = matches.filter(match => match.roundId === roundId);
+      }
 
       // Sort matches: LIVE first, then UPCOMING, then FINISHED
       matches.sort((a, b) => {
@@ -190,40 +516,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/matches - Create a new match
-  apiRouter.post("/matches", async (req, res) => {
+  apiRouter.post("/matches", requireAdmin, async (req, res) => {
     try {
-      const matchData = {
+      // Markets are checked with the match so an invalid one leaves nothing half created
+      const { markets, ...matchData } = createMatchSchema.parse({
         ...req.body,
-        homeTeamLogo: req.body.homeLogo || null,
-        awayTeamLogo: req.body.awayLogo || null
-      };
-
-      // Create the match with logo data
-      const match = await storage.createMatch(matchData);
+        homeTeamLogo: req.body.homeLogo || undefined,
+        awayTeamLogo: req.body.awayLogo || undefined
+      });
 
-      // Create default markets if provided
-      if (req.body.markets && Array.isArray(req.body.markets)) {
-        for (const marketData of req.body.markets) {
-          const validMarketData = insertMarketSchema.parse({
-            ...marketData,
-            matchId: match.id
-          });
-          await storage.createMarket(validMarketData);
-        }
-      }
+      const match = await storage.createMatchWithMarkets({
+        ...matchData,
+        ...await resolveMatchSeason(matchData.leagueId, matchData.startTime, matchData.seasonId, matchData.roundId)
+      }, markets);
 
+      await broadcastMatch(match.id);
       res.status(201).json(match);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid match data", errors: error.errors });
       }
+      if (error instanceof SeasonAssignmentError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Error creating match:', error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // PATCH /api/matches/:id - Update match status and score
-  apiRouter.patch("/matches/:id", async (req, res) => {
+  apiRouter.patch("/matches/:id", requireAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -234,62 +556,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!status) {
         return res.status(400).json({ message: "Status is required" });
       }
+      if (!MATCH_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `Status must be one of ${MATCH_STATUSES.join(", ")}` });
+      }
 
-      const match = await storage.updateMatchStatus(id, status, homeScore, awayScore);
+      const match = await storage.getMatch(id);
       if (!match) {
         return res.status(404).json({ message: "Match not found" });
       }
+      const walkoverWinner = await resolveWalkover(match, status, walkoverWinnerSchema.parse(req.body.walkoverWinner));
 
-      res.json(match);
+      // Changing the result of a settled match re-grades the bets already paid on it
+      const updated = await applyMatchResult(id, status, { homeScore, awayScore }, { walkoverWinner });
+      if (!updated) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+
+      await broadcastMatch(id);
+      res.json({ ...updated.match, regradedBets: updated.regradedBets });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid walkover", errors: error.errors });
+      }
+      if (error instanceof WalkoverError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // PATCH /api/matches/:id/score - Update match score specifically
-  apiRouter.patch("/matches/:id/score", async (req, res) => {
+  apiRouter.patch("/matches/:id/score", requireAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid match ID" });
       }
 
-      const { homeScore, awayScore, htHomeScore, htAwayScore, status } = req.body;
-      if (homeScore === undefined || awayScore === undefined) {
-        return res.status(400).json({ message: "Both homeScore and awayScore are required" });
+      const { homeScore, awayScore, htHomeScore, htAwayScore, status, walkoverWinner, ...tieScore } =
+        updateMatchScoreSchema.parse(req.body);
+      const tieScoreError = getTieScoreError({ homeScore, awayScore, ...tieScore });
+      if (tieScoreError) {
+        return res.status(400).json({ message: tieScoreError });
       }
 
-      const match = await storage.updateMatchStatus(
-        id, 
-        status || "FINISHED", 
-        parseInt(homeScore), 
-        parseInt(awayScore),
-        htHomeScore ? parseInt(htHomeScore) : null,
-        htAwayScore ? parseInt(htAwayScore) : null
-      );
+      const match = await storage.getMatch(id);
       if (!match) {
         return res.status(404).json({ message: "Match not found" });
       }
 
-      // If match is finished, resolve all pending bets for this match
-      if (status === "FINISHED") {
-        await storage.resolveBetsForMatch(id);
+      // Finishing the match resolves its bets, correcting a settled one re-grades them
+      const updated = await applyMatchResult(id, status, { homeScore, awayScore, htHomeScore, htAwayScore }, {
+        ...tieScore,
+        walkoverWinner: await resolveWalkover(match, status, walkoverWinner)
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Match not found" });
       }
 
-      res.json(match);
+      await broadcastMatch(id);
+      res.json({ ...updated.match, regradedBets: updated.regradedBets });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid score", errors: error.errors });
+      }
+      if (error instanceof WalkoverError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // DELETE /api/matches/:id - Delete a match
-  apiRouter.delete("/matches/:id", async (req, res) => {
+  apiRouter.delete("/matches/:id", requireAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid match ID" });
       }
 
+      // Deleting would strand the bets on it; cancelling voids their selections instead
+      if (await storage.hasBetsOnMatch(id)) {
+        return res.status(409).json({ message: "Match has bets on it. Set it to CANCELLED instead so they are voided." });
+      }
+
       const success = await storage.deleteMatch(id);
       if (!success) {
         return res.status(404).json({ message: "Match not found" });
@@ -301,12 +651,128 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/matches/:id/events - Get a match's event timeline
+  apiRouter.get("/matches/:id/events", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid match ID" });
+      }
+
+      const match = await storage.getMatch(id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+
+      const events = await storage.getMatchEvents(id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // POST /api/matches/:id/events - Record a goal, card, corner or substitution
+  apiRouter.post("/matches/:id/events", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid match ID" });
+      }
+
+      const match = await storage.getMatch(id);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      if (match.status !== "LIVE" && match.status !== "FINISHED") {
+        return res.status(400).json({ message: "Events can only be recorded for live or finished matches" });
+      }
+
+      const eventData = insertMatchEventSchema.parse({ ...req.body, matchId: id });
+      const event = await storage.createMatchEvent(eventData);
+
+      // Goals drive the score, and through it the bets on a finished match
+      const updated = isGoalEvent(event) ? await applyEventScore(id) : undefined;
+      if (isGoalEvent(event) && match.status === "LIVE") {
+        await suspendLiveMarkets(id);
+      }
+
+      await broadcastMatch(id);
+      res.status(201).json({ ...event, regradedBets: updated?.regradedBets ?? [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // PATCH /api/matches/:id/events/:eventId - Correct a recorded event
+  apiRouter.patch("/matches/:id/events/:eventId", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const eventId = parseInt(req.params.eventId);
+      if (isNaN(id) || isNaN(eventId)) {
+        return res.status(400).json({ message: "Invalid match or event ID" });
+      }
+
+      const existing = await storage.getMatchEvent(eventId);
+      if (!existing || existing.matchId !== id) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const eventData = insertMatchEventSchema.omit({ matchId: true }).partial().parse(req.body);
+      if (Object.keys(eventData).length === 0) {
+        return res.status(400).json({ message: "Nothing to update" });
+      }
+
+      const event = await storage.updateMatchEvent(eventId, eventData);
+      if (!event) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      const updated = isGoalEvent(existing) || isGoalEvent(event) ? await applyEventScore(id) : undefined;
+
+      await broadcastMatch(id);
+      res.json({ ...event, regradedBets: updated?.regradedBets ?? [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // DELETE /api/matches/:id/events/:eventId - Remove a recorded event
+  apiRouter.delete("/matches/:id/events/:eventId", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const eventId = parseInt(req.params.eventId);
+      if (isNaN(id) || isNaN(eventId)) {
+        return res.status(400).json({ message: "Invalid match or event ID" });
+      }
+
+      const existing = await storage.getMatchEvent(eventId);
+      if (!existing || existing.matchId !== id) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+
+      await storage.deleteMatchEvent(eventId);
+      const updated = isGoalEvent(existing) ? await applyEventScore(id) : undefined;
+
+      await broadcastMatch(id);
+      res.json({ message: "Event deleted successfully", regradedBets: updated?.regradedBets ?? [] });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // POST /api/markets - Create a new market
-  apiRouter.post("/markets", async (req, res) => {
+  apiRouter.post("/markets", requireAdmin, async (req, res) => {
     try {
       const marketData = insertMarketSchema.parse(req.body);
       const market = await storage.createMarket(marketData);
 
+      broadcastMarket(market);
       res.status(201).json(market);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -317,7 +783,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // PATCH /api/markets/:id/toggle-lock - Toggle the locked status of a market
-  apiRouter.patch("/markets/:id/toggle-lock", async (req, res) => {
+  apiRouter.patch("/markets/:id/toggle-lock", requireAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -329,177 +795,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "isLocked must be a boolean" });
       }
 
+      // The scheduler would lock it again straight away
+      if (!isLocked) {
+        const existing = await storage.getMarket(id);
+        const match = existing && await storage.getMatch(existing.matchId);
+        if (existing && match && isMarketClosed(existing, match)) {
+          return res.status(400).json({ message: "Market cannot be reopened after kick-off or once the match is over" });
+        }
+      }
+
       const market = await storage.toggleMarketLock(id, isLocked);
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
 
+      broadcastMarket(market);
       res.json(market);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // GET /api/balance - Get user balance
-  apiRouter.get("/balance", async (req, res) => {
+  // PATCH /api/markets/:id/odds - Change a market's price
+  apiRouter.patch("/markets/:id/odds", requireAdmin, async (req, res) => {
     try {
-      // For demo purposes, always return the first user
-      const user = await storage.getUser(1);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid market ID" });
       }
 
-      res.json({ balance: user.balance });
+      const { odds } = req.body;
+      if (typeof odds !== 'number' || !(odds > 1)) {
+        return res.status(400).json({ message: "Odds must be a number greater than 1" });
+      }
+
+      // Bet slips holding the old price are rejected with ODDS_CHANGED
+      const market = await storage.updateMarketOdds(id, Math.round(odds * 100) / 100);
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      broadcastMarket(market);
+      res.json(market);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // POST /api/balance/add - Add to user balance
-  apiRouter.post("/balance/add", async (req, res) => {
+  // PATCH /api/markets/:id/result - Grade a custom market by hand (null clears it)
+  apiRouter.patch("/markets/:id/result", requireAdmin, async (req, res) => {
     try {
-      const { amount } = req.body;
-      if (!amount || isNaN(amount) || amount <= 0) {
-        return res.status(400).json({ message: "Invalid amount" });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid market ID" });
       }
 
-      const user = await storage.getUser(1);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const { result } = req.body;
+      if (result !== null && !MARKET_RESULTS.includes(result)) {
+        return res.status(400).json({ message: `Result must be null or one of ${MARKET_RESULTS.join(", ")}` });
+      }
+
+      const existing = await storage.getMarket(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (getMarketSpec(existing)) {
+        return res.status(400).json({ message: "Only custom markets are graded by hand" });
       }
 
-      const updatedUser = await storage.updateUserBalance(user.id, user.balance + amount);
-      res.json({ balance: updatedUser?.balance });
+      const market = await storage.setMarketResult(id, result);
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      // Settle bets that were waiting on this market, and re-grade any
+      // already settled on a result that has now changed
+      const match = await storage.getMatch(market.matchId);
+      let regradedBets: RegradedBet[] = [];
+      if (match && isMatchSettled(match.status)) {
+        await storage.resolveBetsForMatch(match.id);
+        regradedBets = await storage.regradeBetsForMatch(match.id);
+      }
+
+      broadcastMarket(market);
+      res.json({ ...market, regradedBets });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // POST /api/bets - Place a new bet
-  apiRouter.post("/bets", async (req, res) => {
+  // GET /api/balance - Get user balance
+  apiRouter.get("/balance", requireAuth, async (req, res) => {
     try {
-      // Validate bet data
-      const betData = insertBetSchema.omit({ userId: true }).parse(req.body);
-      const selections = req.body.selections;
-
-      // Validate selections
-      if (!selections || !Array.isArray(selections) || selections.length === 0) {
-        return res.status(400).json({ message: "At least one selection is required" });
-      }
-
-      // For demo purposes, always use the first user
-      const user = await storage.getUser(1);
+      const user = await storage.getUser(req.user!.id);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Check if user has enough balance
-      if (user.balance < betData.stake) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
+      res.json({ balance: user.balance });
+    } catch (error) {
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
-      // Validate all selections
-      const validSelections: z.infer<typeof insertBetSelectionSchema>[] = [];
-      for (const selection of selections) {
-        const marketId = selection.marketId;
-        const market = await storage.getMarket(marketId);
-        if (!market) {
-          return res.status(400).json({ message: `Market with ID ${marketId} not found` });
-        }
+  // POST /api/balance/add - Credit a user's wallet (defaults to the admin's own wallet)
+  apiRouter.post("/balance/add", requireAdmin, async (req, res) => {
+    try {
+      const { amount, userId, type } = addBalanceSchema.parse(req.body);
 
-        validSelections.push({
-          marketId: market.id,
-          odds: market.odds,
-          betId: 0 // This will be set by the storage
-        });
+      const user = await storage.getUser(userId ?? req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      // Create the bet
-      const bet = await storage.createBet(
-        { ...betData, userId: user.id },
-        validSelections
-      );
-
-      // Update user balance
-      await storage.updateUserBalance(user.id, user.balance - betData.stake);
-
-      res.status(201).json(bet);
+      const transaction = await storage.createTransaction({
+        userId: user.id,
+        type,
+        amount,
+        description: type === "BONUS" ? "Bonus credited by admin" : "Deposit"
+      });
+      res.json({ balance: transaction.balanceAfter });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid bet data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid balance data", errors: error.errors });
       }
       res.status(500).json({ message: "Internal server error" });
     }
-  });  // PATCH /api/bets/:id/resolve - Resolve a bet
-  apiRouter.patch("/bets/:id/resolve", async (req, res) => {
-    const { id } = req.params;
-    const { status } = req.body;
+  });
 
+  // GET /api/transactions - Get the user's wallet statement, optionally between two dates
+  apiRouter.get("/transactions", requireAuth, async (req, res) => {
     try {
-      await storage.resolveBet(parseInt(id), status);
-      res.json({ message: "Bet resolved successfully" });
+      const { from, to } = transactionFiltersSchema.parse(req.query);
+      const transactions = await storage.getTransactions(req.user!.id, { from, to });
+      res.json(transactions);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid date filter", errors: error.errors });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // Delete bet
-  apiRouter.delete("/api/bets/:id", async (req, res) => {
-    const { id } = req.params;
-
+  // POST /api/bets - Place a new bet
+  apiRouter.post("/bets", requireAuth, async (req, res) => {
     try {
-      await storage.deleteBet(parseInt(id));
-      res.json({ message: "Bet deleted successfully" });
+      const slip = placeBetSchema.parse(req.body);
+      const bet = await storage.placeBet(req.user!.id, slip);
+      res.status(201).json(bet);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bet data", errors: error.errors });
+      }
+      if (error instanceof BetPlacementError) {
+        // Stale odds are a conflict the client can resolve by accepting the new prices
+        const status = error.code === "ODDS_CHANGED" ? 409 : 400;
+        return res.status(status).json({ message: error.message, code: error.code, changes: error.changes });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  // GET /api/bets - Get user's bets
-  apiRouter.get("/bets", async (req, res) => {
+  // PATCH /api/bets/:id/resolve - Settle a pending bet now that every leg is decided
+  apiRouter.patch("/bets/:id/resolve", requireAdmin, async (req, res) => {
     try {
-      // For demo purposes, always use the first user
-      const user = await storage.getUser(1);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid bet ID" });
       }
 
-      const bets = await storage.getBetsWithSelections(user.id);
-      res.json(bets);
+      const bet = await storage.getBet(id);
+      if (!bet) {
+        return res.status(404).json({ message: "Bet not found" });
+      }
+      if (bet.status !== "PENDING") {
+        return res.status(400).json({ message: "Bet is already resolved" });
+      }
+
+      // Graded by the settlement engine, exactly as when its matches finish
+      const settled = settleBet(bet.stake, await storage.getBetLegs(id));
+      if (!settled) {
+        return res.status(400).json({ message: "Bet has selections that are not decided yet" });
+      }
+      if (!await storage.resolveBet(id, settled.status, settled.payout)) {
+        return res.status(400).json({ message: "Bet is already resolved" });
+      }
+
+      res.json({ message: "Bet resolved successfully", ...settled });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.use("/api", apiRouter);
-
-      // Create new league
-    app.post("/api/leagues", async (req, res) => {
-      try {
-        const leagueData = insertLeagueSchema.parse(req.body);
-        const league = await storage.createLeague(leagueData);
-        res.json(league);
-      } catch (error: any) {
-        console.error("Error creating league:", error);
-        res.status(400).json({ 
-          message: "Failed to create league", 
-          error: error.message 
-        });
-      }
-    });
-
-    app.post("/api/bets/:id/resolve", async (req, res) => {
-    const { id } = req.params;
-    const { status } = req.body;
-
+  // GET /api/bets - Get user's bets
+  apiRouter.get("/bets", requireAuth, async (req, res) => {
     try {
-      await storage.resolveBet(parseInt(id), status);
-      res.json({ message: "Bet resolved successfully" });
+      const bets = await storage.getBetsWithSelections(req.user!.id);
+      res.json(bets);
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  app.use("/api", apiRouter);
+
   const httpServer = createServer(app);
+  setupLiveUpdates(httpServer);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+// Links matches to a league's seasons and rounds. A match can name its round
+// (which implies the season), name just its season, or leave both out and
+// fall into the season its kick-off date belongs to, if there is one.
+import { storage } from "./storage";
+import { findSeasonForDate } from "@shared/seasons";
+import type { InsertRound, Match, Round } from "@shared/schema";
+
+export class SeasonAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SeasonAssignmentError";
+  }
+}
+
+export async function resolveMatchSeason(
+  leagueId: number,
+  startTime: Date | string,
+  seasonId?: number | null,
+  roundId?: number | null
+): Promise<Pick<Match, "seasonId" | "roundId">> {
+  if (roundId != null) {
+    const round = await storage.getRound(roundId);
+    if (!round) {
+      throw new SeasonAssignmentError(`Round with ID ${roundId} not found`);
+    }
+    if (seasonId != null && round.seasonId !== seasonId) {
+      throw new SeasonAssignmentError("The round belongs to a different season");
+    }
+    seasonId = round.seasonId;
+  }
+
+  if (seasonId != null) {
+    const season = await storage.getSeason(seasonId);
+    if (!season || season.leagueId !== leagueId) {
+      throw new SeasonAssignmentError(`Season with ID ${seasonId} not found in this league`);
+    }
+    return { seasonId, roundId: roundId ?? null };
+  }
+
+  const season = findSeasonForDate(await storage.getSeasons(leagueId), startTime);
+  return { seasonId: season?.id ?? null, roundId: null };
+}
+
+// The season's rounds numbered 1 to count, creating any that do not exist
+// yet with the name and kick-off given for their number
+export async function getOrCreateRounds(
+  seasonId: number,
+  count: number,
+  details?: (number: number) => Pick<InsertRound, "name" | "startTime">
+): Promise<Round[]> {
+  const existing = new Map((await storage.getRounds(seasonId)).map(round => [round.number, round]));
+  const result: Round[] = [];
+  for (let number = 1; number <= count; number++) {
+    result.push(existing.get(number) ?? await storage.createRound({ seasonId, number, ...details?.(number) }));
+  }
+  return result;
+}
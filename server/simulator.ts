@@ -0,0 +1,261 @@
+// Live match simulator.
+// Kicks off matches whose start time has passed, runs their clock and plays
+// every minute from the scoring rates the pricing model infers from the 1X2
+// odds, recording each goal, corner and card on the match timeline. Corners
+// and cards follow the pricing defaults. Sets the half time score
+// at 45', finishes after 90' plus stoppage time and settles through the same
+// path as an admin entering the score. A cup tie level after 90' goes to
+// extra time and, if still level, penalties, so it always has a winner.
+// After each goal the live markets are suspended and repriced from the new
+// score and the minutes left; those that cannot be priced in play are locked.
+import { storage } from "./storage";
+import { applyMatchResult } from "./match-results";
+import { broadcastMatch, broadcastMarket } from "./live-updates";
+import { suspendLiveMarkets } from "./market-scheduler";
+import { log } from "./vite";
+import {
+  inferExpectedGoals,
+  createLivePricingModel,
+  getHomeCornerShare,
+  DEFAULT_PRICING_OPTIONS,
+  type ExpectedGoals,
+  type LiveMatchState
+} from "@shared/pricing";
+import { getMarketSpec } from "@shared/markets";
+import { HALF_TIME_MINUTE } from "@shared/match-events";
+import type { Match } from "@shared/schema";
+import type { MatchTieScore } from "./storage";
+
+export interface SimulatorOptions {
+  minuteMs: number;  // Real milliseconds per match minute (60000 = real time)
+  tickMs: number;    // How often the simulator catches matches up with the clock
+}
+
+// MATCH_MINUTE_MS=1000 plays a whole match in about a minute and a half
+export function getSimulatorOptions(): SimulatorOptions {
+  const minuteMs = Math.max(100, parseInt(process.env.MATCH_MINUTE_MS || "") || 60000);
+  return { minuteMs, tickMs: Math.min(minuteMs, 5000) };
+}
+
+const FULL_TIME_MINUTE = 90;
+const MAX_STOPPAGE_MINUTES = 5;
+const EXTRA_TIME_MINUTES = 30;
+const SHOOT_OUT_KICKS = 5;
+const PENALTY_CONVERSION = 0.75;
+
+interface SimulatedMatch {
+  xg: ExpectedGoals;
+  stoppage: number;
+  homeTeam: string;
+  awayTeam: string;
+  isCupTie: boolean;
+}
+
+// Chance of at least one goal, corner or card in a minute for a per-minute rate
+function happensThisMinute(rate: number): boolean {
+  return Math.random() < 1 - Math.exp(-rate);
+}
+
+// Five kicks each, stopping once one side cannot be caught, then sudden death
+function playShootOut(): { home: number; away: number } {
+  let home = 0;
+  let away = 0;
+  for (let kick = 1; kick <= SHOOT_OUT_KICKS; kick++) {
+    if (Math.random() < PENALTY_CONVERSION) home++;
+    if (home > away + SHOOT_OUT_KICKS - kick + 1 || away > home + SHOOT_OUT_KICKS - kick) break;
+    if (Math.random() < PENALTY_CONVERSION) away++;
+    if (Math.abs(home - away) > SHOOT_OUT_KICKS - kick) break;
+  }
+  while (home === away) {
+    if (Math.random() < PENALTY_CONVERSION) home++;
+    if (Math.random() < PENALTY_CONVERSION) away++;
+  }
+  return { home, away };
+}
+
+// Extra time and, if it stays level, penalties for a tie level after 90'.
+// Played at the final whistle rather than on the clock: goal events make up
+// the 90 minute score every other market is graded on.
+function playTieBreak(xg: ExpectedGoals, homeScore: number, awayScore: number): MatchTieScore {
+  let etHomeScore = homeScore;
+  let etAwayScore = awayScore;
+  for (let minute = 0; minute < EXTRA_TIME_MINUTES; minute++) {
+    if (happensThisMinute(xg.home / FULL_TIME_MINUTE)) etHomeScore++;
+    if (happensThisMinute(xg.away / FULL_TIME_MINUTE)) etAwayScore++;
+  }
+  if (etHomeScore !== etAwayScore) {
+    return { etHomeScore, etAwayScore, penHomeScore: null, penAwayScore: null };
+  }
+
+  const shootOut = playShootOut();
+  return { etHomeScore, etAwayScore, penHomeScore: shootOut.home, penAwayScore: shootOut.away };
+}
+
+// New prices for a match's open live markets after a goal, so their suspension
+// can be lifted; markets the live model cannot price stay locked for the rest
+// of the match
+async function repriceLiveMarkets(matchId: number, xg: ExpectedGoals, state: LiveMatchState) {
+  const model = createLivePricingModel(xg, state);
+  const markets = await storage.getMarketsByMatchId(matchId);
+  for (const market of markets) {
+    if (!market.isLive || market.isLocked) continue;
+
+    const spec = getMarketSpec(market);
+    const odds = spec && model.price(spec);
+    const updated = odds
+      ? await storage.updateMarketOdds(market.id, odds)
+      : await storage.toggleMarketLock(market.id, true);
+    if (updated) broadcastMarket(updated);
+  }
+}
+
+export function startMatchSimulator(options: SimulatorOptions = getSimulatorOptions()): () => void {
+  const simulated = new Map<number, SimulatedMatch>();
+  let running = false;
+
+  // Scoring rates come from the match's 1X2 prices; matches without a draw
+  // price (eSports) cannot be priced and are left to be resolved by hand
+  const getSimulation = async (match: Match): Promise<SimulatedMatch | null> => {
+    const existing = simulated.get(match.id);
+    if (existing) return existing;
+
+    const details = await storage.getMatchWithDetails(match.id);
+    if (!details) return null;
+
+    const odds = ["1", "X", "2"].map(type => details.markets.find(market => market.type === type)?.odds);
+    if (odds.some(price => price === undefined)) return null;
+
+    const simulation = {
+      xg: inferExpectedGoals(odds[0]!, odds[1]!, odds[2]!),
+      stoppage: 1 + Math.floor(Math.random() * MAX_STOPPAGE_MINUTES),
+      homeTeam: details.homeTeam?.name || details.homeTeamName || "Home",
+      awayTeam: details.awayTeam?.name || details.awayTeamName || "Away",
+      isCupTie: details.league.format === "CUP"
+    };
+    simulated.set(match.id, simulation);
+    return simulation;
+  };
+
+  const playMatch = async (match: Match, now: number) => {
+    const simulation = await getSimulation(match);
+    if (!simulation) return;
+
+    const kickedOff = match.status === "UPCOMING";
+    if (kickedOff) {
+      const started = await applyMatchResult(match.id, "LIVE", { homeScore: 0, awayScore: 0, htHomeScore: null, htAwayScore: null }, undefined, "UPCOMING");
+      if (!started) return;
+      match = started.match;
+      log(`${simulation.homeTeam} vs ${simulation.awayTeam} kicked off`, "simulator");
+    }
+
+    const lastMinute = FULL_TIME_MINUTE + simulation.stoppage;
+    const targetMinute = Math.min(lastMinute, Math.floor((now - new Date(match.startTime).getTime()) / options.minuteMs));
+    const { firstHalfShare, expectedCorners, expectedCards, redCardShare } = DEFAULT_PRICING_OPTIONS;
+    const homeCornerShare = getHomeCornerShare(simulation.xg);
+
+    let minute = match.minute ?? 0;
+    let homeScore = match.homeScore ?? 0;
+    let awayScore = match.awayScore ?? 0;
+    let htHomeScore = match.htHomeScore;
+    let htAwayScore = match.htAwayScore;
+
+    while (minute < targetMinute) {
+      minute++;
+
+      const isFirstHalf = minute <= HALF_TIME_MINUTE;
+      const halfShare = isFirstHalf ? firstHalfShare : 1 - firstHalfShare;
+      const scoreBefore = homeScore + awayScore;
+      if (happensThisMinute(simulation.xg.home * halfShare / HALF_TIME_MINUTE)) {
+        homeScore++;
+        await storage.createMatchEvent({ matchId: match.id, minute, team: "HOME", type: "GOAL" });
+        await suspendLiveMarkets(match.id);
+        log(`${minute}' goal ${simulation.homeTeam} ${homeScore}-${awayScore}`, "simulator");
+      }
+      if (happensThisMinute(simulation.xg.away * halfShare / HALF_TIME_MINUTE)) {
+        awayScore++;
+        await storage.createMatchEvent({ matchId: match.id, minute, team: "AWAY", type: "GOAL" });
+        await suspendLiveMarkets(match.id);
+        log(`${minute}' goal ${simulation.awayTeam} ${homeScore}-${awayScore}`, "simulator");
+      }
+      if (homeScore + awayScore !== scoreBefore) {
+        await repriceLiveMarkets(match.id, simulation.xg, {
+          minute,
+          homeScore,
+          awayScore,
+          htHomeScore: isFirstHalf ? null : htHomeScore,
+          htAwayScore: isFirstHalf ? null : htAwayScore
+        });
+      }
+
+      // Corners and cards are spread evenly over the 90 minutes
+      for (const team of ["HOME", "AWAY"] as const) {
+        const cornerShare = team === "HOME" ? homeCornerShare : 1 - homeCornerShare;
+        if (happensThisMinute(expectedCorners * cornerShare / FULL_TIME_MINUTE)) {
+          await storage.createMatchEvent({ matchId: match.id, minute, team, type: "CORNER" });
+        }
+        if (happensThisMinute(expectedCards * (1 - redCardShare) / 2 / FULL_TIME_MINUTE)) {
+          await storage.createMatchEvent({ matchId: match.id, minute, team, type: "YELLOW_CARD" });
+        }
+        if (happensThisMinute(expectedCards * redCardShare / 2 / FULL_TIME_MINUTE)) {
+          await storage.createMatchEvent({ matchId: match.id, minute, team, type: "RED_CARD" });
+        }
+      }
+
+      if (minute === HALF_TIME_MINUTE) {
+        htHomeScore = homeScore;
+        htAwayScore = awayScore;
+      }
+    }
+
+    // An admin may have finished, postponed or cancelled the match during the
+    // tick: every write below only applies while it is still live
+    const clockMoved = minute !== match.minute;
+    if (clockMoved && !await storage.updateMatchClock(match.id, { minute, homeScore, awayScore, htHomeScore, htAwayScore }, "LIVE")) {
+      simulated.delete(match.id);
+      return;
+    }
+
+    const finished = minute >= lastMinute;
+    if (finished) {
+      simulated.delete(match.id);
+      const tieScore = simulation.isCupTie && homeScore === awayScore
+        ? playTieBreak(simulation.xg, homeScore, awayScore)
+        : undefined;
+      if (!await applyMatchResult(match.id, "FINISHED", { homeScore, awayScore, htHomeScore, htAwayScore }, tieScore, "LIVE")) return;
+      log(`${simulation.homeTeam} ${homeScore}-${awayScore} ${simulation.awayTeam} full time`, "simulator");
+      if (tieScore) {
+        const penalties = tieScore.penHomeScore !== null ? `, ${tieScore.penHomeScore}-${tieScore.penAwayScore} on penalties` : "";
+        log(`${tieScore.etHomeScore}-${tieScore.etAwayScore} after extra time${penalties}`, "simulator");
+      }
+    }
+
+    if (kickedOff || clockMoved || finished) {
+      await broadcastMatch(match.id);
+    }
+  };
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const now = Date.now();
+      const matches = await storage.getMatches();
+      for (const match of matches) {
+        const hasStarted = new Date(match.startTime).getTime() <= now;
+        if (hasStarted && (match.status === "UPCOMING" || match.status === "LIVE")) {
+          await playMatch(match, now);
+        }
+      }
+    } catch (error) {
+      console.error("Match simulator error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = setInterval(tick, options.tickMs);
+  tick();
+  log(`match simulator running at ${options.minuteMs}ms per match minute`, "simulator");
+
+  return () => clearInterval(interval);
+}
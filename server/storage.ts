@@ -1,29 +1,71 @@
 import { 
   users, type User, type InsertUser,
-  leagues, type League, type InsertLeague,
+  leagues, type League, type InsertLeague, type UpdateLeagueRules,
+  seasons, type Season, type InsertSeason,
+  rounds, type Round, type InsertRound,
   teams, type Team, type InsertTeam,
   matches, type Match, type InsertMatch,
-  markets, type Market, type InsertMarket,
+  markets, type Market, type InsertMarket, type MarketResult,
+  matchEvents, type MatchEvent, type InsertMatchEvent,
   bets, type Bet, type InsertBet,
   betSelections, type BetSelection, type InsertBetSelection,
+  transactions, type Transaction, type InsertTransaction,
   type MatchWithTeamsAndMarkets,
-  type BetWithSelections
+  type BetWithSelections,
+  type PlaceBet,
+  type BetPlacementErrorCode,
+  type OddsChange,
+  type RegradedBet
 } from "@shared/schema";
-import { allEsportsTeams } from "./esports-teams";
+import { settleSelection, settleBet, isMatchSettled, type SettledLeg } from "@shared/settlement";
+import { parseMarketType, getMarketType } from "@shared/markets";
+import { sortMatchEvents, getMatchStats } from "@shared/match-events";
+import { isInSeason, getSeasonEnd } from "@shared/seasons";
+import { and, asc, desc, eq, gte, inArray, isNull, lt, lte, ne, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database, type DbTransaction } from "./db";
+import { seedDefaultData, seedAdmin, getAdminCredentials, DEMO_ADMIN } from "./seed";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export interface TransactionFilters {
+  from?: Date;
+  to?: Date;
+}
 
 // Storage interface
 export interface IStorage {
+  // Setup
+  sessionStore: session.Store;
+  initialize(): Promise<void>;
+
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  updateUserBalance(id: number, balance: number): Promise<User | undefined>;
+
+  // Wallet transactions
+  getTransactions(userId: number, filters?: TransactionFilters): Promise<Transaction[]>;
+  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
 
   // Leagues
   getLeagues(): Promise<League[]>;
   getLeaguesByCountry(country: string): Promise<League[]>;
   getLeague(id: number): Promise<League | undefined>;
   createLeague(league: InsertLeague): Promise<League>;
+  updateLeagueRules(id: number, rules: UpdateLeagueRules): Promise<League | undefined>;
+
+  // Seasons and their rounds (matchdays)
+  getSeasons(leagueId: number): Promise<Season[]>;
+  getSeason(id: number): Promise<Season | undefined>;
+  createSeason(season: InsertSeason): Promise<Season>;
+  assignMatchesToSeason(season: Season): Promise<number>;
+  getRounds(seasonId: number): Promise<Round[]>;
+  getRound(id: number): Promise<Round | undefined>;
+  createRound(round: InsertRound): Promise<Round>;
 
   // Teams
   getTeams(): Promise<Team[]>;
@@ -38,22 +80,39 @@ export interface IStorage {
   getMatch(id: number): Promise<Match | undefined>;
   getMatchWithDetails(id: number): Promise<MatchWithTeamsAndMarkets | undefined>;
   createMatch(match: InsertMatch): Promise<Match>;
+  // Creates a match together with its markets, all or nothing
+  createMatchWithMarkets(match: InsertMatch, markets: Omit<InsertMarket, "matchId">[]): Promise<Match>;
   updateMatchStatus(
     id: number, 
     status: string, 
     homeScore?: number, 
     awayScore?: number,
     htHomeScore?: number | null,
-    htAwayScore?: number | null
+    htAwayScore?: number | null,
+    fromStatus?: string  // Only update a match that still has this status
   ): Promise<Match | undefined>;
+  updateMatchClock(id: number, clock: MatchClock, fromStatus?: string): Promise<Match | undefined>;
+  updateMatchTieScore(id: number, tieScore: MatchTieScore): Promise<Match | undefined>;
   deleteMatch(id: number): Promise<boolean>;
 
+  // Match events
+  getMatchEvents(matchId: number): Promise<MatchEvent[]>;
+  getMatchEvent(id: number): Promise<MatchEvent | undefined>;
+  createMatchEvent(event: InsertMatchEvent): Promise<MatchEvent>;
+  updateMatchEvent(id: number, event: Partial<Omit<InsertMatchEvent, "matchId">>): Promise<MatchEvent | undefined>;
+  deleteMatchEvent(id: number): Promise<boolean>;
+
   // Markets
   getMarkets(): Promise<Market[]>;
   getMarketsByMatchId(matchId: number): Promise<Market[]>;
   getMarket(id: number): Promise<Market | undefined>;
   createMarket(market: InsertMarket): Promise<Market>;
+  createMarkets(markets: InsertMarket[]): Promise<Market[]>;
   toggleMarketLock(id: number, isLocked: boolean): Promise<Market | undefined>;
+  updateMarketOdds(id: number, odds: number): Promise<Market | undefined>;
+  // Suspending again restarts the suspension, so it waits for a newer price
+  setMarketSuspended(id: number, isSuspended: boolean): Promise<Market | undefined>;
+  setMarketResult(id: number, result: MarketResult | null): Promise<Market | undefined>;
 
   // Bets
   getBets(): Promise<Bet[]>;
@@ -61,46 +120,229 @@ export interface IStorage {
   getBetsWithSelections(userId: number): Promise<BetWithSelections[]>;
   getBet(id: number): Promise<Bet | undefined>;
   createBet(bet: InsertBet, selections: InsertBetSelection[]): Promise<Bet>;
-  deleteBet(id: number): Promise<boolean>;
+  placeBet(userId: number, slip: PlaceBet): Promise<Bet>;
+  // Settles a bet that is still pending; false if it was already settled
+  resolveBet(betId: number, status: string, payout: number): Promise<boolean>;
+  resolveBetsForMatch(matchId: number): Promise<void>;
+  regradeBetsForMatch(matchId: number): Promise<RegradedBet[]>;
+  hasBetsOnMatch(matchId: number): Promise<boolean>;
+  getBetLegs(betId: number): Promise<SettledLeg[]>;
+}
+
+// Combines a match row with its league, teams, markets and events for the frontend
+function toMatchWithDetails(
+  match: Match,
+  league: League,
+  markets: Market[],
+  events: MatchEvent[],
+  homeTeam?: Team,
+  awayTeam?: Team
+): MatchWithTeamsAndMarkets {
+  return {
+    ...match,
+    homeTeam,
+    awayTeam,
+    homeTeamName: match.homeTeamName || undefined,
+    awayTeamName: match.awayTeamName || undefined,
+    homeTeamLogo: match.homeTeamLogo || undefined,
+    awayTeamLogo: match.awayTeamLogo || undefined,
+    league,
+    markets,
+    events: sortMatchEvents(events)
+  };
+}
+
+// Live state written by the match simulator as the clock runs
+export type MatchClock = Pick<Match, "minute" | "homeScore" | "awayScore" | "htHomeScore" | "htAwayScore">;
+
+// Extra time and shoot-out of a cup tie, entered after the 90 minutes, or
+// the side given a walkover when the tie was abandoned or cancelled
+export type MatchTieScore = Partial<Pick<Match, "etHomeScore" | "etAwayScore" | "penHomeScore" | "penAwayScore" | "walkoverWinner">>;
+
+// Fills a new market's family/side/line from its type string, or its canonical
+// type string from the structure, so both always describe the same market
+function withMarketSpec(insertMarket: InsertMarket): InsertMarket & Pick<Market, "family" | "side" | "line"> {
+  const spec = insertMarket.family && insertMarket.side
+    ? { family: insertMarket.family, side: insertMarket.side, line: insertMarket.line ?? null }
+    : parseMarketType(insertMarket.type);
+  if (!spec) {
+    return { ...insertMarket, family: null, side: null, line: null };
+  }
+  return { ...insertMarket, ...spec, type: getMarketType(spec) ?? insertMarket.type };
+}
+
+// Payout of a bet settled before payouts were recorded with it
+function getDefaultPayout(bet: Bet, status: string): number {
+  switch (status) {
+    case "WON": return bet.potentialWin;
+    case "HALF_WON": return Math.round((bet.potentialWin + bet.stake) / 2 * 100) / 100;
+    case "PUSH": return bet.stake;
+    case "HALF_LOST": return Math.round(bet.stake / 2 * 100) / 100;
+    default: return 0;
+  }
+}
+
+// Ledger entry taking back what a bet paid before it is settled again
+function getReversalTransaction(bet: Bet, previousPayout: number): InsertTransaction {
+  return {
+    userId: bet.userId,
+    type: "ADJUSTMENT",
+    amount: -previousPayout,
+    betId: bet.id,
+    description: `Bet #${bet.id} payout reversed after score correction`
+  };
+}
+
+// Wallet entry credited when a bet is settled, if any
+function getSettlementTransaction(bet: Bet, status: string, payout: number): InsertTransaction | null {
+  if (payout <= 0) return null;
+
+  switch (status) {
+    case "PUSH":
+      return { userId: bet.userId, type: "REFUND", amount: payout, betId: bet.id, description: `Bet #${bet.id} refunded` };
+    case "HALF_LOST":
+      return { userId: bet.userId, type: "REFUND", amount: payout, betId: bet.id, description: `Bet #${bet.id} half lost, part of the stake refunded` };
+    case "HALF_WON":
+      return { userId: bet.userId, type: "PAYOUT", amount: payout, betId: bet.id, description: `Bet #${bet.id} half won` };
+    default:
+      return { userId: bet.userId, type: "PAYOUT", amount: payout, betId: bet.id, description: `Bet #${bet.id} won` };
+  }
+}
+
+// Raised by placeBet when a bet slip cannot be accepted as sent
+export class BetPlacementError extends Error {
+  constructor(
+    public code: BetPlacementErrorCode,
+    message: string,
+    public changes?: OddsChange[]
+  ) {
+    super(message);
+    this.name = "BetPlacementError";
+  }
+}
+
+// Checks a bet slip against the current markets and matches and prices it
+// from the stored odds, never from what the client claims
+function priceBetSlip(
+  slip: PlaceBet,
+  marketsById: Map<number, Market>,
+  matchesById: Map<number, Match>,
+  now: Date = new Date()
+) {
+  const marketIds = slip.selections.map(selection => selection.marketId);
+  if (new Set(marketIds).size !== marketIds.length) {
+    throw new BetPlacementError("DUPLICATE_SELECTION", "The same selection was added twice");
+  }
+
+  const changes: OddsChange[] = [];
+  const selections: InsertBetSelection[] = [];
+  let totalOdds = 1;
+
+  for (const selection of slip.selections) {
+    const market = marketsById.get(selection.marketId);
+    if (!market) {
+      throw new BetPlacementError("MARKET_NOT_FOUND", `Market with ID ${selection.marketId} not found`);
+    }
+
+    // Pre-match markets close at kick-off; live markets stay open until the
+    // match is over
+    const match = matchesById.get(market.matchId);
+    const isOpen = market.isLive
+      ? match?.status === "UPCOMING" || match?.status === "LIVE"
+      : match?.status === "UPCOMING" && new Date(match.startTime) > now;
+    if (!isOpen) {
+      throw new BetPlacementError("MATCH_STARTED", "Betting is closed for a match in your slip");
+    }
+
+    if (market.isLocked) {
+      throw new BetPlacementError("MARKET_LOCKED", "A market in your slip is locked");
+    }
+
+    if (market.isSuspended) {
+      throw new BetPlacementError("MARKET_SUSPENDED", "A market in your slip is suspended");
+    }
+
+    if (Math.abs(market.odds - selection.odds) > 0.001) {
+      changes.push({ marketId: market.id, oldOdds: selection.odds, newOdds: market.odds });
+    }
+
+    totalOdds *= market.odds;
+    selections.push({ marketId: market.id, odds: market.odds, betId: 0 });
+  }
+
+  if (changes.length > 0) {
+    throw new BetPlacementError("ODDS_CHANGED", "Odds have changed since you added these selections", changes);
+  }
+
+  return {
+    totalOdds,
+    potentialWin: Math.round(slip.stake * totalOdds * 100) / 100,
+    selections
+  };
 }
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private leagues: Map<number, League>;
+  private seasons: Map<number, Season>;
+  private rounds: Map<number, Round>;
   private teams: Map<number, Team>;
   private matches: Map<number, Match>;
   private markets: Map<number, Market>;
+  private matchEvents: Map<number, MatchEvent>;
   private bets: Map<number, Bet>;
   private betSelections: Map<number, BetSelection>;
+  private transactions: Map<number, Transaction>;
 
   private currentUserID: number;
   private currentLeagueID: number;
+  private currentSeasonID: number;
+  private currentRoundID: number;
   private currentTeamID: number;
   private currentMatchID: number;
   private currentMarketID: number;
+  private currentMatchEventID: number;
   private currentBetID: number;
   private currentBetSelectionID: number;
+  private currentTransactionID: number;
+
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.leagues = new Map();
+    this.seasons = new Map();
+    this.rounds = new Map();
     this.teams = new Map();
     this.matches = new Map();
     this.markets = new Map();
+    this.matchEvents = new Map();
     this.bets = new Map();
     this.betSelections = new Map();
+    this.transactions = new Map();
 
     this.currentUserID = 1;
     this.currentLeagueID = 1;
+    this.currentSeasonID = 1;
+    this.currentRoundID = 1;
     this.currentTeamID = 1;
     this.currentMatchID = 1;
     this.currentMarketID = 1;
+    this.currentMatchEventID = 1;
     this.currentBetID = 1;
     this.currentBetSelectionID = 1;
+    this.currentTransactionID = 1;
 
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // prune expired entries every 24h
+    });
+  }
+
+  async initialize(): Promise<void> {
     // Initialize with default data
-    this.initializeDefaultData();
+    await seedAdmin(this, getAdminCredentials() ?? DEMO_ADMIN);
+    await seedDefaultData(this);
   }
 
   // User methods
@@ -119,19 +361,57 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id, 
-      balance: insertUser.balance || 1000 
+      balance: 0,
+      role: insertUser.role ?? "bettor"
     };
     this.users.set(id, user);
-    return user;
+
+    // The starting balance goes through the ledger like any other credit
+    const startingBalance = insertUser.balance ?? 10000;
+    if (startingBalance > 0) {
+      this.appendTransaction({ userId: id, type: "BONUS", amount: startingBalance, description: "Welcome bonus" });
+    }
+
+    return this.users.get(id)!;
   }
 
-  async updateUserBalance(id: number, balance: number): Promise<User | undefined> {
-    const user = await this.getUser(id);
-    if (!user) return undefined;
+  // Transaction methods
+  async getTransactions(userId: number, filters: TransactionFilters = {}): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction =>
+        transaction.userId === userId &&
+        (!filters.from || transaction.createdAt >= filters.from) &&
+        (!filters.to || transaction.createdAt <= filters.to)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    return this.appendTransaction(insertTransaction);
+  }
+
+  // Applies a transaction to the user's balance synchronously so callers can
+  // combine it with other writes without another request interleaving
+  private appendTransaction(insertTransaction: InsertTransaction): Transaction {
+    const user = this.users.get(insertTransaction.userId);
+    if (!user) {
+      throw new Error(`User with ID ${insertTransaction.userId} not found`);
+    }
+
+    const balanceAfter = user.balance + insertTransaction.amount;
+    this.users.set(user.id, { ...user, balance: balanceAfter });
 
-    const updatedUser = { ...user, balance };
-    this.users.set(id, updatedUser);
-    return updatedUser;
+    const id = this.currentTransactionID++;
+    const transaction: Transaction = {
+      ...insertTransaction,
+      id,
+      betId: insertTransaction.betId ?? null,
+      description: insertTransaction.description ?? null,
+      balanceAfter,
+      createdAt: new Date()
+    };
+    this.transactions.set(id, transaction);
+    return transaction;
   }
 
   // League methods
@@ -154,12 +434,72 @@ export class MemStorage implements IStorage {
     const league: League = { 
       ...insertLeague, 
       id, 
-      isActive: insertLeague.isActive !== undefined ? insertLeague.isActive : true 
+      isActive: insertLeague.isActive !== undefined ? insertLeague.isActive : true,
+      pointsForWin: insertLeague.pointsForWin ?? 3,
+      pointsForDraw: insertLeague.pointsForDraw ?? 1,
+      pointsForLoss: insertLeague.pointsForLoss ?? 0,
+      tiebreakers: insertLeague.tiebreakers ?? null,
+      format: insertLeague.format ?? "LEAGUE"
     };
     this.leagues.set(id, league);
     return league;
   }
 
+  async updateLeagueRules(id: number, rules: UpdateLeagueRules): Promise<League | undefined> {
+    const league = this.leagues.get(id);
+    if (!league) return undefined;
+
+    const updatedLeague = { ...league, ...rules };
+    this.leagues.set(id, updatedLeague);
+    return updatedLeague;
+  }
+
+  // Season methods
+  async getSeasons(leagueId: number): Promise<Season[]> {
+    return Array.from(this.seasons.values())
+      .filter(season => season.leagueId === leagueId)
+      .sort((a, b) => b.startDate.getTime() - a.startDate.getTime());
+  }
+
+  async getSeason(id: number): Promise<Season | undefined> {
+    return this.seasons.get(id);
+  }
+
+  async createSeason(insertSeason: InsertSeason): Promise<Season> {
+    const id = this.currentSeasonID++;
+    const season: Season = { ...insertSeason, id };
+    this.seasons.set(id, season);
+    return season;
+  }
+
+  // Files the league's matches without a season under this one, by kick-off date
+  async assignMatchesToSeason(season: Season): Promise<number> {
+    let assigned = 0;
+    for (const match of Array.from(this.matches.values())) {
+      if (match.leagueId !== season.leagueId || match.seasonId !== null || !isInSeason(season, match.startTime)) continue;
+      this.matches.set(match.id, { ...match, seasonId: season.id });
+      assigned++;
+    }
+    return assigned;
+  }
+
+  async getRounds(seasonId: number): Promise<Round[]> {
+    return Array.from(this.rounds.values())
+      .filter(round => round.seasonId === seasonId)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  async getRound(id: number): Promise<Round | undefined> {
+    return this.rounds.get(id);
+  }
+
+  async createRound(insertRound: InsertRound): Promise<Round> {
+    const id = this.currentRoundID++;
+    const round: Round = { ...insertRound, id, name: insertRound.name ?? null, startTime: insertRound.startTime ?? null };
+    this.rounds.set(id, round);
+    return round;
+  }
+
   // Team methods
   async getTeams(): Promise<Team[]> {
     return Array.from(this.teams.values());
@@ -208,6 +548,7 @@ export class MemStorage implements IStorage {
     for (const match of matches) {
       const league = await this.getLeague(match.leagueId);
       const matchMarkets = await this.getMarketsByMatchId(match.id);
+      const events = await this.getMatchEvents(match.id);
 
       if (!league) continue;
 
@@ -215,15 +556,7 @@ export class MemStorage implements IStorage {
       const homeTeam = match.homeTeamId ? await this.getTeam(match.homeTeamId) : undefined;
       const awayTeam = match.awayTeamId ? await this.getTeam(match.awayTeamId) : undefined;
 
-      result.push({
-        ...match,
-        homeTeam,
-        awayTeam,
-        homeTeamName: match.homeTeamName ? match.homeTeamName : undefined,
-        awayTeamName: match.awayTeamName ? match.awayTeamName : undefined,
-        league,
-        markets: matchMarkets
-      });
+      result.push(toMatchWithDetails(match, league, matchMarkets, events, homeTeam, awayTeam));
     }
 
     return result;
@@ -239,6 +572,7 @@ export class MemStorage implements IStorage {
 
     const league = await this.getLeague(match.leagueId);
     const markets = await this.getMarketsByMatchId(id);
+    const events = await this.getMatchEvents(id);
 
     if (!league) return undefined;
 
@@ -246,15 +580,7 @@ export class MemStorage implements IStorage {
     const homeTeam = match.homeTeamId ? await this.getTeam(match.homeTeamId) : undefined;
     const awayTeam = match.awayTeamId ? await this.getTeam(match.awayTeamId) : undefined;
 
-    return {
-      ...match,
-      homeTeam,
-      awayTeam,
-      homeTeamName: match.homeTeamName || undefined,
-      awayTeamName: match.awayTeamName || undefined,
-      league,
-      markets
-    };
+    return toMatchWithDetails(match, league, markets, events, homeTeam, awayTeam);
   }
 
   async createMatch(insertMatch: InsertMatch): Promise<Match> {
@@ -276,8 +602,19 @@ export class MemStorage implements IStorage {
       awayTeamId: insertMatch.awayTeamId || null,
       homeTeamName: insertMatch.homeTeamName || null,
       awayTeamName: insertMatch.awayTeamName || null,
-      homeScore: insertMatch.homeScore || null,
-      awayScore: insertMatch.awayScore || null,
+      seasonId: insertMatch.seasonId ?? null,
+      roundId: insertMatch.roundId ?? null,
+      homeScore: insertMatch.homeScore ?? null,
+      awayScore: insertMatch.awayScore ?? null,
+      htHomeScore: insertMatch.htHomeScore ?? null,
+      htAwayScore: insertMatch.htAwayScore ?? null,
+      etHomeScore: null,
+      etAwayScore: null,
+      penHomeScore: null,
+      penAwayScore: null,
+      walkoverWinner: null,
+      bracketSlot: insertMatch.bracketSlot ?? null,
+      minute: null,
       isCustom: insertMatch.isCustom || false,
       homeTeamLogo: insertMatch.homeTeamLogo || null,
       awayTeamLogo: insertMatch.awayTeamLogo || null
@@ -292,16 +629,23 @@ export class MemStorage implements IStorage {
     return match;
   }
 
+  async createMatchWithMarkets(insertMatch: InsertMatch, insertMarkets: Omit<InsertMarket, "matchId">[]): Promise<Match> {
+    const match = await this.createMatch(insertMatch);
+    await this.createMarkets(insertMarkets.map((market) => ({ ...market, matchId: match.id })));
+    return match;
+  }
+
   async updateMatchStatus(
     id: number, 
     status: string, 
     homeScore?: number, 
     awayScore?: number,
     htHomeScore?: number | null,
-    htAwayScore?: number | null
+    htAwayScore?: number | null,
+    fromStatus?: string
   ): Promise<Match | undefined> {
     const match = await this.getMatch(id);
-    if (!match) return undefined;
+    if (!match || (fromStatus && match.status !== fromStatus)) return undefined;
 
     const updatedMatch = { 
       ...match, 
@@ -314,28 +658,90 @@ export class MemStorage implements IStorage {
 
     this.matches.set(id, updatedMatch);
 
-    if (status === "FINISHED") {
+    if (isMatchSettled(status)) {
       await this.resolveBetsForMatch(id);
     }
 
     return updatedMatch;
   }
 
+  async updateMatchClock(id: number, clock: MatchClock, fromStatus?: string): Promise<Match | undefined> {
+    const match = this.matches.get(id);
+    if (!match || (fromStatus && match.status !== fromStatus)) return undefined;
+
+    const updatedMatch = { ...match, ...clock };
+    this.matches.set(id, updatedMatch);
+    return updatedMatch;
+  }
+
+  async updateMatchTieScore(id: number, tieScore: MatchTieScore): Promise<Match | undefined> {
+    const match = this.matches.get(id);
+    if (!match) return undefined;
+
+    const updatedMatch = { ...match, ...tieScore };
+    this.matches.set(id, updatedMatch);
+    return updatedMatch;
+  }
+
   async deleteMatch(id: number): Promise<boolean> {
     const match = await this.getMatch(id);
     if (!match) return false;
 
-    // Delete associated markets first
+    // Delete associated markets and events first
     const markets = await this.getMarketsByMatchId(id);
     for (const market of markets) {
       this.markets.delete(market.id);
     }
+    const events = await this.getMatchEvents(id);
+    for (const event of events) {
+      this.matchEvents.delete(event.id);
+    }
 
     // Delete the match
     this.matches.delete(id);
     return true;
   }
 
+  // Match event methods
+  async getMatchEvents(matchId: number): Promise<MatchEvent[]> {
+    return sortMatchEvents(
+      Array.from(this.matchEvents.values()).filter((event) => event.matchId === matchId)
+    );
+  }
+
+  async getMatchEvent(id: number): Promise<MatchEvent | undefined> {
+    return this.matchEvents.get(id);
+  }
+
+  async createMatchEvent(insertEvent: InsertMatchEvent): Promise<MatchEvent> {
+    const id = this.currentMatchEventID++;
+    const event: MatchEvent = {
+      ...insertEvent,
+      id,
+      playerName: insertEvent.playerName || null,
+      createdAt: new Date()
+    };
+    this.matchEvents.set(id, event);
+    return event;
+  }
+
+  async updateMatchEvent(id: number, data: Partial<Omit<InsertMatchEvent, "matchId">>): Promise<MatchEvent | undefined> {
+    const event = this.matchEvents.get(id);
+    if (!event) return undefined;
+
+    const updatedEvent = {
+      ...event,
+      ...data,
+      playerName: data.playerName !== undefined ? data.playerName || null : event.playerName
+    };
+    this.matchEvents.set(id, updatedEvent);
+    return updatedEvent;
+  }
+
+  async deleteMatchEvent(id: number): Promise<boolean> {
+    return this.matchEvents.delete(id);
+  }
+
   // Market methods
   async getMarkets(): Promise<Market[]> {
     return Array.from(this.markets.values());
@@ -354,14 +760,27 @@ export class MemStorage implements IStorage {
   async createMarket(insertMarket: InsertMarket): Promise<Market> {
     const id = this.currentMarketID++;
     const market: Market = { 
-      ...insertMarket, 
+      ...withMarketSpec(insertMarket), 
       id,
-      isLocked: insertMarket.isLocked || false
+      isLocked: insertMarket.isLocked || false,
+      isLive: insertMarket.isLive || false,
+      isSuspended: false,
+      suspendedAt: null,
+      oddsUpdatedAt: null,
+      result: null
     };
     this.markets.set(id, market);
     return market;
   }
 
+  async createMarkets(insertMarkets: InsertMarket[]): Promise<Market[]> {
+    const created: Market[] = [];
+    for (const insertMarket of insertMarkets) {
+      created.push(await this.createMarket(insertMarket));
+    }
+    return created;
+  }
+
   async toggleMarketLock(id: number, isLocked: boolean): Promise<Market | undefined> {
     const market = await this.getMarket(id);
     if (!market) return undefined;
@@ -375,6 +794,33 @@ export class MemStorage implements IStorage {
     return updatedMarket;
   }
 
+  async updateMarketOdds(id: number, odds: number): Promise<Market | undefined> {
+    const market = this.markets.get(id);
+    if (!market) return undefined;
+
+    const updatedMarket = { ...market, odds, oddsUpdatedAt: new Date() };
+    this.markets.set(id, updatedMarket);
+    return updatedMarket;
+  }
+
+  async setMarketSuspended(id: number, isSuspended: boolean): Promise<Market | undefined> {
+    const market = this.markets.get(id);
+    if (!market) return undefined;
+
+    const updatedMarket = { ...market, isSuspended, suspendedAt: isSuspended ? new Date() : null };
+    this.markets.set(id, updatedMarket);
+    return updatedMarket;
+  }
+
+  async setMarketResult(id: number, result: MarketResult | null): Promise<Market | undefined> {
+    const market = this.markets.get(id);
+    if (!market) return undefined;
+
+    const updatedMarket = { ...market, result };
+    this.markets.set(id, updatedMarket);
+    return updatedMarket;
+  }
+
   // Bet methods
   async getBets(): Promise<Bet[]> {
     return Array.from(this.bets.values());
@@ -431,6 +877,35 @@ export class MemStorage implements IStorage {
   }
 
   async createBet(insertBet: InsertBet, selectionInserts: InsertBetSelection[]): Promise<Bet> {
+    return this.insertBet(insertBet, selectionInserts);
+  }
+
+  async placeBet(userId: number, slip: PlaceBet): Promise<Bet> {
+    // Checks and writes run without awaiting, so no other request can
+    // change the balance or the markets in between
+    const user = this.users.get(userId);
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    const priced = priceBetSlip(slip, this.markets, this.matches);
+    if (user.balance < slip.stake) {
+      throw new BetPlacementError("INSUFFICIENT_BALANCE", "Insufficient balance");
+    }
+
+    const bet = this.insertBet({
+      userId,
+      stake: slip.stake,
+      totalOdds: priced.totalOdds,
+      potentialWin: priced.potentialWin,
+      status: "PENDING"
+    }, priced.selections);
+    this.appendTransaction({ userId, type: "STAKE", amount: -slip.stake, betId: bet.id, description: `Bet #${bet.id} placed` });
+
+    return bet;
+  }
+
+  private insertBet(insertBet: InsertBet, selectionInserts: InsertBetSelection[]): Bet {
     const id = this.currentBetID++;
 
     // Ensure all required fields have values
@@ -438,6 +913,8 @@ export class MemStorage implements IStorage {
       ...insertBet, 
       id,
       status: insertBet.status || "PENDING",
+      payout: null,
+      regradedAt: null,
       createdAt: new Date()
     };
 
@@ -449,7 +926,8 @@ export class MemStorage implements IStorage {
       const selection: BetSelection = { 
         ...selectionInsert, 
         id: selectionId,
-        betId: id
+        betId: id,
+        status: "PENDING"
       };
       this.betSelections.set(selectionId, selection);
     }
@@ -457,1095 +935,783 @@ export class MemStorage implements IStorage {
     return bet;
   }
 
-  async resolveBet(betId: number, status: string) {
-    if (status === "WON") {
+  async resolveBet(betId: number, status: string, payout: number): Promise<boolean> {
+    const bet = this.bets.get(betId);
+    if (!bet || bet.status !== "PENDING") return false;
+
+    const credit = getSettlementTransaction(bet, status, payout);
+    if (credit) {
+      this.appendTransaction(credit);
+    }
+
+    this.bets.set(betId, { ...bet, status, payout });
+    return true;
+  }
+
+  async resolveBetsForMatch(matchId: number): Promise<void> {
+    const match = this.matches.get(matchId);
+    if (!match || !isMatchSettled(match.status)) {
+      return;
+    }
+
+    // Pending bets with at least one selection on this match
+    const selections = Array.from(this.betSelections.values());
+    const affectedBetIds = new Set(
+      selections
+        .filter(selection => this.markets.get(selection.marketId)?.matchId === matchId)
+        .map(selection => selection.betId)
+    );
+
+    for (const betId of Array.from(affectedBetIds)) {
       const bet = this.bets.get(betId);
-      if (bet) {
-        const user = await this.getUser(bet.userId);
-        if(user){
-          await this.updateUserBalance(user.id, user.balance + bet.potentialWin);
-        }
+      if (!bet || bet.status !== "PENDING") continue;
+
+      // Every leg is graded, so accumulators wait for their other matches
+      const legs = this.gradeSelections(betId);
+      const settled = settleBet(bet.stake, legs);
+      if (settled) {
+        await this.resolveBet(bet.id, settled.status, settled.payout);
       }
     }
+  }
 
-    const bet = this.bets.get(betId);
-    if (bet) {
-      const updatedBet = {...bet, status};
-      this.bets.set(betId, updatedBet);
+  async regradeBetsForMatch(matchId: number): Promise<RegradedBet[]> {
+    const affectedBetIds = new Set(
+      Array.from(this.betSelections.values())
+        .filter(selection => this.markets.get(selection.marketId)?.matchId === matchId)
+        .map(selection => selection.betId)
+    );
+
+    const regraded: RegradedBet[] = [];
+    for (const betId of Array.from(affectedBetIds)) {
+      const bet = this.bets.get(betId);
+      if (!bet || bet.status === "PENDING") continue;
+
+      const settled = settleBet(bet.stake, this.gradeSelections(betId));
+      const previousPayout = bet.payout ?? getDefaultPayout(bet, bet.status);
+      if (settled && settled.status === bet.status && settled.payout === previousPayout) continue;
+
+      // Take back the old payout, then settle again from scratch
+      if (previousPayout > 0) {
+        this.appendTransaction(getReversalTransaction(bet, previousPayout));
+      }
+      this.bets.set(betId, { ...bet, status: "PENDING", payout: null, regradedAt: new Date() });
+      if (settled) {
+        await this.resolveBet(betId, settled.status, settled.payout);
+      }
+
+      regraded.push({
+        betId,
+        userId: bet.userId,
+        previousStatus: bet.status,
+        status: settled?.status ?? "PENDING",
+        previousPayout,
+        payout: settled?.payout ?? null
+      });
     }
+
+    return regraded;
   }
 
-  async resolveBetsForMatch(matchId: number): Promise<void> {
-    // Note: We'll need to duplicate these functions here since we can't import from client
-    function isBetWinner(
-      marketType: string, 
-      homeScore: number, 
-      awayScore: number, 
-      htHomeScore: number = 0, 
-      htAwayScore: number = 0
-    ): boolean {
-      const totalGoals = homeScore + awayScore;
-      const htTotalGoals = htHomeScore + htAwayScore;
-
-      switch (marketType) {
-        case "1": return homeScore > awayScore;
-        case "X": return homeScore === awayScore;
-        case "2": return awayScore > homeScore;
-        case "OVER_1_5": return totalGoals > 1.5;
-        case "UNDER_1_5": return totalGoals < 1.5;
-        case "OVER_2_5": return totalGoals > 2.5;
-        case "UNDER_2_5": return totalGoals < 2.5;
-        case "OVER_3_5": return totalGoals > 3.5;
-        case "UNDER_3_5": return totalGoals < 3.5;
-        case "BTTS_YES": return homeScore > 0 && awayScore > 0;
-        case "BTTS_NO": return homeScore === 0 || awayScore === 0;
-        case "DNB_1": return homeScore > awayScore;
-        case "DNB_2": return awayScore > homeScore;
-        case "DC_1X": return homeScore >= awayScore;
-        case "DC_12": return homeScore !== awayScore;
-        case "DC_X2": return awayScore >= homeScore;
-        case "HT_1": return htHomeScore > htAwayScore;
-        case "HT_X": return htHomeScore === htAwayScore;
-        case "HT_2": return htAwayScore > htHomeScore;
-        case "HT_OVER_0_5": return htTotalGoals > 0.5;
-        case "HT_UNDER_0_5": return htTotalGoals < 0.5;
-        case "HT_OVER_1_5": return htTotalGoals > 1.5;
-        case "HT_UNDER_1_5": return htTotalGoals < 1.5;
-        case "HT_BTTS_YES": return htHomeScore > 0 && htAwayScore > 0;
-        case "HT_BTTS_NO": return htHomeScore === 0 || htAwayScore === 0;
-        case "HANDICAP_1_MINUS_1": return (homeScore - 1) > awayScore;
-        case "HANDICAP_1_MINUS_2": return (homeScore - 2) > awayScore;
-        case "HANDICAP_2_MINUS_1": return homeScore < (awayScore - 1);
-        case "HANDICAP_2_MINUS_2": return homeScore < (awayScore - 2);
-        case "WIN_BOTH_HALVES_1": {
-          const secondHalfHome = homeScore - htHomeScore;
-          const secondHalfAway = awayScore - htAwayScore;
-          return htHomeScore > htAwayScore && secondHalfHome > secondHalfAway;
-        }
-        case "WIN_BOTH_HALVES_2": {
-          const secondHalfHome = homeScore - htHomeScore;
-          const secondHalfAway = awayScore - htAwayScore;
-          return htAwayScore > htHomeScore && secondHalfAway > secondHalfHome;
-        }
-        case "WIN_EITHER_HALF_1": {
-          const secondHalfHome = homeScore - htHomeScore;
-          const secondHalfAway = awayScore - htAwayScore;
-          return htHomeScore > htAwayScore || secondHalfHome > secondHalfAway;
-        }
-        case "WIN_EITHER_HALF_2": {
-          const secondHalfHome = homeScore - htHomeScore;
-          const secondHalfAway = awayScore - htAwayScore;
-          return htAwayScore > htHomeScore || secondHalfAway > secondHalfHome;
-        }
-        default: return false;
+  async hasBetsOnMatch(matchId: number): Promise<boolean> {
+    return Array.from(this.betSelections.values()).some(
+      selection => this.markets.get(selection.marketId)?.matchId === matchId
+    );
+  }
+
+  // Grades every leg of a bet against its match (and the corner/card counts
+  // from its events) and records each selection's result
+  async getBetLegs(betId: number): Promise<SettledLeg[]> {
+    return this.gradeSelections(betId);
+  }
+
+  private gradeSelections(betId: number): SettledLeg[] {
+    return Array.from(this.betSelections.values())
+      .filter(selection => selection.betId === betId)
+      .map(selection => {
+        const market = this.markets.get(selection.marketId);
+        const match = market ? this.matches.get(market.matchId) : undefined;
+        const events = Array.from(this.matchEvents.values()).filter(event => event.matchId === match?.id);
+        const outcome = settleSelection(market, match && { ...match, stats: getMatchStats(events) });
+
+        this.betSelections.set(selection.id, { ...selection, status: outcome ?? "PENDING" });
+        return { outcome, odds: selection.odds };
+      });
+  }
+}
+
+// PostgreSQL storage implementation backed by Drizzle
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true
+    });
+  }
+
+  async initialize(): Promise<void> {
+    // Only seed an empty database so restarts keep existing data
+    const [existingLeague] = await this.db.select({ id: leagues.id }).from(leagues).limit(1);
+    if (!existingLeague) {
+      await seedDefaultData(this);
+    }
+    await this.backfillMarketSpecs();
+
+    // A persistent database never gets the demo admin: its password is public
+    const admin = getAdminCredentials();
+    if (admin) {
+      await seedAdmin(this, admin);
+    } else {
+      console.warn("ADMIN_USERNAME and ADMIN_PASSWORD are not set, so no admin account was created");
+    }
+  }
+
+  // Markets created before family/side/line existed only carry a type string:
+  // fill the columns from it. Custom markets have no structure and stay empty.
+  private async backfillMarketSpecs(): Promise<void> {
+    const legacyMarkets = await this.db.select().from(markets).where(isNull(markets.family));
+    for (const market of legacyMarkets) {
+      const spec = parseMarketType(market.type);
+      if (spec) {
+        await this.db.update(markets).set(spec).where(eq(markets.id, market.id));
       }
     }
-  
-    function isBetPush(marketType: string, homeScore: number, awayScore: number): boolean {
-      switch (marketType) {
-        case "DNB_1": return homeScore === awayScore;
-        case "DNB_2": return homeScore === awayScore;
-        default: return false;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values({ ...insertUser, balance: 0 }).returning();
+
+      // The starting balance goes through the ledger like any other credit
+      const startingBalance = insertUser.balance ?? 10000;
+      if (startingBalance > 0) {
+        await this.appendTransaction(tx, { userId: user.id, type: "BONUS", amount: startingBalance, description: "Welcome bonus" });
       }
+
+      const [created] = await tx.select().from(users).where(eq(users.id, user.id));
+      return created;
+    });
+  }
+
+  // Transaction methods
+  async getTransactions(userId: number, filters: TransactionFilters = {}): Promise<Transaction[]> {
+    const conditions: SQL[] = [eq(transactions.userId, userId)];
+    if (filters.from) conditions.push(gte(transactions.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(transactions.createdAt, filters.to));
+
+    return this.db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(desc(transactions.id));
+  }
+
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    return this.db.transaction((tx) => this.appendTransaction(tx, insertTransaction));
+  }
+
+  // Applies a transaction to the user's balance inside the caller's database transaction
+  private async appendTransaction(tx: DbTransaction, insertTransaction: InsertTransaction): Promise<Transaction> {
+    const [user] = await tx.update(users)
+      .set({ balance: sql`${users.balance} + ${insertTransaction.amount}` })
+      .where(eq(users.id, insertTransaction.userId))
+      .returning({ balance: users.balance });
+    if (!user) {
+      throw new Error(`User with ID ${insertTransaction.userId} not found`);
     }
 
-    const matchesArray = Array.from(this.matches.values());
+    const [transaction] = await tx.insert(transactions)
+      .values({ ...insertTransaction, balanceAfter: user.balance })
+      .returning();
+    return transaction;
+  }
 
-    const match = matchesArray.find((match) => match.id === matchId);
-    if (!match || match.status !== "FINISHED" || match.homeScore === null || match.awayScore === null) {
-      return;
+  // League methods
+  async getLeagues(): Promise<League[]> {
+    return this.db.select().from(leagues).orderBy(asc(leagues.id));
+  }
+
+  async getLeaguesByCountry(country: string): Promise<League[]> {
+    return this.db.select().from(leagues).where(eq(leagues.country, country)).orderBy(asc(leagues.id));
+  }
+
+  async getLeague(id: number): Promise<League | undefined> {
+    const [league] = await this.db.select().from(leagues).where(eq(leagues.id, id));
+    return league;
+  }
+
+  async createLeague(insertLeague: InsertLeague): Promise<League> {
+    const [league] = await this.db.insert(leagues).values(insertLeague).returning();
+    return league;
+  }
+
+  async updateLeagueRules(id: number, rules: UpdateLeagueRules): Promise<League | undefined> {
+    const [league] = await this.db.update(leagues).set(rules).where(eq(leagues.id, id)).returning();
+    return league;
+  }
+
+  // Season methods
+  async getSeasons(leagueId: number): Promise<Season[]> {
+    return this.db.select().from(seasons).where(eq(seasons.leagueId, leagueId)).orderBy(desc(seasons.startDate));
+  }
+
+  async getSeason(id: number): Promise<Season | undefined> {
+    const [season] = await this.db.select().from(seasons).where(eq(seasons.id, id));
+    return season;
+  }
+
+  async createSeason(insertSeason: InsertSeason): Promise<Season> {
+    const [season] = await this.db.insert(seasons).values(insertSeason).returning();
+    return season;
+  }
+
+  // Files the league's matches without a season under this one, by kick-off date
+  async assignMatchesToSeason(season: Season): Promise<number> {
+    const assigned = await this.db.update(matches)
+      .set({ seasonId: season.id })
+      .where(and(
+        eq(matches.leagueId, season.leagueId),
+        isNull(matches.seasonId),
+        gte(matches.startTime, season.startDate),
+        lt(matches.startTime, getSeasonEnd(season))
+      ))
+      .returning({ id: matches.id });
+    return assigned.length;
+  }
+
+  async getRounds(seasonId: number): Promise<Round[]> {
+    return this.db.select().from(rounds).where(eq(rounds.seasonId, seasonId)).orderBy(asc(rounds.number));
+  }
+
+  async getRound(id: number): Promise<Round | undefined> {
+    const [round] = await this.db.select().from(rounds).where(eq(rounds.id, id));
+    return round;
+  }
+
+  async createRound(insertRound: InsertRound): Promise<Round> {
+    const [round] = await this.db.insert(rounds).values(insertRound).returning();
+    return round;
+  }
+
+  // Team methods
+  async getTeams(): Promise<Team[]> {
+    return this.db.select().from(teams).orderBy(asc(teams.id));
+  }
+
+  async getTeam(id: number): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.id, id));
+    return team;
+  }
+
+  async getTeamsByCountry(country: string): Promise<Team[]> {
+    return this.db.select().from(teams).where(eq(teams.country, country)).orderBy(asc(teams.id));
+  }
+
+  async createTeam(team: InsertTeam): Promise<Team> {
+    const [newTeam] = await this.db.insert(teams).values(team).returning();
+    return newTeam;
+  }
+
+  async updateTeamLogo(teamId: number, logo: string): Promise<Team | undefined> {
+    const [team] = await this.db.update(teams).set({ logo }).where(eq(teams.id, teamId)).returning();
+    return team;
+  }
+
+  // Match methods
+  async getMatches(): Promise<Match[]> {
+    return this.db.select().from(matches).orderBy(asc(matches.id));
+  }
+
+  // Loads leagues, teams and markets for a set of matches in one query each
+  private async withDetails(matchRows: Match[]): Promise<MatchWithTeamsAndMarkets[]> {
+    if (matchRows.length === 0) return [];
+
+    const matchIds = matchRows.map(match => match.id);
+    const leagueIds = Array.from(new Set(matchRows.map(match => match.leagueId)));
+    const teamIds = Array.from(new Set(
+      matchRows.flatMap(match => [match.homeTeamId, match.awayTeamId])
+        .filter((id): id is number => id !== null)
+    ));
+
+    const leagueRows = await this.db.select().from(leagues).where(inArray(leagues.id, leagueIds));
+    const teamRows = teamIds.length > 0
+      ? await this.db.select().from(teams).where(inArray(teams.id, teamIds))
+      : [];
+    const marketRows = await this.db.select().from(markets)
+      .where(inArray(markets.matchId, matchIds))
+      .orderBy(asc(markets.id));
+    const eventRows = await this.db.select().from(matchEvents)
+      .where(inArray(matchEvents.matchId, matchIds))
+      .orderBy(asc(matchEvents.minute), asc(matchEvents.id));
+
+    const leaguesById = new Map(leagueRows.map(league => [league.id, league]));
+    const teamsById = new Map(teamRows.map(team => [team.id, team]));
+
+    const result: MatchWithTeamsAndMarkets[] = [];
+    for (const match of matchRows) {
+      const league = leaguesById.get(match.leagueId);
+      if (!league) continue;
+
+      result.push(toMatchWithDetails(
+        match,
+        league,
+        marketRows.filter(market => market.matchId === match.id),
+        eventRows.filter(event => event.matchId === match.id),
+        match.homeTeamId ? teamsById.get(match.homeTeamId) : undefined,
+        match.awayTeamId ? teamsById.get(match.awayTeamId) : undefined
+      ));
     }
 
-    for (const bet of Array.from(this.bets.values())) {
-      if (bet.status === "PENDING") {
-        let allSelectionsWon = true;
-        let hasAnyPush = false;
-
-        for (const selection of Array.from(this.betSelections.values()).filter(selection => selection.betId === bet.id)) {
-          const market = this.markets.get(selection.marketId);
-          if (!market) continue;
-
-          if (market.matchId === matchId) {
-            const isWinner = isBetWinner(
-              market.type,
-              match.homeScore,
-              match.awayScore,
-              match.htHomeScore || 0,
-              match.htAwayScore || 0
-            );
-
-            const isPush = isBetPush(market.type, match.homeScore, match.awayScore);
-
-            if (isPush) {
-              hasAnyPush = true;
-            } else if (!isWinner) {
-              allSelectionsWon = false;
-              break;
-            }
-          }
-        }
+    return result;
+  }
 
-        if (allSelectionsWon) {
-          if (hasAnyPush) {
-            this.resolveBet(bet.id, "PUSH");
-          } else {
-            this.resolveBet(bet.id, "WON");
-          }
-        } else {
-          this.resolveBet(bet.id, "LOST");
-        }
+  async getMatchesWithDetails(): Promise<MatchWithTeamsAndMarkets[]> {
+    return this.withDetails(await this.getMatches());
+  }
+
+  async getMatch(id: number): Promise<Match | undefined> {
+    const [match] = await this.db.select().from(matches).where(eq(matches.id, id));
+    return match;
+  }
+
+  async getMatchWithDetails(id: number): Promise<MatchWithTeamsAndMarkets | undefined> {
+    const match = await this.getMatch(id);
+    if (!match) return undefined;
+
+    const [details] = await this.withDetails([match]);
+    return details;
+  }
+
+  async createMatch(insertMatch: InsertMatch): Promise<Match> {
+    return this.insertMatch(this.db, insertMatch);
+  }
+
+  async createMatchWithMarkets(insertMatch: InsertMatch, insertMarkets: Omit<InsertMarket, "matchId">[]): Promise<Match> {
+    return this.db.transaction(async (tx) => {
+      const match = await this.insertMatch(tx, insertMatch);
+      if (insertMarkets.length > 0) {
+        await tx.insert(markets).values(insertMarkets.map((market) => withMarketSpec({ ...market, matchId: match.id })));
       }
+      return match;
+    });
+  }
+
+  private async insertMatch(tx: Database | DbTransaction, insertMatch: InsertMatch): Promise<Match> {
+    const [match] = await tx.insert(matches).values({
+      ...insertMatch,
+      homeTeamId: insertMatch.homeTeamId ?? null,
+      awayTeamId: insertMatch.awayTeamId ?? null,
+      homeTeamName: insertMatch.homeTeamName || null,
+      awayTeamName: insertMatch.awayTeamName || null,
+      homeTeamLogo: insertMatch.homeTeamLogo || null,
+      awayTeamLogo: insertMatch.awayTeamLogo || null
+    }).returning();
+    return match;
+  }
+
+  async updateMatchStatus(
+    id: number, 
+    status: string, 
+    homeScore?: number, 
+    awayScore?: number,
+    htHomeScore?: number | null,
+    htAwayScore?: number | null,
+    fromStatus?: string
+  ): Promise<Match | undefined> {
+    const [match] = await this.db.update(matches)
+      .set({ status, homeScore, awayScore, htHomeScore, htAwayScore })
+      .where(this.matchWithStatus(id, fromStatus))
+      .returning();
+    if (!match) return undefined;
+
+    if (isMatchSettled(status)) {
+      await this.resolveBetsForMatch(id);
     }
+
+    return match;
   }
 
-  async deleteBet(id: number): Promise<boolean> {
-    const bet = this.bets.get(id);
-    if (!bet) return false;
-    this.bets.delete(id);
-    return true;
+  async updateMatchClock(id: number, clock: MatchClock, fromStatus?: string): Promise<Match | undefined> {
+    const [match] = await this.db.update(matches).set(clock).where(this.matchWithStatus(id, fromStatus)).returning();
+    return match;
+  }
+
+  // Condition for a compare-and-set update: the match, if it still has the expected status
+  private matchWithStatus(id: number, fromStatus?: string): SQL | undefined {
+    return fromStatus ? and(eq(matches.id, id), eq(matches.status, fromStatus)) : eq(matches.id, id);
+  }
+
+  async updateMatchTieScore(id: number, tieScore: MatchTieScore): Promise<Match | undefined> {
+    const [match] = await this.db.update(matches).set(tieScore).where(eq(matches.id, id)).returning();
+    return match;
   }
 
-  // Initialize default data
-  private async initializeDefaultData() {
-    // Create a default user
-    await this.createUser({
-      username: "user",
-      password: "password",
-      balance: 10000
+  async deleteMatch(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Delete associated markets and events first
+      await tx.delete(markets).where(eq(markets.matchId, id));
+      await tx.delete(matchEvents).where(eq(matchEvents.matchId, id));
+      const deleted = await tx.delete(matches).where(eq(matches.id, id)).returning({ id: matches.id });
+      return deleted.length > 0;
     });
+  }
 
-    // Create countries and leagues - Add new continents and countries
-    const countries = [
-      // Europe
-      { name: "Romania", code: "ro", continent: "Europe", leagues: ["Liga 1", "Liga 2", "Cupa României", "Supercupa României"] },
-      { name: "Portugal", code: "pt", continent: "Europe", leagues: ["Primeira Liga", "Liga Portugal 2", "Taça de Portugal"] },
-      { name: "Spain", code: "es", continent: "Europe", leagues: ["La Liga", "La Liga 2", "Copa del Rey"] },
-      { name: "England", code: "gb-eng", continent: "Europe", leagues: ["Premier League", "Championship", "FA Cup"] },
-      { name: "Italy", code: "it", continent: "Europe", leagues: ["Serie A", "Serie B", "Coppa Italia"] },
-      { name: "Germany", code: "de", continent: "Europe", leagues: ["Bundesliga", "2. Bundesliga", "DFB-Pokal"] },
-      { name: "France", code: "fr", continent: "Europe", leagues: ["Ligue 1", "Ligue 2", "Coupe de France"] },
-      { name: "Austria", code: "at", continent: "Europe", leagues: ["Bundesliga", "2. Liga", "ÖFB-Cup"] },
-      { name: "Netherlands", code: "nl", continent: "Europe", leagues: ["Eredivisie", "Eerste Divisie", "KNVB Cup"] },
-      { name: "Belgium", code: "be", continent: "Europe", leagues: ["Pro League", "Challenger Pro League", "Belgian Cup"] },
-      { name: "Andorra", code: "ad", continent: "Europe", leagues: ["Primera Divisió"] },
-      { name: "Norway", code: "no", continent: "Europe", leagues: ["Eliteserien", "OBOS-ligaen", "Norwegian Cup"] },
-
-      // Baltic Countries
-      { name: "Latvia", code: "lv", continent: "Europe", leagues: ["Optibet Virslīga", "1. līga", "Latvian Cup"] },
-      { name: "Estonia", code: "ee", continent: "Europe", leagues: ["Meistriliiga", "Esiliiga", "Estonian Cup"] },
-      { name: "Lithuania", code: "lt", continent: "Europe", leagues: ["A Lyga", "1 Lyga", "Lithuanian Cup"] },
-
-      // Balkans
-      { name: "Croatia", code: "hr", continent: "Europe", leagues: ["HNL", "Druga HNL", "Croatian Cup"] },
-      { name: "Serbia", code: "rs", continent: "Europe", leagues: ["SuperLiga", "Prva Liga Srbije", "Serbian Cup"] },
-      { name: "Slovenia", code: "si", continent: "Europe", leagues: ["PrvaLiga", "Druga Liga", "Slovenian Cup"] },
-      { name: "North Macedonia", code: "mk", continent: "Europe", leagues: ["First League", "Second League", "Macedonian Cup"] },
-      { name: "Montenegro", code: "me", continent: "Europe", leagues: ["First League", "Second League", "Montenegrin Cup"] },
-      { name: "Bosnia and Herzegovina", code: "ba", continent: "Europe", leagues: ["Premier League", "First League FBiH", "Bosnian Cup"] },
-      { name: "Albania", code: "al", continent: "Europe", leagues: ["Kategoria Superiore", "Kategoria e Parë", "Albanian Cup"] },
-      { name: "Kosovo", code: "xk", continent: "Europe", leagues: ["Football Superleague", "First League", "Kosovar Cup"] },
-
-      // Other European Countries
-      { name: "Czech Republic", code: "cz", continent: "Europe", leagues: ["Fortuna Liga", "Fortuna:Národní Liga", "Czech Cup"] },
-      { name: "Slovakia", code: "sk", continent: "Europe", leagues: ["Fortuna Liga", "2. Liga", "Slovak Cup"] },
-      { name: "Poland", code: "pl", continent: "Europe", leagues: ["Ekstraklasa", "I Liga", "Polish Cup"] },
-      { name: "Hungary", code: "hu", continent: "Europe", leagues: ["OTP Bank Liga", "NB II", "Hungarian Cup"] },
-      { name: "Bulgaria", code: "bg", continent: "Europe", leagues: ["First League", "Second League", "Bulgarian Cup"] },
-      { name: "Moldova", code: "md", continent: "Europe", leagues: ["Divizia Naţională", "Divizia A", "Moldovan Cup"] },
-      { name: "Belarus", code: "by", continent: "Europe", leagues: ["Vysshaya Liga", "Pervaya Liga", "Belarusian Cup"] },
-      { name: "Ukraine", code: "ua", continent: "Europe", leagues: ["Premier League", "First League", "Ukrainian Cup"] },
-      { name: "Finland", code: "fi", continent: "Europe", leagues: ["Veikkausliiga", "Ykkönen", "Finnish Cup"] },
-      { name: "Sweden", code: "se", continent: "Europe", leagues: ["Allsvenskan", "Superettan", "Svenska Cupen"] },
-      { name: "Denmark", code: "dk", continent: "Europe", leagues: ["Superliga", "NordicBet Liga", "Danish Cup"] },
-      { name: "Iceland", code: "is", continent: "Europe", leagues: ["Úrvalsdeild", "1. deild", "Icelandic Cup"] },
-
-      // South America
-      { name: "Brazil", code: "br", continent: "South America", leagues: ["Serie A", "Serie B", "Copa do Brasil"] },
-      { name: "Argentina", code: "ar", continent: "South America", leagues: ["Primera División", "Primera Nacional", "Copa Argentina"] },
-      { name: "Colombia", code: "co", continent: "South America", leagues: ["Categoría Primera A", "Categoría Primera B", "Copa Colombia"] },
-
-      // North America
-      { name: "United States", code: "us", continent: "North America", leagues: ["MLS", "USL Championship", "US Open Cup"] },
-      { name: "Mexico", code: "mx", continent: "North America", leagues: ["Liga MX", "Liga de Expansión MX", "Copa MX"] },
-
-      // Asia
-      { name: "Japan", code: "jp", continent: "Asia", leagues: ["J1 League", "J2 League", "Emperor's Cup"] },
-      { name: "South Korea", code: "kr", continent: "Asia", leagues: ["K League 1", "K League 2", "Korean FA Cup"] },
-      { name: "China", code: "cn", continent: "Asia", leagues: ["Chinese Super League", "China League One", "Chinese FA Cup"] },
-
-      // Africa
-      { name: "Egypt", code: "eg", continent: "Africa", leagues: ["Egyptian Premier League", "Egypt Cup"] },
-      { name: "South Africa", code: "za", continent: "Africa", leagues: ["Premier Soccer League", "National First Division"] },
-      { name: "Morocco", code: "ma", continent: "Africa", leagues: ["Botola Pro", "Botola 2"] },
-
-      // eSports
-      { name: "Global", code: "global", continent: "eSports", leagues: ["Call of Duty League", "Halo Championship Series", "League of Legends World Championship"] }
-    ];
-
-    // Create leagues
-    for (const country of countries) {
-      for (const leagueName of country.leagues) {
-        await this.createLeague({
-          name: leagueName,
-          country: country.name,
-          isActive: true
-        });
-      }
-    }
+  // Match event methods
+  async getMatchEvents(matchId: number): Promise<MatchEvent[]> {
+    return this.db.select().from(matchEvents)
+      .where(eq(matchEvents.matchId, matchId))
+      .orderBy(asc(matchEvents.minute), asc(matchEvents.id));
+  }
 
-    // Create teams
-    const romanianTeams = [
-      { name: "FCSB", shortName: "FCSB", country: "Romania" },
-      { name: "CFR Cluj", shortName: "CFR", country: "Romania" },
-      { name: "Universitatea Craiova", shortName: "UCR", country: "Romania" },
-      { name: "Rapid București", shortName: "RPD", country: "Romania" },
-      { name: "FC Urziceni", shortName: "FCU", country: "Romania" },
-      { name: "Dinamo București", shortName: "DIN", country: "Romania" },
-      { name: "FC Argeș", shortName: "ARG", country: "Romania" },
-      { name: "Petrolul Ploiești", shortName: "PET", country: "Romania" },
-      { name: "FC Botoșani", shortName: "FCB", country: "Romania" },
-      { name: "Farul Constanța", shortName: "FAR", country: "Romania" },
-      { name: "UTA Arad", shortName: "UTA", country: "Romania" },
-      { name: "Sepsi OSK", shortName: "SEP", country: "Romania" },
-      { name: "FC Voluntari", shortName: "VOL", country: "Romania" },
-      { name: "Gloria Buzău", shortName: "GLO", country: "Romania" },
-      { name: "Unirea Urziceni", shortName: "UNR", country: "Romania" },
-      { name: "CS Mioveni", shortName: "MIO", country: "Romania" }
-    ];
-
-    const portugueseTeams = [
-      { name: "Sporting CP", shortName: "SCP", country: "Portugal" },
-      { name: "SL Benfica", shortName: "SLB", country: "Portugal" },
-      { name: "FC Porto", shortName: "FCP", country: "Portugal" },
-      { name: "SC Braga", shortName: "SCB", country: "Portugal" },
-      { name: "Vitória de Guimarães", shortName: "VIT", country: "Portugal" },
-      { name: "Boavista FC", shortName: "BOA", country: "Portugal" },
-      { name: "Marítimo", shortName: "MAR", country: "Portugal" },
-      { name: "Gil Vicente FC", shortName: "GIL", country: "Portugal" },
-      { name: "FC Famalicão", shortName: "FAM", country: "Portugal" },
-      { name: "Portimonense", shortName: "POR", country: "Portugal" },
-      { name: "Rio Ave FC", shortName: "RIO", country: "Portugal" },
-      { name: "Belenenses SAD", shortName: "BEL", country: "Portugal" },
-      { name: "Santa Clara", shortName: "SCL", country: "Portugal" },
-      { name: "Moreirense FC", shortName: "MOR", country: "Portugal" },
-      { name: "Paços de Ferreira", shortName: "PAC", country: "Portugal" },
-      { name: "Estoril Praia", shortName: "EST", country: "Portugal" }
-    ];
-
-    const spanishTeams = [
-      { name: "Real Madrid", shortName: "RMD", country: "Spain" },
-      { name: "Barcelona", shortName: "BAR", country: "Spain" },
-      { name: "Atlético Madrid", shortName: "ATM", country: "Spain" },
-      { name: "Sevilla FC", shortName: "SEV", country: "Spain" },
-      { name: "Real Sociedad", shortName: "SOC", country: "Spain" },
-      { name: "Real Betis", shortName: "BET", country: "Spain" },
-      { name: "Villarreal CF", shortName: "VIL", country: "Spain" },
-      { name: "Athletic Bilbao", shortName: "ATH", country: "Spain" },
-      { name: "Valencia CF", shortName: "VAL", country: "Spain" },
-      { name: "Celta Vigo", shortName: "CEL", country: "Spain" },
-      { name: "RCD Espanyol", shortName: "ESP", country: "Spain" },
-      { name: "Getafe CF", shortName: "GET", country: "Spain" },
-      { name: "Levante UD", shortName: "LEV", country: "Spain" },
-      { name: "Granada CF", shortName: "GRA", country: "Spain" },
-      { name: "Osasuna", shortName: "OSA", country: "Spain" },
-      { name: "Mallorca", shortName: "MAL", country: "Spain" },
-      { name: "Cádiz CF", shortName: "CAD", country: "Spain" },
-      { name: "Rayo Vallecano", shortName: "RAY", country: "Spain" },
-      { name: "Elche CF", shortName: "ELC", country: "Spain" },
-      { name: "Alavés", shortName: "ALA", country: "Spain" }
-    ];
-
-    const englishTeams = [
-      { name: "Manchester City", shortName: "MCI", country: "England" },
-      { name: "Liverpool", shortName: "LIV", country: "England" },
-      { name: "Chelsea", shortName: "CHE", country: "England" },
-      { name: "Arsenal", shortName: "ARS", country: "England" },
-      { name: "Tottenham Hotspur", shortName: "TOT", country: "England" },
-      { name: "Manchester United", shortName: "MUN", country: "England" },
-      { name: "West Ham United", shortName: "WHU", country: "England" },
-      { name: "Leicester City", shortName: "LEI", country: "England" },
-      { name: "Brighton", shortName: "BHA", country: "England" },
-      { name: "Wolverhampton", shortName: "WOL", country: "England" },
-      { name: "Newcastle United", shortName: "NEW", country: "England" },
-      { name: "Crystal Palace", shortName: "CRY", country: "England" },
-      { name: "Brentford", shortName: "BRE", country: "England" },
-      { name: "Aston Villa", shortName: "AVL", country: "England" },
-      { name: "Southampton", shortName: "SOU", country: "England" },
-      { name: "Everton", shortName: "EVE", country: "England" },
-      { name: "Leeds United", shortName: "LEE", country: "England" },
-      { name: "Burnley", shortName: "BUR", country: "England" },
-      { name: "Watford", shortName: "WAT", country: "England" },
-      { name: "Norwich City", shortName: "NOR", country: "England" }
-    ];
-
-    const italianTeams = [
-      { name: "Internazionale", shortName: "INT", country: "Italy" },
-      { name: "AC Milan", shortName: "MIL", country: "Italy" },
-      { name: "Napoli", shortName: "NAP", country: "Italy" },
-      { name: "Juventus", shortName: "JUV", country: "Italy" },
-      { name: "Atalanta", shortName: "ATA", country: "Italy" },
-      { name: "Roma", shortName: "ROM", country: "Italy" },
-      { name: "Lazio", shortName: "LAZ", country: "Italy" },
-      { name: "Fiorentina", shortName: "FIO", country: "Italy" },
-      { name: "Verona", shortName: "VER", country: "Italy" },
-      { name: "Torino", shortName: "TOR", country: "Italy" },
-      { name: "Sassuolo", shortName: "SAS", country: "Italy" },
-      { name: "Udinese", shortName: "UDI", country: "Italy" },
-      { name: "Bologna", shortName: "BOL", country: "Italy" },
-      { name: "Empoli", shortName: "EMP", country: "Italy" },
-      { name: "Sampdoria", shortName: "SAM", country: "Italy" },
-      { name: "Spezia", shortName: "SPE", country: "Italy" },
-      { name: "Cagliari", shortName: "CAG", country: "Italy" },
-      { name: "Venezia", shortName: "VEN", country: "Italy" },
-      { name: "Genoa", shortName: "GEN", country: "Italy" },
-      { name: "Salernitana", shortName: "SAL", country: "Italy" }
-    ];
-
-    const germanTeams = [
-      { name: "Bayern Munich", shortName: "BAY", country: "Germany" },
-      { name: "Borussia Dortmund", shortName: "BVB", country: "Germany" },
-      { name: "Bayer Leverkusen", shortName: "B04", country: "Germany" },
-      { name: "RB Leipzig", shortName: "RBL", country: "Germany" },
-      { name: "Borussia Mönchengladbach", shortName: "BMG", country: "Germany" },
-      { name: "Eintracht Frankfurt", shortName: "SGE", country: "Germany" },
-      { name: "Wolfsburg", shortName: "WOB", country: "Germany" },
-      { name: "Mainz 05", shortName: "M05", country: "Germany" },
-      { name: "1. FC Köln", shortName: "KOE", country: "Germany" },
-      { name: "Union Berlin", shortName: "FCU", country: "Germany" },
-      { name: "Freiburg", shortName: "SCF", country: "Germany" },
-      { name: "Hoffenheim", shortName: "TSG", country: "Germany" },
-      { name: "VfB Stuttgart", shortName: "VFB", country: "Germany" },
-      { name: "Hertha Berlin", shortName: "BSC", country: "Germany" },
-      { name: "Augsburg", shortName: "FCA", country: "Germany" },
-      { name: "Arminia Bielefeld", shortName: "DSC", country: "Germany" },
-      { name: "Werder Bremen", shortName: "SVW", country: "Germany" },
-      { name: "Schalke 04", shortName: "S04", country: "Germany" }
-    ];
-
-    const frenchTeams = [
-      { name: "Paris Saint-Germain", shortName: "PSG", country: "France" },
-      { name: "Lille", shortName: "LIL", country: "France" },
-      { name: "Monaco", shortName: "MON", country: "France" },
-      { name: "Lyon", shortName: "OL", country: "France" },
-      { name: "Marseille", shortName: "OM", country: "France" },
-      { name: "Rennes", shortName: "REN", country: "France" },
-      { name: "Lens", shortName: "LEN", country: "France" },
-      { name: "Nice", shortName: "NIC", country: "France" },
-      { name: "Montpellier", shortName: "MTP", country: "France" },
-      { name: "Strasbourg", shortName: "RCS", country: "France" },
-      { name: "Angers", shortName: "ANG", country: "France" },
-      { name: "Nantes", shortName: "FCN", country: "France" },
-      { name: "Reims", shortName: "SDR", country: "France" },
-      { name: "Brest", shortName: "BST", country: "France" },
-      { name: "Bordeaux", shortName: "BOR", country: "France" },
-      { name: "Saint-Etienne", shortName: "ASSE", country: "France" },
-      { name: "Lorient", shortName: "LOR", country: "France" },
-      { name: "Troyes", shortName: "TRO", country: "France" },
-      { name: "Metz", shortName: "MET", country: "France" },
-      { name: "Clermont Foot", shortName: "CF63", country: "France" }
-    ];
-
-    const austrianTeams = [
-      { name: "RB Salzburg", shortName: "RBS", country: "Austria" },
-      { name: "Sturm Graz", shortName: "STU", country: "Austria" },
-      { name: "Rapid Wien", shortName: "RAP", country: "Austria" },
-      { name: "LASK Linz", shortName: "LASK", country: "Austria" },
-      { name: "Wolfsberger AC", shortName: "WAC", country: "Austria" },
-      { name: "Austria Wien", shortName: "FAK", country: "Austria" },
-      { name: "Hartberg", shortName: "HTB", country: "Austria" },
-      { name: "Austria Klagenfurt", shortName: "KLA", country: "Austria" },
-      { name: "WSG Tirol", shortName: "WSG", country: "Austria" },
-      { name: "Altach", shortName: "ALT", country: "Austria" },
-      { name: "Admira Wacker", shortName: "ADM", country: "Austria" },
-      { name: "SV Ried", shortName: "RIE", country: "Austria" }
-    ];
-
-    // Create European teams
-    const europeanTeams = [
-      // Norway
-      { name: "Bodø/Glimt", shortName: "BOD", country: "Norway", league: "Eliteserien" },
-      { name: "Molde", shortName: "MOL", country: "Norway", league: "Eliteserien" },
-      { name: "Brann", shortName: "BRA", country: "Norway", league: "Eliteserien" },
-      { name: "Viking", shortName: "VIK", country: "Norway", league: "Eliteserien" },
-      { name: "Tromsø", shortName: "TRO", country: "Norway", league: "Eliteserien" },
-      { name: "Lillestrøm", shortName: "LSK", country: "Norway", league: "Eliteserien" },
-      { name: "Rosenborg", shortName: "RBK", country: "Norway", league: "Eliteserien" },
-      { name: "Vålerenga", shortName: "VIF", country: "Norway", league: "Eliteserien" },
-      { name: "Strømsgodset", shortName: "SIF", country: "Norway", league: "Eliteserien" },
-      { name: "HamKam", shortName: "HAM", country: "Norway", league: "Eliteserien" },
-      { name: "Haugesund", shortName: "FKH", country: "Norway", league: "Eliteserien" },
-      { name: "Sandefjord", shortName: "SAN", country: "Norway", league: "Eliteserien" },
-      { name: "Fredrikstad", shortName: "FFK", country: "Norway", league: "Eliteserien" },
-      { name: "KFUM Oslo", shortName: "KFU", country: "Norway", league: "Eliteserien" },
-      { name: "Kristiansund", shortName: "KBK", country: "Norway", league: "Eliteserien" },
-      { name: "Aalesund", shortName: "AaFK", country: "Norway", league: "Eliteserien" },
-
-      // Andorra
-      { name: "FC Andorra", shortName: "AND", country: "Andorra", league: "Primera Divisió" },
-      { name: "Inter Club d'Escaldes", shortName: "ICE", country: "Andorra", league: "Primera Divisió" },
-      { name: "UE Santa Coloma", shortName: "USC", country: "Andorra", league: "Primera Divisió" },
-      { name: "UE Engordany", shortName: "ENG", country: "Andorra", league: "Primera Divisió" },
-      { name: "FC Santa Coloma", shortName: "FSC", country: "Andorra", league: "Primera Divisió" },
-      { name: "Atlètic Club d'Escaldes", shortName: "ACE", country: "Andorra", league: "Primera Divisió" },
-      { name: "CE Carroi", shortName: "CAR", country: "Andorra", league: "Primera Divisió" },
-      { name: "Penya Encarnada", shortName: "PEN", country: "Andorra", league: "Primera Divisió" },
-
-      // Croatia
-      { name: "Dinamo Zagreb", shortName: "DZG", country: "Croatia", league: "HNL" },
-      { name: "Hajduk Split", shortName: "HAJ", country: "Croatia", league: "HNL" },
-      { name: "Rijeka", shortName: "RIJ", country: "Croatia", league: "HNL" },
-      { name: "Osijek", shortName: "OSI", country: "Croatia", league: "HNL" },
-      { name: "Lokomotiva Zagreb", shortName: "LOK", country: "Croatia", league: "HNL" },
-      { name: "Gorica", shortName: "GOR", country: "Croatia", league: "HNL" },
-      { name: "Varaždin", shortName: "VAR", country: "Croatia", league: "HNL" },
-      { name: "Šibenik", shortName: "SIB", country: "Croatia", league: "HNL" },
-      { name: "Istra 1961", shortName: "IST", country: "Croatia", league: "HNL" },
-      { name: "Slaven Belupo", shortName: "SLB", country: "Croatia", league: "HNL" },
-
-      // Serbia
-      { name: "Red Star Belgrade", shortName: "CZV", country: "Serbia", league: "SuperLiga" },
-      { name: "Partizan Belgrade", shortName: "PAR", country: "Serbia", league: "SuperLiga" },
-      { name: "FK TSC", shortName: "TSC", country: "Serbia", league: "SuperLiga" },
-      { name: "Vojvodina", shortName: "VOJ", country: "Serbia", league: "SuperLiga" },
-      { name: "Čukarički", shortName: "CUK", country: "Serbia", league: "SuperLiga" },
-      { name: "Radnički Niš", shortName: "RAD", country: "Serbia", league: "SuperLiga" },
-      { name: "Novi Pazar", shortName: "NOP", country: "Serbia", league: "SuperLiga" },
-      { name: "Spartak Subotica", shortName: "SPA", country: "Serbia", league: "SuperLiga" },
-      { name: "Javor Ivanjica", shortName: "JAV", country: "Serbia", league: "SuperLiga" },
-      { name: "Mladost Lučani", shortName: "MLA", country: "Serbia", league: "SuperLiga" },
-
-      // Latvia
-      { name: "Riga FC", shortName: "RIG", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "FK Liepāja", shortName: "LIE", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "Valmiera FC", shortName: "VAL", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "FK Jelgava", shortName: "JEL", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "FK Ventspils", shortName: "VEN", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "FK Daugavpils", shortName: "DAU", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "Metta/LU", shortName: "MET", country: "Latvia", league: "Optibet Virslīga" },
-      { name: "FK Auda", shortName: "AUD", country: "Latvia", league: "Optibet Virslīga" },
-
-      // Estonia
-      { name: "Flora Tallinn", shortName: "FLO", country: "Estonia", league: "Meistriliiga" },
-      { name: "FCI Levadia", shortName: "LEV", country: "Estonia", league: "Meistriliiga" },
-      { name: "Paide Linnameeskond", shortName: "PAI", country: "Estonia", league: "Meistriliiga" },
-      { name: "FC Trans", shortName: "TRA", country: "Estonia", league: "Meistriliiga" },
-      { name: "Nõmme Kalju", shortName: "KAL", country: "Estonia", league: "Meistriliiga" },
-      { name: "Tulevik Viljandi", shortName: "TUL", country: "Estonia", league: "Meistriliiga" },
-      { name: "Tallinna Kalev", shortName: "TKA", country: "Estonia", league: "Meistriliiga" },
-      { name: "FC Kuressaare", shortName: "KUR", country: "Estonia", league: "Meistriliiga" },
-
-      // Lithuania
-      { name: "FK Žalgiris", shortName: "ZAL", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Sūduva", shortName: "SUD", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Kauno Žalgiris", shortName: "KZA", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Panevėžys", shortName: "PAN", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Džiugas", shortName: "DZI", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Banga", shortName: "BAN", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Hegelmann", shortName: "HEG", country: "Lithuania", league: "A Lyga" },
-      { name: "FK Jonava", shortName: "JON", country: "Lithuania", league: "A Lyga" },
-
-      // Slovenia
-      { name: "NK Maribor", shortName: "MAR", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Olimpija Ljubljana", shortName: "OLI", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Celje", shortName: "CEL", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Koper", shortName: "KOP", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Mura", shortName: "MUR", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Bravo", shortName: "BRA", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Domžale", shortName: "DOM", country: "Slovenia", league: "PrvaLiga" },
-      { name: "NK Radomlje", shortName: "RAD", country: "Slovenia", league: "PrvaLiga" },
-
-      // North Macedonia
-      { name: "FK Vardar", shortName: "VAR", country: "North Macedonia", league: "First League" },
-      { name: "FK Shkupi", shortName: "SKU", country: "North Macedonia", league: "First League" },
-      { name: "FK Sileks", shortName: "SIL", country: "North Macedonia", league: "First League" },
-      { name: "FK Renova", shortName: "REN", country: "North Macedonia", league: "First League" },
-      { name: "FK Akademija Pandev", shortName: "AKA", country: "North Macedonia", league: "First League" },
-      { name: "FK Struga", shortName: "STR", country: "North Macedonia", league: "First League" },
-      { name: "FK Pobeda", shortName: "POB", country: "North Macedonia", league: "First League" },
-      { name: "FK Skendija", shortName: "SKE", country: "North Macedonia", league: "First League" },
-    ];
-
-    // Create Dutch teams
-    const dutchTeams = [
-      { name: "Ajax", shortName: "AJX", country: "Netherlands", league: "Eredivisie" },
-      { name: "PSV Eindhoven", shortName: "PSV", country: "Netherlands", league: "Eredivisie" },
-      { name: "Feyenoord", shortName: "FEY", country: "Netherlands", league: "Eredivisie" },
-      { name: "AZ Alkmaar", shortName: "AZ", country: "Netherlands", league: "Eredivisie" },
-      { name: "FC Utrecht", shortName: "UTR", country: "Netherlands", league: "Eredivisie" },
-      { name: "Vitesse", shortName: "VIT", country: "Netherlands", league: "Eredivisie" },
-      { name: "FC Groningen", shortName: "GRO", country: "Netherlands", league: "Eredivisie" },
-      { name: "FC Twente", shortName: "TWE", country: "Netherlands", league: "Eredivisie" },
-      { name: "Heerenveen", shortName: "HEE", country: "Netherlands", league: "Eredivisie" },
-      { name: "Sparta Rotterdam", shortName: "SPA", country: "Netherlands", league: "Eredivisie" },
-      { name: "NEC Nijmegen", shortName: "NEC", country: "Netherlands", league: "Eredivisie" },
-      { name: "Fortuna Sittard", shortName: "FOR", country: "Netherlands", league: "Eredivisie" },
-      { name: "Go Ahead Eagles", shortName: "GAE", country: "Netherlands", league: "Eredivisie" },
-      { name: "FC Emmen", shortName: "EMM", country: "Netherlands", league: "Eredivisie" },
-      { name: "RKC Waalwijk", shortName: "RKC", country: "Netherlands", league: "Eredivisie" },
-      { name: "Cambuur", shortName: "CAM", country: "Netherlands", league: "Eredivisie" },
-      { name: "Willem II", shortName: "WIL", country: "Netherlands", league: "Eredivisie" },
-      { name: "PEC Zwolle", shortName: "PEC", country: "Netherlands", league: "Eredivisie" }
-    ];
-
-    // Create Belgian teams
-    const belgianTeams = [
-      { name: "Club Brugge", shortName: "BRU", country: "Belgium", league: "Pro League" },
-      { name: "Anderlecht", shortName: "AND", country: "Belgium", league: "Pro League" },
-      { name: "Standard Liège", shortName: "STL", country: "Belgium", league: "Pro League" },
-      { name: "Genk", shortName: "GNK", country: "Belgium", league: "Pro League" },
-      { name: "Gent", shortName: "GNT", country: "Belgium", league: "Pro League" },
-      { name: "Royal Antwerp", shortName: "ANT", country: "Belgium", league: "Pro League" },
-      { name: "Charleroi", shortName: "CHA", country: "Belgium", league: "Pro League" },
-      { name: "Mechelen", shortName: "MEC", country: "Belgium", league: "Pro League" },
-      { name: "Oostende", shortName: "OST", country: "Belgium", league: "Pro League" },
-      { name: "Cercle Brugge", shortName: "CER", country: "Belgium", league: "Pro League" },
-      { name: "Sint-Truiden", shortName: "STR", country: "Belgium", league: "Pro League" },
-      { name: "Union SG", shortName: "USG", country: "Belgium", league: "Pro League" },
-      { name: "Kortrijk", shortName: "KOR", country: "Belgium", league: "Pro League" },
-      { name: "Zulte Waregem", shortName: "ZUL", country: "Belgium", league: "Pro League" },
-      { name: "Beerschot", shortName: "BEE", country: "Belgium", league: "Pro League" },
-      { name: "Eupen", shortName: "EUP", country: "Belgium", league: "Pro League" }
-    ];
-
-    // Create Brazilian teams
-    const brazilianTeams = [
-      { name: "Flamengo", shortName: "FLA", country: "Brazil", league: "Serie A" },
-      { name: "Palmeiras", shortName: "PAL", country: "Brazil", league: "Serie A" },
-      { name: "Atlético Mineiro", shortName: "CAM", country: "Brazil", league: "Serie A" },
-      { name: "São Paulo", shortName: "SAO", country: "Brazil", league: "Serie A" },
-      { name: "Fluminense", shortName: "FLU", country: "Brazil", league: "Serie A" },
-      { name: "Internacional", shortName: "INT", country: "Brazil", league: "Serie A" },
-      { name: "Corinthians", shortName: "COR", country: "Brazil", league: "Serie A" },
-      { name: "Botafogo", shortName: "BOT", country: "Brazil", league: "Serie A" },
-      { name: "Grêmio", shortName: "GRE", country: "Brazil", league: "Serie A" },
-      { name: "Santos", shortName: "SAN", country: "Brazil", league: "Serie A" },
-      { name: "Athletico Paranaense", shortName: "CAP", country: "Brazil", league: "Serie A" },
-      { name: "Fortaleza", shortName: "FOR", country: "Brazil", league: "Serie A" },
-      { name: "Bahia", shortName: "BAH", country: "Brazil", league: "Serie A" },
-      { name: "Ceará", shortName: "CEA", country: "Brazil", league: "Serie A" },
-      { name: "Goiás", shortName: "GOI", country: "Brazil", league: "Serie A" },
-      { name: "Red Bull Bragantino", shortName: "RBB", country: "Brazil", league: "Serie A" },
-      { name: "Vasco da Gama", shortName: "VAS", country: "Brazil", league: "Serie A" },
-      { name: "Coritiba", shortName: "CFC", country: "Brazil", league: "Serie A" },
-      { name: "Cuiabá", shortName: "CUI", country: "Brazil", league: "Serie A" },
-      { name: "Juventude", shortName: "JUV", country: "Brazil", league: "Serie A" }
-    ];
-
-    // Create Argentinian teams
-    const argentinianTeams = [
-      { name: "Boca Juniors", shortName: "BOC", country: "Argentina", league: "Primera División" },
-      { name: "River Plate", shortName: "RIV", country: "Argentina", league: "Primera División" },
-      { name: "Racing Club", shortName: "RAC", country: "Argentina", league: "Primera División" },
-      { name: "Independiente", shortName: "IND", country: "Argentina", league: "Primera División" },
-      { name: "San Lorenzo", shortName: "SLO", country: "Argentina", league: "Primera División" },
-      { name: "Vélez Sarsfield", shortName: "VEL", country: "Argentina", league: "Primera División" },
-      { name: "Estudiantes", shortName: "EST", country: "Argentina", league: "Primera División" },
-      { name: "Rosario Central", shortName: "ROS", country: "Argentina", league: "Primera División" },
-      { name: "Newell's Old Boys", shortName: "NOB", country: "Argentina", league: "Primera División" },
-      { name: "Talleres", shortName: "TAL", country: "Argentina", league: "Primera División" },
-      { name: "Huracán", shortName: "HUR", country: "Argentina", league: "Primera División" },
-      { name: "Defensa y Justicia", shortName: "DYJ", country: "Argentina", league: "Primera División" },
-      { name: "Lanús", shortName: "LAN", country: "Argentina", league: "Primera División" },
-      { name: "Colón", shortName: "COL", country: "Argentina", league: "Primera División" },
-      { name: "Argentinos Juniors", shortName: "ARG", country: "Argentina", league: "Primera División" },
-      { name: "Gimnasia", shortName: "GIM", country: "Argentina", league: "Primera División" },
-      { name: "Unión", shortName: "UNI", country: "Argentina", league: "Primera División" },
-      { name: "Banfield", shortName: "BAN", country: "Argentina", league: "Primera División" },
-      { name: "Godoy Cruz", shortName: "GCR", country: "Argentina", league: "Primera División" },
-      { name: "Central Córdoba", shortName: "CCO", country: "Argentina", league: "Primera División" }
-    ];
-
-    // Create Colombian teams
-    const colombianTeams = [
-      { name: "Atlético Nacional", shortName: "NAC", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Millonarios", shortName: "MIL", country: "Colombia", league: "Categoría Primera A" },
-      { name: "América de Cali", shortName: "AME", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Deportivo Cali", shortName: "CAL", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Independiente Santa Fe", shortName: "SFE", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Junior", shortName: "JUN", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Once Caldas", shortName: "ONC", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Deportes Tolima", shortName: "TOL", country: "Colombia", league: "Categoría Primera A" },
-      { name: "La Equidad", shortName: "EQU", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Independiente Medellín", shortName: "DIM", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Envigado", shortName: "ENV", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Atlético Bucaramanga", shortName: "BUC", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Deportivo Pasto", shortName: "PAS", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Jaguares de Córdoba", shortName: "JAG", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Patriotas", shortName: "PAT", country: "Colombia", league: "Categoría Primera A" },
-      { name: "Águilas Doradas", shortName: "AGD", country: "Colombia", league: "Categoría Primera A" }
-    ];
-
-    // Create teams from United States (MLS)
-    const usTeams = [
-      { name: "Atlanta United", shortName: "ATL", country: "United States", league: "MLS" },
-      { name: "Austin FC", shortName: "ATX", country: "United States", league: "MLS" },
-      { name: "Charlotte FC", shortName: "CLT", country: "United States", league: "MLS" },
-      { name: "Chicago Fire", shortName: "CHI", country: "United States", league: "MLS" },
-      { name: "FC Cincinnati", shortName: "CIN", country: "United States", league: "MLS" },
-      { name: "Colorado Rapids", shortName: "COL", country: "United States", league: "MLS" },
-      { name: "Columbus Crew", shortName: "CLB", country: "United States", league: "MLS" },
-      { name: "D.C. United", shortName: "DC", country: "United States", league: "MLS" },
-      { name: "FC Dallas", shortName: "DAL", country: "United States", league: "MLS" },
-      { name: "Houston Dynamo", shortName: "HOU", country: "United States", league: "MLS" },
-      { name: "Sporting Kansas City", shortName: "SKC", country: "United States", league: "MLS" },
-      { name: "LA Galaxy", shortName: "LA", country: "United States", league: "MLS" },
-      { name: "Los Angeles FC", shortName: "LAFC", country: "United States", league: "MLS" },
-      { name: "Inter Miami", shortName: "MIA", country: "UnitedStates", league: "MLS" },
-      { name: "Minnesota United", shortName: "MIN", country: "United States", league: "MLS" },
-      { name: "CF Montréal", shortName: "MTL", country: "United States", league: "MLS" },
-      { name: "Nashville SC", shortName: "NSH", country: "United States", league: "MLS" },
-      { name: "New England Revolution", shortName: "NE", country: "United States", league: "MLS" },
-      { name: "New York City FC", shortName: "NYC", country: "United States", league: "MLS" },
-      { name: "New York Red Bulls", shortName: "RBNY", country: "United States", league: "MLS" },
-      { name: "Orlando City", shortName: "ORL", country: "United States", league: "MLS" },
-      { name: "Philadelphia Union", shortName: "PHI", country: "United States", league: "MLS" },
-      { name: "Portland Timbers", shortName: "POR", country: "United States", league: "MLS" },
-      { name: "Real Salt Lake", shortName: "RSL", country: "United States", league: "MLS" },
-      { name: "San Jose Earthquakes", shortName: "SJ", country: "United States", league: "MLS" },
-      { name: "Seattle Sounders", shortName: "SEA", country: "United States", league: "MLS" },
-      { name: "Toronto FC", shortName: "TOR", country: "United States", league: "MLS" },
-      { name: "Vancouver Whitecaps", shortName: "VAN", country: "United States", league: "MLS" }
-    ];
-
-    // Create Mexican teams
-    const mexicanTeams = [
-      { name: "América", shortName: "AME", country: "Mexico", league: "Liga MX" },
-      { name: "Guadalajara", shortName: "GDL", country: "Mexico", league: "Liga MX" },
-      { name: "Cruz Azul", shortName: "CAZ", country: "Mexico", league: "Liga MX" },
-      { name: "UNAM Pumas", shortName: "PUM", country: "Mexico", league: "Liga MX" },
-      { name: "Tigres UANL", shortName: "TIG", country: "Mexico", league: "Liga MX" },
-      { name: "Monterrey", shortName: "MTY", country: "Mexico", league: "Liga MX" },
-      { name: "Santos Laguna", shortName: "SAN", country: "Mexico", league: "Liga MX" },
-      { name: "Toluca", shortName: "TOL", country: "Mexico", league: "Liga MX" },
-      { name: "León", shortName: "LEO", country: "Mexico", league: "Liga MX" },
-      { name: "Atlas", shortName: "ATL", country: "Mexico", league: "Liga MX" },
-      { name: "Tijuana", shortName: "TIJ", country: "Mexico", league: "Liga MX" },
-      { name: "Pachuca", shortName: "PAC", country: "Mexico", league: "Liga MX" },
-      { name: "Querétaro", shortName: "QRO", country: "Mexico", league: "Liga MX" },
-      { name: "Puebla", shortName: "PUE", country: "Mexico", league: "Liga MX" },
-      { name: "Necaxa", shortName: "NEC", country: "Mexico", league: "Liga MX" },
-      { name: "Mazatlán", shortName: "MAZ", country: "Mexico", league: "Liga MX" },
-      { name: "Juárez", shortName: "JUA", country: "Mexico", league: "Liga MX" },
-      { name: "Atlético San Luis", shortName: "SL", country: "Mexico", league: "Liga MX" }
-    ];
-
-    // Create Japanese teams
-    const japaneseTeams = [
-      { name: "Kawasaki Frontale", shortName: "KAW", country: "Japan", league: "J1 League" },
-      { name: "Yokohama F. Marinos", shortName: "YFM", country: "Japan", league: "J1 League" },
-      { name: "Vissel Kobe", shortName: "VKO", country: "Japan", league: "J1 League" },
-      { name: "Urawa Red Diamonds", shortName: "URA", country: "Japan", league: "J1 League" },
-      { name: "Kashima Antlers", shortName: "KAS", country: "Japan", league: "J1 League" },
-      { name: "FC Tokyo", shortName: "FCT", country: "Japan", league: "J1 League" },
-      { name: "Cerezo Osaka", shortName: "COS", country: "Japan", league: "J1 League" },
-      { name: "Nagoya Grampus", shortName: "NAG", country: "Japan", league: "J1 League" },
-      { name: "Gamba Osaka", shortName: "GOS", country: "Japan", league: "J1 League" },
-      { name: "Sanfrecce Hiroshima", shortName: "SHI", country: "Japan", league: "J1 League" },
-      { name: "Kashiwa Reysol", shortName: "KRE", country: "Japan", league: "J1 League" },
-      { name: "Consadole Sapporo", shortName: "CSA", country: "Japan", league: "J1 League" },
-      { name: "Sagan Tosu", shortName: "STO", country: "Japan", league: "J1 League" },
-      { name: "Shimizu S-Pulse", shortName: "SSP", country: "Japan", league: "J1 League" },
-      { name: "Avispa Fukuoka", shortName: "AFU", country: "Japan", league: "J1 League" },
-      { name: "Shonan Bellmare", shortName: "SBE", country: "Japan", league: "J1 League" },
-      { name: "Jubilo Iwata", shortName: "JIW", country: "Japan", league: "J1 League" },
-      { name: "Kyoto Sanga", shortName: "KYO", country: "Japan", league: "J1 League" }
-    ];
-
-    // Create South Korean teams
-    const koreanTeams = [
-      { name: "Jeonbuk Hyundai Motors", shortName: "JEO", country: "South Korea", league: "K League 1" },
-      { name: "Ulsan Hyundai", shortName: "ULS", country: "South Korea", league: "K League 1" },
-      { name: "Pohang Steelers", shortName: "POH", country: "South Korea", league: "K League 1" },
-      { name: "FC Seoul", shortName: "SEO", country: "South Korea", league: "K League 1" },
-      { name: "Suwon Samsung Bluewings", shortName: "SSB", country: "South Korea", league: "K League 1" },
-      { name: "Daegu FC", shortName: "DAE", country: "South Korea", league: "K League 1" },
-      { name: "Jeju United", shortName: "JEJ", country: "South Korea", league: "K League 1" },
-      { name: "Incheon United", shortName: "INC", country: "South Korea", league: "K League 1" },
-      { name: "Suwon FC", shortName: "SFC", country: "South Korea", league: "K League 1" },
-      { name: "Gangwon FC", shortName: "GAN", country: "South Korea", league: "K League 1" },
-      { name: "Seongnam FC", shortName: "SEO", country: "South Korea", league: "K League 1" },
-      { name: "Gimcheon Sangmu", shortName: "GIM", country: "South Korea", league: "K League 1" }
-    ];
-
-    // Create Chinese teams
-    const chineseTeams = [
-      { name: "Shanghai Port", shortName: "SHP", country: "China", league: "Chinese Super League" },
-      { name: "Guangzhou FC", shortName: "GFC", country: "China", league: "Chinese Super League" },
-      { name: "Shandong Taishan", shortName: "SDT", country: "China", league: "Chinese Super League" },
-      { name: "Beijing Guoan", shortName: "BEI", country: "China", league: "Chinese Super League" },
-      { name: "Changchun Yatai", shortName: "CHA", country: "China", league: "Chinese Super League" },
-      { name: "Hebei FC", shortName: "HEB", country: "China", league: "Chinese Super League" },
-      { name: "Shanghai Shenhua", shortName: "SHS", country: "China", league: "Chinese Super League" },
-      { name: "Shenzhen FC", shortName: "SHE", country: "China", league: "Chinese Super League" },
-      { name: "Henan Songshan Longmen", shortName: "HEN", country: "China", league: "Chinese Super League" },
-      { name: "Cangzhou Mighty Lions", shortName: "CML", country: "China", league: "Chinese Super League" },
-      { name: "Guangzhou City", shortName: "GZC", country: "China", league: "Chinese Super League" },
-      { name: "Dalian Pro", shortName: "DAL", country: "China", league: "Chinese Super League" },
-      { name: "Wuhan FC", shortName: "WUH", country: "China", league: "Chinese Super League" },
-      { name: "Chongqing Liangjiang", shortName: "CQL", country: "China", league: "Chinese Super League" },
-      { name: "Tianjin Jinmen Tiger", shortName: "TJT", country: "China", league: "Chinese Super League" },
-      { name: "Qingdao FC", shortName: "QIN", country: "China", league: "Chinese Super League" }
-    ];
-
-    // Create Egyptian teams
-    const egyptianTeams = [
-      { name: "Al Ahly", shortName: "AHL", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Zamalek", shortName: "ZAM", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Pyramids FC", shortName: "PYR", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Ismaily", shortName: "ISM", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Al Masry", shortName: "MAS", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "El Gaish", shortName: "GAI", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "ENPPI", shortName: "ENP", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Misr El Makkasa", shortName: "MEM", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Al Ittihad", shortName: "ITT", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Smouha", shortName: "SMO", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "El Mokawloon", shortName: "MOK", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Ghazl El Mahalla", shortName: "GEM", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Ceramica Cleopatra", shortName: "CER", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Future FC", shortName: "FUT", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Pharco", shortName: "PHA", country: "Egypt", league: "Egyptian Premier League" },
-      { name: "Al Ahly Bank", shortName: "AAB", country: "Egypt", league: "Egyptian Premier League" }
-    ];
-
-    // Create South African teams
-    const southAfricanTeams = [
-      { name: "Mamelodi Sundowns", shortName: "SUN", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Kaizer Chiefs", shortName: "KCH", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Orlando Pirates", shortName: "OPR", country: "South Africa", league: "Premier Soccer League" },
-      { name: "SuperSport United", shortName: "SSU", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Cape Town City", shortName: "CTC", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Stellenbosch FC", shortName: "STE", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Royal AM", shortName: "RAM", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Sekhukhune United", shortName: "SEK", country: "South Africa", league: "Premier Soccer League" },
-      { name: "AmaZulu", shortName: "AMA", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Chippa United", shortName: "CHI", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Maritzburg United", shortName: "MAR", country: "South Africa", league: "Premier Soccer League" },
-      { name: "TS Galaxy", shortName: "TSG", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Swallows FC", shortName: "SWA", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Marumo Gallants", shortName: "MAG", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Richards Bay", shortName: "RIB", country: "South Africa", league: "Premier Soccer League" },
-      { name: "Golden Arrows", shortName: "GOA", country: "South Africa", league: "Premier Soccer League" }
-    ];
-
-    // Create Moroccan teams
-    const moroccanTeams = [
-      { name: "Wydad Casablanca", shortName: "WAC", country: "Morocco", league: "Botola Pro" },
-      { name: "Raja Casablanca", shortName: "RCA", country: "Morocco", league: "Botola Pro" },
-      { name: "RS Berkane", shortName: "RSB", country: "Morocco", league: "Botola Pro" },
-      { name: "FAR Rabat", shortName: "FAR", country: "Morocco", league: "Botola Pro" },
-      { name: "Moghreb Tétouan", shortName: "MAT", country: "Morocco", league: "Botola Pro" },
-      { name: "FUS Rabat", shortName: "FUS", country: "Morocco", league: "Botola Pro" },
-      { name: "Difaâ El Jadida", shortName: "DHJ", country: "Morocco", league: "Botola Pro" },
-      { name: "Mouloudia Oujda", shortName: "MCO", country: "Morocco", league: "Botola Pro" },
-      { name: "Olympic Safi", shortName: "OCS", country: "Morocco", league: "Botola Pro" },
-      { name: "Hassania Agadir", shortName: "HUSA", country: "Morocco", league: "Botola Pro" },
-      { name: "Ittihad Tanger", shortName: "IRT", country: "Morocco", league: "Botola Pro" },
-      { name: "Youssoufia Berrechid", shortName: "CAYB", country: "Morocco", league: "Botola Pro" },
-      { name: "Renaissance Zemamra", shortName: "RCAZ", country: "Morocco", league: "Botola Pro" },
-      { name: "Rapide Oued Zem", shortName: "RCOZ", country: "Morocco", league: "Botola Pro" },
-      { name: "Maghreb Fez", shortName: "MAS", country: "Morocco", league: "Botola Pro" },
-      { name: "Moghreb Athletic Tétouan", shortName: "MAT", country: "Morocco", league: "Botola Pro" }
-    ];
-
-    // Create Nordic teams
-    const nordicTeams = [
-      // Finland
-      { name: "HJK Helsinki", shortName: "HJK", country: "Finland", league: "Veikkausliiga" },
-      { name: "KuPS", shortName: "KuPS", country: "Finland", league: "Veikkausliiga" },
-      { name: "FC Inter Turku", shortName: "INT", country: "Finland", league: "Veikkausliiga" },
-      { name: "IFK Mariehamn", shortName: "IFK", country: "Finland", league: "Veikkausliiga" },
-
-      // Sweden
-      { name: "Malmö FF", shortName: "MFF", country: "Sweden", league: "Allsvenskan" },
-      { name: "AIK", shortName: "AIK", country: "Sweden", league: "Allsvenskan" },
-      { name: "Djurgårdens IF", shortName: "DIF", country: "Sweden", league: "Allsvenskan" },
-      { name: "Hammarby IF", shortName: "HIF", country: "Sweden", league: "Allsvenskan" },
-
-      // Denmark
-      { name: "FC Copenhagen", shortName: "FCK", country: "Denmark", league: "Superliga" },
-      { name: "FC Midtjylland", shortName: "FCM", country: "Denmark", league: "Superliga" },
-      { name: "Brøndby IF", shortName: "BIF", country: "Denmark", league: "Superliga" },
-      { name: "AGF", shortName: "AGF", country: "Denmark", league: "Superliga" },
-
-      // Iceland
-      { name: "KR Reykjavik", shortName: "KR", country: "Iceland", league: "Úrvalsdeild" },
-      { name: "Valur", shortName: "VAL", country: "Iceland", league: "Úrvalsdeild" },
-      { name: "FH Hafnarfjörður", shortName: "FH", country: "Iceland", league: "Úrvalsdeild" }
-    ];
-
-    // Create Eastern European teams
-    const easternEuropeanTeams = [
-      // Czech Republic
-      { name: "Slavia Prague", shortName: "SLA", country: "Czech Republic", league: "Fortuna Liga" },
-      { name: "Sparta Prague", shortName: "SPA", country: "Czech Republic", league: "Fortuna Liga" },
-      { name: "Viktoria Plzen", shortName: "PLZ", country: "Czech Republic", league: "Fortuna Liga" },
-
-      // Slovakia
-      { name: "Slovan Bratislava", shortName: "SLO", country: "Slovakia", league: "Fortuna Liga" },
-      { name: "Spartak Trnava", shortName: "TRN", country: "Slovakia", league: "Fortuna Liga" },
-
-      // Poland
-      { name: "Legia Warsaw", shortName: "LEG", country: "Poland", league: "Ekstraklasa" },
-      { name: "Lech Poznan", shortName: "LEC", country: "Poland", league: "Ekstraklasa" },
-      { name: "Wisła Kraków", shortName: "WIS", country: "Poland", league: "Ekstraklasa" },
-
-      // Hungary
-      { name: "Ferencváros", shortName: "FTC", country: "Hungary", league: "OTP Bank Liga" },
-      { name: "MOL Fehérvár", shortName: "MOL", country: "Hungary", league: "OTP Bank Liga" },
-
-      // Bulgaria
-      { name: "Ludogorets", shortName: "LUD", country: "Bulgaria", league: "First League" },
-      { name: "CSKA Sofia", shortName: "CSK", country: "Bulgaria", league: "First League" },
-      { name: "Levski Sofia", shortName: "LEV", country: "Bulgaria", league: "First League" }
-    ];
-
-    // Create all teams
-    const allTeams = [
-      ...romanianTeams, 
-      ...portugueseTeams, 
-      ...spanishTeams, 
-      ...englishTeams, 
-      ...italianTeams, 
-      ...germanTeams, 
-      ...frenchTeams, 
-      ...austrianTeams,
-      ...dutchTeams,
-      ...belgianTeams,
-      ...brazilianTeams,
-      ...argentinianTeams,
-      ...colombianTeams,
-      ...usTeams,
-      ...mexicanTeams,
-      ...japaneseTeams,
-      ...koreanTeams,
-      ...chineseTeams,
-      ...egyptianTeams,
-      ...southAfricanTeams,
-      ...moroccanTeams,
-      ...europeanTeams,
-      ...nordicTeams,
-      ...easternEuropeanTeams,
-      ...allEsportsTeams
-    ];
-    for (const team of allTeams) {
-      await this.createTeam({
-        name: team.name,
-        shortName: team.shortName,
-        country: team.country,
-        logo: null,
-        league: (team as any).league || null // Use a propriedade league para times eSports
-      });
-    }
+  async getMatchEvent(id: number): Promise<MatchEvent | undefined> {
+    const [event] = await this.db.select().from(matchEvents).where(eq(matchEvents.id, id));
+    return event;
+  }
 
-    // Get created teams by name for reference
-    const getTeamByName = async (name: string): Promise<Team | undefined> => {
-      const teams = await this.getTeams();
-      return teams.find(team => team.name === name);
-    };
+  async createMatchEvent(insertEvent: InsertMatchEvent): Promise<MatchEvent> {
+    const [event] = await this.db.insert(matchEvents).values({
+      ...insertEvent,
+      playerName: insertEvent.playerName || null
+    }).returning();
+    return event;
+  }
 
-    // Get leagues by country and name for reference
-    const getLeagueByCountryAndName = async (country: string, name: string): Promise<League | undefined> => {
-      const leagues = await this.getLeaguesByCountry(country);
-      return leagues.find(league => league.name === name);
-    };
+  async updateMatchEvent(id: number, data: Partial<Omit<InsertMatchEvent, "matchId">>): Promise<MatchEvent | undefined> {
+    const [event] = await this.db.update(matchEvents).set({
+      ...data,
+      playerName: data.playerName !== undefined ? data.playerName || null : undefined
+    }).where(eq(matchEvents.id, id)).returning();
+    return event;
+  }
+
+  async deleteMatchEvent(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(matchEvents).where(eq(matchEvents.id, id)).returning({ id: matchEvents.id });
+    return deleted.length > 0;
+  }
+
+  // Market methods
+  async getMarkets(): Promise<Market[]> {
+    return this.db.select().from(markets).orderBy(asc(markets.id));
+  }
+
+  async getMarketsByMatchId(matchId: number): Promise<Market[]> {
+    return this.db.select().from(markets).where(eq(markets.matchId, matchId)).orderBy(asc(markets.id));
+  }
+
+  async getMarket(id: number): Promise<Market | undefined> {
+    const [market] = await this.db.select().from(markets).where(eq(markets.id, id));
+    return market;
+  }
 
-    // Create matches
-    const now = new Date();
-
-    // Romanian Liga 1 matches
-    const romaniaLiga1 = await getLeagueByCountryAndName("Romania", "Liga 1");
-    if (romaniaLiga1) {
-      const fcsb = await getTeamByName("FCSB");
-      const cfrCluj = await getTeamByName("CFR Cluj");
-      const uCraiova = await getTeamByName("Universitatea Craiova");
-      const rapid = await getTeamByName("Rapid București");
-      const urziceni = await getTeamByName("FC Urziceni");
-      const dinamo = await getTeamByName("Dinamo București");
-
-      if (fcsb && cfrCluj) {
-        // Finished match
-        const match1 = await this.createMatch({
-          homeTeamId: fcsb.id,
-          awayTeamId: cfrCluj.id,
-          leagueId: romaniaLiga1.id,
-          startTime: new Date(now.getTime() - 24 * 60 * 60 * 1000), // Yesterday
-          homeScore: 2,
-          awayScore: 1,
-          status: "FINISHED",
-          isCustom: false
-        });
-
-        // Create markets for match1
-        await this.createMarket({ matchId: match1.id, type: "1", odds: 1.85 });
-        await this.createMarket({ matchId: match1.id, type: "X", odds: 3.40 });
-        await this.createMarket({ matchId: match1.id, type: "2", odds: 4.20 });
+  async createMarket(insertMarket: InsertMarket): Promise<Market> {
+    const [market] = await this.db.insert(markets).values(withMarketSpec(insertMarket)).returning();
+    return market;
+  }
+
+  async createMarkets(insertMarkets: InsertMarket[]): Promise<Market[]> {
+    if (insertMarkets.length === 0) return [];
+    return this.db.insert(markets).values(insertMarkets.map(withMarketSpec)).returning();
+  }
+
+  async toggleMarketLock(id: number, isLocked: boolean): Promise<Market | undefined> {
+    const [market] = await this.db.update(markets).set({ isLocked }).where(eq(markets.id, id)).returning();
+    return market;
+  }
+
+  async updateMarketOdds(id: number, odds: number): Promise<Market | undefined> {
+    const [market] = await this.db.update(markets).set({ odds, oddsUpdatedAt: new Date() }).where(eq(markets.id, id)).returning();
+    return market;
+  }
+
+  async setMarketSuspended(id: number, isSuspended: boolean): Promise<Market | undefined> {
+    const [market] = await this.db.update(markets).set({ isSuspended, suspendedAt: isSuspended ? new Date() : null }).where(eq(markets.id, id)).returning();
+    return market;
+  }
+
+  async setMarketResult(id: number, result: MarketResult | null): Promise<Market | undefined> {
+    const [market] = await this.db.update(markets).set({ result }).where(eq(markets.id, id)).returning();
+    return market;
+  }
+
+  // Bet methods
+  async getBets(): Promise<Bet[]> {
+    return this.db.select().from(bets).orderBy(asc(bets.id));
+  }
+
+  async getBetsByUserId(userId: number): Promise<Bet[]> {
+    return this.db.select().from(bets).where(eq(bets.userId, userId)).orderBy(asc(bets.id));
+  }
+
+  async getBetsWithSelections(userId: number): Promise<BetWithSelections[]> {
+    const userBets = await this.getBetsByUserId(userId);
+    if (userBets.length === 0) return [];
+
+    const selectionRows = await this.db.select().from(betSelections)
+      .where(inArray(betSelections.betId, userBets.map(bet => bet.id)))
+      .orderBy(asc(betSelections.id));
+    const marketRows = selectionRows.length > 0
+      ? await this.db.select().from(markets)
+          .where(inArray(markets.id, Array.from(new Set(selectionRows.map(selection => selection.marketId)))))
+      : [];
+    const matchRows = marketRows.length > 0
+      ? await this.db.select().from(matches)
+          .where(inArray(matches.id, Array.from(new Set(marketRows.map(market => market.matchId)))))
+      : [];
+
+    const marketsById = new Map(marketRows.map(market => [market.id, market]));
+    const matchesById = new Map((await this.withDetails(matchRows)).map(match => [match.id, match]));
+
+    return userBets.map(bet => ({
+      ...bet,
+      selections: selectionRows
+        .filter(selection => selection.betId === bet.id)
+        .flatMap(selection => {
+          const market = marketsById.get(selection.marketId);
+          const match = market ? matchesById.get(market.matchId) : undefined;
+          if (!market || !match) return [];
+          return [{ ...selection, market: { ...market, match } }];
+        })
+    }));
+  }
+
+  async getBet(id: number): Promise<Bet | undefined> {
+    const [bet] = await this.db.select().from(bets).where(eq(bets.id, id));
+    return bet;
+  }
+
+  async createBet(insertBet: InsertBet, selectionInserts: InsertBetSelection[]): Promise<Bet> {
+    return this.db.transaction(async (tx) => {
+      const [bet] = await tx.insert(bets).values(insertBet).returning();
+
+      if (selectionInserts.length > 0) {
+        await tx.insert(betSelections).values(
+          selectionInserts.map(selection => ({ ...selection, betId: bet.id }))
+        );
       }
 
-      if (uCraiova && rapid) {
-        // Upcoming match
-        const match2 = await this.createMatch({
-          homeTeamId: uCraiova.id,
-          awayTeamId: rapid.id,
-          leagueId: romaniaLiga1.id,
-          startTime: new Date(now.getTime() + 24 * 60 * 60 * 1000), // Tomorrow
-          status: "UPCOMING",
-          isCustom: false
-        });
-
-        // Create markets for match2
-        await this.createMarket({ matchId: match2.id, type: "1", odds: 2.10 });
-        await this.createMarket({ matchId: match2.id, type: "X", odds: 3.25 });
-        await this.createMarket({ matchId: match2.id, type: "2", odds: 3.50 });
+      return bet;
+    });
+  }
+
+  async placeBet(userId: number, slip: PlaceBet): Promise<Bet> {
+    return this.db.transaction(async (tx) => {
+      // Lock the user row so concurrent slips cannot spend the same balance
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new Error(`User with ID ${userId} not found`);
       }
 
-      if (urziceni && dinamo) {
-        // Custom upcoming match
-        const match3 = await this.createMatch({
-          homeTeamId: urziceni.id,
-          awayTeamId: dinamo.id,
-          leagueId: romaniaLiga1.id,
-          startTime: new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000), // Day after tomorrow
-          status: "UPCOMING",
-          isCustom: true
-        });
-
-        // Create markets for match3
-        await this.createMarket({ matchId: match3.id, type: "1", odds: 2.25 });
-        await this.createMarket({ matchId: match3.id, type: "X", odds: 3.10 });
-        await this.createMarket({ matchId: match3.id, type: "2", odds: 3.25 });
+      const marketIds = slip.selections.map(selection => selection.marketId);
+      const marketRows = await tx.select().from(markets).where(inArray(markets.id, marketIds)).for("share");
+      const matchIds = Array.from(new Set(marketRows.map(market => market.matchId)));
+      const matchRows = matchIds.length > 0
+        ? await tx.select().from(matches).where(inArray(matches.id, matchIds)).for("share")
+        : [];
+
+      const priced = priceBetSlip(
+        slip,
+        new Map(marketRows.map(market => [market.id, market])),
+        new Map(matchRows.map(match => [match.id, match]))
+      );
+      if (user.balance < slip.stake) {
+        throw new BetPlacementError("INSUFFICIENT_BALANCE", "Insufficient balance");
       }
+
+      const [bet] = await tx.insert(bets).values({
+        userId,
+        stake: slip.stake,
+        totalOdds: priced.totalOdds,
+        potentialWin: priced.potentialWin,
+        status: "PENDING"
+      }).returning();
+
+      await tx.insert(betSelections).values(
+        priced.selections.map(selection => ({ ...selection, betId: bet.id }))
+      );
+      await this.appendTransaction(tx, { userId, type: "STAKE", amount: -slip.stake, betId: bet.id, description: `Bet #${bet.id} placed` });
+
+      return bet;
+    });
+  }
+
+  async resolveBet(betId: number, status: string, payout: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      // Two legs of an accumulator can finish at once: only the first settles it
+      const [bet] = await tx.select().from(bets).where(eq(bets.id, betId)).for("update");
+      if (!bet || bet.status !== "PENDING") return false;
+
+      await this.applySettlement(tx, bet, status, payout);
+      return true;
+    });
+  }
+
+  private async applySettlement(tx: DbTransaction, bet: Bet, status: string, payout: number): Promise<void> {
+    await tx.update(bets).set({ status, payout }).where(eq(bets.id, bet.id));
+
+    const credit = getSettlementTransaction(bet, status, payout);
+    if (credit) {
+      await this.appendTransaction(tx, credit);
     }
+  }
 
-    // Portuguese Primera Liga matches
-    const primeiraLiga = await getLeagueByCountryAndName("Portugal", "Primeira Liga");
-    if (primeiraLiga) {
-      const sporting = await getTeamByName("Sporting CP");
-      const benfica = await getTeamByName("SL Benfica");
-      const braga = await getTeamByName("SC Braga");
-
-      if (sporting && benfica) {
-        // Upcoming match
-        const match4 = await this.createMatch({
-          homeTeamId: sporting.id,
-          awayTeamId: benfica.id,
-          leagueId: primeiraLiga.id,
-          startTime: new Date(now.getTime() + 24 * 60 * 60 * 1000), // Tomorrow
-          status: "UPCOMING",
-          isCustom: false
-        });
-
-        // Create markets for match4
-        await this.createMarket({ matchId: match4.id, type: "1", odds: 2.40 });
-        await this.createMarket({ matchId: match4.id, type: "X", odds: 3.20 });
-        await this.createMarket({ matchId: match4.id, type: "2", odds: 2.90 });
-      }
+  async resolveBetsForMatch(matchId: number): Promise<void> {
+    const match = await this.getMatch(matchId);
+    if (!match || !isMatchSettled(match.status)) {
+      return;
+    }
 
-      if (sporting && braga) {
-        // Custom upcoming match
-        const match5 = await this.createMatch({
-          homeTeamId: sporting.id,
-          awayTeamId: braga.id,
-          leagueId: primeiraLiga.id,
-          startTime: new Date(now.getTime() - 24 * 60 * 60 * 1000), // Yesterday
-          status: "UPCOMING",
-          isCustom: true
-        });
-
-        // Create markets for match5
-        await this.createMarket({ matchId: match5.id, type: "1", odds: 1.95 });
-        await this.createMarket({ matchId: match5.id, type: "X", odds: 3.40 });
-        await this.createMarket({ matchId: match5.id, type: "2", odds: 3.80 });
+    // Pending bets with at least one selection on this match
+    const pendingBets = await this.db
+      .selectDistinct({ bet: bets })
+      .from(betSelections)
+      .innerJoin(markets, eq(betSelections.marketId, markets.id))
+      .innerJoin(bets, eq(betSelections.betId, bets.id))
+      .where(and(eq(markets.matchId, matchId), eq(bets.status, "PENDING")));
+    if (pendingBets.length === 0) return;
+
+    // Every leg of those bets is graded, so accumulators wait for their other matches
+    const legsByBet = await this.gradeSelections(pendingBets.map(row => row.bet.id));
+
+    for (const { bet } of pendingBets) {
+      const settled = settleBet(bet.stake, legsByBet.get(bet.id) || []);
+      if (settled) {
+        await this.resolveBet(bet.id, settled.status, settled.payout);
       }
     }
+  }
 
-    // eSports matches
-    // Call of Duty League
-    const codLeague = await getLeagueByCountryAndName("Global", "Call of Duty League");
-    if (codLeague) {
-      const atlantaFaze = await getTeamByName("Atlanta FaZe");
-      const bostonBreach = await getTeamByName("Boston Breach");
-      const opticTexas = await getTeamByName("OpTic Texas");
-      const seattleSurge = await getTeamByName("Seattle Surge");
-
-      if (atlantaFaze && bostonBreach) {
-        // Upcoming eSports match
-        const codMatch1 = await this.createMatch({
-          homeTeamId: atlantaFaze.id,
-          awayTeamId: bostonBreach.id,
-          leagueId: codLeague.id,
-          startTime: new Date(now.getTime() + 12 * 60 * 60 * 1000), // 12 hours from now
-          status: "UPCOMING",
-          isCustom: false
-        });
-
-        // Create markets for COD match (only 1 and 2, no draw in eSports)
-        await this.createMarket({ matchId: codMatch1.id, type: "1", odds: 1.65 });
-        await this.createMarket({ matchId: codMatch1.id, type: "2", odds: 2.35 });
-      }
+  async regradeBetsForMatch(matchId: number): Promise<RegradedBet[]> {
+    // Already settled bets with at least one selection on this match
+    const settledBets = await this.db
+      .selectDistinct({ bet: bets })
+      .from(betSelections)
+      .innerJoin(markets, eq(betSelections.marketId, markets.id))
+      .innerJoin(bets, eq(betSelections.betId, bets.id))
+      .where(and(eq(markets.matchId, matchId), ne(bets.status, "PENDING")));
+    if (settledBets.length === 0) return [];
+
+    const legsByBet = await this.gradeSelections(settledBets.map(row => row.bet.id));
+    const regraded: RegradedBet[] = [];
+
+    for (const { bet: { id: betId } } of settledBets) {
+      const change = await this.db.transaction(async (tx): Promise<RegradedBet | null> => {
+        // Read the bet again under the lock so a concurrent re-grade cannot
+        // reverse the same payout twice
+        const [bet] = await tx.select().from(bets).where(eq(bets.id, betId)).for("update");
+        if (!bet || bet.status === "PENDING") return null;
+
+        const settled = settleBet(bet.stake, legsByBet.get(bet.id) || []);
+        const previousPayout = bet.payout ?? getDefaultPayout(bet, bet.status);
+        if (settled && settled.status === bet.status && settled.payout === previousPayout) return null;
+
+        // Take back the old payout, then settle again from scratch
+        if (previousPayout > 0) {
+          await this.appendTransaction(tx, getReversalTransaction(bet, previousPayout));
+        }
+        await tx.update(bets)
+          .set({ status: "PENDING", payout: null, regradedAt: new Date() })
+          .where(eq(bets.id, bet.id));
+        if (settled) {
+          await this.applySettlement(tx, bet, settled.status, settled.payout);
+        }
+
+        return {
+          betId: bet.id,
+          userId: bet.userId,
+          previousStatus: bet.status,
+          status: settled?.status ?? "PENDING",
+          previousPayout,
+          payout: settled?.payout ?? null
+        };
+      });
 
-      if (opticTexas && seattleSurge) {
-        // Live eSports match
-        const codMatch2 = await this.createMatch({
-          homeTeamId: opticTexas.id,
-          awayTeamId: seattleSurge.id,
-          leagueId: codLeague.id,
-          startTime: new Date(now.getTime() - 2 * 60 * 60 * 1000), // 2 hours ago
-          homeScore: 2,
-          awayScore: 1,
-          status: "LIVE",
-          isCustom: false
-        });
-
-        // Create markets for COD match (only 1 and 2, no draw in eSports)
-        await this.createMarket({ matchId: codMatch2.id, type: "1", odds: 1.25 });
-        await this.createMarket({ matchId: codMatch2.id, type: "2", odds: 3.85 });
+      if (change) {
+        regraded.push(change);
       }
     }
 
-    // Halo Championship Series
-    const haloLeague = await getLeagueByCountryAndName("Global", "Halo Championship Series");
-    if (haloLeague) {
-      const cloud9 = await getTeamByName("Cloud9");
-      const sentinels = await getTeamByName("Sentinels");
-      const fazeHalo = await getTeamByName("FaZe Clan");
-      const opticHalo = await getTeamByName("OpTic Gaming");
-
-      if (cloud9 && sentinels) {
-        // Upcoming Halo match
-        const haloMatch1 = await this.createMatch({
-          homeTeamId: cloud9.id,
-          awayTeamId: sentinels.id,
-          leagueId: haloLeague.id,
-          startTime: new Date(now.getTime() + 36 * 60 * 60 * 1000), // 36 hours from now
-          status: "UPCOMING",
-          isCustom: false
-        });
-
-        // Create markets for Halo match (only 1 and 2, no draw in eSports)
-        await this.createMarket({ matchId: haloMatch1.id, type: "1", odds: 1.90 });
-        await this.createMarket({ matchId: haloMatch1.id, type: "2", odds: 1.90 });
-      }
+    return regraded;
+  }
+
+  async hasBetsOnMatch(matchId: number): Promise<boolean> {
+    const [row] = await this.db
+      .select({ id: betSelections.id })
+      .from(betSelections)
+      .innerJoin(markets, eq(betSelections.marketId, markets.id))
+      .where(eq(markets.matchId, matchId))
+      .limit(1);
+    return !!row;
+  }
+
+  async getBetLegs(betId: number): Promise<SettledLeg[]> {
+    const legsByBet = await this.gradeSelections([betId]);
+    return legsByBet.get(betId) || [];
+  }
 
-      if (fazeHalo && opticHalo) {
-        // Completed Halo match
-        const haloMatch2 = await this.createMatch({
-          homeTeamId: fazeHalo.id,
-          awayTeamId: opticHalo.id,
-          leagueId: haloLeague.id,
-          startTime: new Date(now.getTime() - 24 * 60 * 60 * 1000), // Yesterday
-          homeScore: 1,
-          awayScore: 3,
-          status: "FINISHED",
-          isCustom: false
-        });
-
-        // Create markets for finished Halo match
-        await this.createMarket({ matchId: haloMatch2.id, type: "1", odds: 2.10, isLocked: true });
-        await this.createMarket({ matchId: haloMatch2.id, type: "X", odds: 3.40, isLocked: true });
-        await this.createMarket({ matchId: haloMatch2.id, type: "2", odds: 2.75, isLocked: true });
+  // Grades every leg of the given bets against their matches (and the
+  // corner/card counts from their events), records each selection's result
+  // and returns the legs keyed by bet
+  private async gradeSelections(betIds: number[]): Promise<Map<number, SettledLeg[]>> {
+    const legRows = await this.db
+      .select({ selection: betSelections, market: markets, match: matches })
+      .from(betSelections)
+      .leftJoin(markets, eq(betSelections.marketId, markets.id))
+      .leftJoin(matches, eq(markets.matchId, matches.id))
+      .where(inArray(betSelections.betId, betIds));
+
+    const matchIds = Array.from(new Set(legRows.flatMap(({ match }) => match ? [match.id] : [])));
+    const eventRows = matchIds.length > 0
+      ? await this.db.select().from(matchEvents).where(inArray(matchEvents.matchId, matchIds))
+      : [];
+
+    const legsByBet = new Map<number, SettledLeg[]>();
+    const changedIdsByStatus = new Map<string, number[]>();
+    for (const { selection, market, match } of legRows) {
+      const events = eventRows.filter(event => event.matchId === match?.id);
+      const outcome = settleSelection(
+        market ?? undefined,
+        match ? { ...match, stats: getMatchStats(events) } : undefined
+      );
+      const status = outcome ?? "PENDING";
+      if (status !== selection.status) {
+        changedIdsByStatus.set(status, [...(changedIdsByStatus.get(status) || []), selection.id]);
       }
+
+      const legs = legsByBet.get(selection.betId) || [];
+      legs.push({ outcome, odds: selection.odds });
+      legsByBet.set(selection.betId, legs);
+    }
+
+    for (const [status, ids] of Array.from(changedIdsByStatus.entries())) {
+      await this.db.update(betSelections).set({ status }).where(inArray(betSelections.id, ids));
     }
+
+    return legsByBet;
+  }
+}
+
+// Selects the storage backend: STORAGE_BACKEND=postgres persists to DATABASE_URL,
+// anything else keeps everything in memory
+function createStorage(): IStorage {
+  if (process.env.STORAGE_BACKEND === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set when STORAGE_BACKEND=postgres");
+    }
+    return new DbStorage(createDb(process.env.DATABASE_URL));
   }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { getTieResult, getTieWinner, getTieScoreError, getBracketRounds, getBracketRoundName, getNextBracketSlot } from "./cups";
+
+const level = { homeScore: 1, awayScore: 1 };
+
+describe("getTieResult", () => {
+  it("is decided in the 90 minutes when the score is not level", () => {
+    assert.deepEqual(getTieResult({ homeScore: 0, awayScore: 2 }), { winner: "AWAY", method: "REGULAR_TIME" });
+  });
+
+  it("goes on to extra time and then penalties", () => {
+    assert.deepEqual(getTieResult({ ...level, etHomeScore: 2, etAwayScore: 1 }), { winner: "HOME", method: "EXTRA_TIME" });
+    assert.deepEqual(
+      getTieResult({ ...level, etHomeScore: 2, etAwayScore: 2, penHomeScore: 3, penAwayScore: 4 }),
+      { winner: "AWAY", method: "PENALTIES" }
+    );
+    assert.deepEqual(getTieResult({ ...level, penHomeScore: 5, penAwayScore: 4 }), { winner: "HOME", method: "PENALTIES" });
+  });
+
+  it("is undecided without a score, or while still level", () => {
+    assert.equal(getTieResult({ homeScore: null, awayScore: null }), null);
+    assert.equal(getTieResult(level), null);
+    assert.equal(getTieResult({ ...level, etHomeScore: 1, etAwayScore: 1 }), null);
+  });
+});
+
+describe("getTieWinner", () => {
+  it("takes the result of a finished tie only", () => {
+    assert.equal(getTieWinner({ homeScore: 2, awayScore: 0, status: "FINISHED" }), "HOME");
+    assert.equal(getTieWinner({ homeScore: 2, awayScore: 0, status: "LIVE" }), null);
+  });
+
+  it("sends the walkover side through an abandoned or cancelled tie", () => {
+    assert.equal(getTieWinner({ homeScore: 2, awayScore: 0, status: "ABANDONED", walkoverWinner: "AWAY" }), "AWAY");
+    assert.equal(getTieWinner({ homeScore: null, awayScore: null, status: "CANCELLED", walkoverWinner: "HOME" }), "HOME");
+    assert.equal(getTieWinner({ homeScore: null, awayScore: null, status: "CANCELLED", walkoverWinner: null }), null);
+  });
+
+  it("ignores a walkover left on a tie that was played after all", () => {
+    assert.equal(getTieWinner({ homeScore: 0, awayScore: 1, status: "FINISHED", walkoverWinner: "HOME" }), "AWAY");
+    assert.equal(getTieWinner({ homeScore: null, awayScore: null, status: "POSTPONED", walkoverWinner: "HOME" }), null);
+  });
+});
+
+describe("getTieScoreError", () => {
+  it("accepts a tie without extra time or penalties", () => {
+    assert.equal(getTieScoreError({ homeScore: 3, awayScore: 1, etHomeScore: null, etAwayScore: null }), null);
+  });
+
+  it("accepts penalties straight after a level 90 minutes", () => {
+    assert.equal(getTieScoreError({ ...level, penHomeScore: 4, penAwayScore: 2 }), null);
+  });
+
+  it("needs both sides of each score", () => {
+    assert.equal(getTieScoreError({ ...level, etHomeScore: 2 }), "Both extra time scores are required");
+    assert.equal(getTieScoreError({ ...level, penAwayScore: 2 }), "Both penalty scores are required");
+  });
+
+  it("only allows extra time and penalties after a level 90 minutes", () => {
+    assert.equal(
+      getTieScoreError({ homeScore: 2, awayScore: 1, etHomeScore: 3, etAwayScore: 1 }),
+      "Extra time and penalties only follow a level 90 minutes"
+    );
+  });
+
+  it("counts the 90 minute goals in the extra time score", () => {
+    assert.equal(
+      getTieScoreError({ ...level, etHomeScore: 0, etAwayScore: 1 }),
+      "The extra time score includes the 90 minute goals"
+    );
+  });
+
+  it("only allows a shoot-out after a level extra time, and with a winner", () => {
+    assert.equal(
+      getTieScoreError({ ...level, etHomeScore: 2, etAwayScore: 1, penHomeScore: 4, penAwayScore: 3 }),
+      "A penalty shoot-out only follows a level extra time"
+    );
+    assert.equal(getTieScoreError({ ...level, penHomeScore: 3, penAwayScore: 3 }), "A penalty shoot-out needs a winner");
+  });
+});
+
+describe("bracket layout", () => {
+  it("needs a round for each halving of the teams", () => {
+    assert.equal(getBracketRounds(16), 4);
+    assert.equal(getBracketRounds(2), 1);
+  });
+
+  it("names the rounds counted back from the final", () => {
+    assert.deepEqual(
+      [1, 2, 3, 4, 5, 6].map(round => getBracketRoundName(round, 6)),
+      ["1ª Eliminatória", "2ª Eliminatória", "Oitavos de final", "Quartos de final", "Meias-finais", "Final"]
+    );
+  });
+
+  it("sends slots 2n and 2n+1 to slot n, the even one at home", () => {
+    assert.deepEqual(getNextBracketSlot(4), { slot: 2, home: true });
+    assert.deepEqual(getNextBracketSlot(5), { slot: 2, home: false });
+  });
+});
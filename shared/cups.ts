@@ -0,0 +1,103 @@
+// Knockout ties: who went through and how, checks on the extra time and
+// penalty scores, and the layout of a cup bracket. A tie is a single match;
+// the 90 minute score stays in homeScore/awayScore (and 1X2 and every other
+// full time market are graded on it), extra time and penalties only decide
+// who qualifies.
+
+export type TieMethod = "REGULAR_TIME" | "EXTRA_TIME" | "PENALTIES";
+
+export const TIE_SIDES = ["HOME", "AWAY"] as const;
+export type TieSide = typeof TIE_SIDES[number];
+
+export interface TieScore {
+  homeScore: number | null;
+  awayScore: number | null;
+  etHomeScore?: number | null;   // After 120 minutes, the 90 minute goals included
+  etAwayScore?: number | null;
+  penHomeScore?: number | null;
+  penAwayScore?: number | null;
+}
+
+export interface TieResult {
+  winner: TieSide;
+  method: TieMethod;
+}
+
+const hasScore = (home?: number | null, away?: number | null) => home != null && away != null;
+
+// Winner of the tie, or null while it is undecided (no score yet, or level
+// with the extra time or shoot-out still to be entered)
+export function getTieResult(score: TieScore): TieResult | null {
+  const { homeScore, awayScore, etHomeScore, etAwayScore, penHomeScore, penAwayScore } = score;
+  if (homeScore === null || awayScore === null) return null;
+
+  if (homeScore !== awayScore) {
+    return { winner: homeScore > awayScore ? "HOME" : "AWAY", method: "REGULAR_TIME" };
+  }
+  if (hasScore(etHomeScore, etAwayScore) && etHomeScore !== etAwayScore) {
+    return { winner: etHomeScore! > etAwayScore! ? "HOME" : "AWAY", method: "EXTRA_TIME" };
+  }
+  if (hasScore(penHomeScore, penAwayScore) && penHomeScore !== penAwayScore) {
+    return { winner: penHomeScore! > penAwayScore! ? "HOME" : "AWAY", method: "PENALTIES" };
+  }
+  return null;
+}
+
+// Statuses that end a tie without a result; its winner goes through on a walkover
+export const WALKOVER_STATUSES = ["ABANDONED", "CANCELLED"];
+
+// Side that goes through a tie: the winner of a finished one, or the side
+// given the walkover of an abandoned or cancelled one. Null while undecided.
+export function getTieWinner(match: TieScore & { status: string; walkoverWinner?: string | null }): TieSide | null {
+  if (match.status === "FINISHED") return getTieResult(match)?.winner ?? null;
+  if (!WALKOVER_STATUSES.includes(match.status)) return null;
+  return TIE_SIDES.find(side => side === match.walkoverWinner) ?? null;
+}
+
+// Why an extra time / penalty score does not fit the 90 minute score, or
+// null if it does. A shoot-out may follow extra time or a level 90 minutes
+// (cups that skip extra time).
+export function getTieScoreError(score: TieScore): string | null {
+  const { homeScore, awayScore, etHomeScore, etAwayScore, penHomeScore, penAwayScore } = score;
+  const hasExtraTime = hasScore(etHomeScore, etAwayScore);
+  const hasPenalties = hasScore(penHomeScore, penAwayScore);
+
+  if ((etHomeScore == null) !== (etAwayScore == null)) return "Both extra time scores are required";
+  if ((penHomeScore == null) !== (penAwayScore == null)) return "Both penalty scores are required";
+  if (!hasExtraTime && !hasPenalties) return null;
+
+  if (homeScore === null || awayScore === null || homeScore !== awayScore) {
+    return "Extra time and penalties only follow a level 90 minutes";
+  }
+  if (hasExtraTime && (etHomeScore! < homeScore || etAwayScore! < awayScore)) {
+    return "The extra time score includes the 90 minute goals";
+  }
+  if (hasPenalties && hasExtraTime && etHomeScore !== etAwayScore) {
+    return "A penalty shoot-out only follows a level extra time";
+  }
+  if (hasPenalties && penHomeScore === penAwayScore) {
+    return "A penalty shoot-out needs a winner";
+  }
+  return null;
+}
+
+// Rounds needed for a bracket of this many teams (a power of two)
+export function getBracketRounds(teamCount: number): number {
+  return Math.log2(teamCount);
+}
+
+// Round names counted back from the final
+export function getBracketRoundName(round: number, totalRounds: number): string {
+  switch (totalRounds - round) {
+    case 0: return "Final";
+    case 1: return "Meias-finais";
+    case 2: return "Quartos de final";
+    case 3: return "Oitavos de final";
+    default: return `${round}ª Eliminatória`;
+  }
+}
+
+// Slot of the next round the winner of this slot plays in, and whether at home
+export function getNextBracketSlot(slot: number): { slot: number; home: boolean } {
+  return { slot: Math.floor(slot / 2), home: slot % 2 === 0 };
+}
@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateRoundRobin, getRoundStartTime, type Pairing } from "./fixtures";
+
+const teams = ["A", "B", "C", "D", "E", "F"];
+
+// Each pair of teams, in either order, once
+const pairKey = ({ home, away }: Pairing<string>) => [home, away].sort().join("-");
+
+describe("generateRoundRobin", () => {
+  it("has every team meet every other once", () => {
+    const pairings = generateRoundRobin(teams, false);
+    assert.equal(pairings.length, 15);
+    assert.equal(new Set(pairings.map(pairKey)).size, 15);
+  });
+
+  it("plays every team once a round", () => {
+    const pairings = generateRoundRobin(teams, false);
+    for (let round = 1; round <= 5; round++) {
+      const playing = pairings.filter(pairing => pairing.round === round).flatMap(({ home, away }) => [home, away]);
+      assert.deepEqual([...playing].sort(), teams);
+    }
+  });
+
+  it("keeps home and away games balanced", () => {
+    const pairings = generateRoundRobin(teams, false);
+    for (const team of teams) {
+      const home = pairings.filter(pairing => pairing.home === team).length;
+      assert.ok(home === 2 || home === 3, `${team} has ${home} home games`);
+    }
+  });
+
+  it("gives one team a bye each round when the number is odd", () => {
+    const pairings = generateRoundRobin(["A", "B", "C", "D", "E"], false);
+    assert.equal(pairings.length, 10);
+    assert.equal(Math.max(...pairings.map(pairing => pairing.round)), 5);
+    for (let round = 1; round <= 5; round++) {
+      assert.equal(pairings.filter(pairing => pairing.round === round).length, 2);
+    }
+  });
+
+  it("mirrors the first half with venues swapped in a double round-robin", () => {
+    const pairings = generateRoundRobin(teams, true);
+    assert.equal(pairings.length, 30);
+    const firstHalf = pairings.filter(pairing => pairing.round <= 5);
+    for (const { round, home, away } of firstHalf) {
+      assert.ok(pairings.some(pairing => pairing.round === round + 5 && pairing.home === away && pairing.away === home));
+    }
+  });
+
+  it("needs at least two teams", () => {
+    assert.deepEqual(generateRoundRobin(["A"], true), []);
+  });
+});
+
+describe("getRoundStartTime", () => {
+  it("spaces the matchdays the given number of days apart", () => {
+    const start = new Date("2026-08-08T18:00:00Z");
+    assert.equal(getRoundStartTime(start, 1, 7).toISOString(), "2026-08-08T18:00:00.000Z");
+    assert.equal(getRoundStartTime(start, 3, 7).toISOString(), "2026-08-22T18:00:00.000Z");
+  });
+});
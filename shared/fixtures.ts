@@ -0,0 +1,54 @@
+// Round-robin fixture lists for a league season, built with the circle
+// method: one team stays put while the others rotate, so every team meets
+// every other once per round-robin. Venues alternate from round to round
+// and the second half of a double round-robin mirrors the first with home
+// and away swapped.
+
+export interface Pairing<T> {
+  round: number;  // 1-based matchday
+  home: T;
+  away: T;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function generateRoundRobin<T>(teams: T[], doubleRoundRobin: boolean): Pairing<T>[] {
+  if (teams.length < 2) return [];
+
+  // An odd number of teams gets a bye: whoever is drawn against it rests
+  const slots: (T | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+  const roundsPerHalf = slots.length - 1;
+  const pairings: Pairing<T>[] = [];
+
+  for (let round = 0; round < roundsPerHalf; round++) {
+    for (let i = 0; i < slots.length / 2; i++) {
+      const first = slots[i];
+      const second = slots[slots.length - 1 - i];
+      if (first === null || second === null) continue;
+
+      // The fixed team swaps venue every round; the rest swap as they rotate
+      const firstAtHome = i === 0 ? round % 2 === 0 : i % 2 === 1;
+      pairings.push({
+        round: round + 1,
+        home: firstAtHome ? first : second,
+        away: firstAtHome ? second : first
+      });
+    }
+
+    // Keep the first slot, rotate the others one place clockwise
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  if (!doubleRoundRobin) return pairings;
+
+  return [
+    ...pairings,
+    ...pairings.map(({ round, home, away }) => ({ round: round + roundsPerHalf, home: away, away: home }))
+  ];
+}
+
+// Kick-off of a matchday: the first one at the start time, the rest spaced
+// the given number of days apart
+export function getRoundStartTime(startTime: Date, round: number, daysBetweenRounds: number): Date {
+  return new Date(startTime.getTime() + (round - 1) * daysBetweenRounds * DAY_MS);
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseFmExport, parseFmScore, parseFmDate, readFmTable } from "./fm-import";
+
+// Local time, as FM dates have no time zone
+const at = (year: number, month: number, day: number, hours = 15, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).getTime();
+
+describe("parseFmScore", () => {
+  it("reads the 90 minute score", () => {
+    assert.deepEqual(parseFmScore("2-1"), { homeScore: 2, awayScore: 1, penHomeScore: null, penAwayScore: null, afterExtraTime: false });
+    assert.equal(parseFmScore("0 – 3")!.awayScore, 3);
+  });
+
+  it("reads a shoot-out in the forms FM writes it", () => {
+    for (const text of ["1 - 1 (4-3 pens)", "1-1, 4-3 p", "1-1 (4-3)", "1-1 4-3 g.p."]) {
+      const score = parseFmScore(text)!;
+      assert.deepEqual([score.penHomeScore, score.penAwayScore], [4, 3], text);
+    }
+  });
+
+  it("flags a score after extra time", () => {
+    assert.equal(parseFmScore("2-1 aet")!.afterExtraTime, true);
+    assert.equal(parseFmScore("1-1 a.e.t., 5-4 p")!.afterExtraTime, true);
+    assert.equal(parseFmScore("2-1")!.afterExtraTime, false);
+  });
+
+  it("treats rows without a score as fixtures", () => {
+    assert.equal(parseFmScore("v"), null);
+    assert.equal(parseFmScore("P-P"), null);
+    assert.equal(parseFmScore(""), null);
+  });
+});
+
+describe("parseFmDate", () => {
+  it("reads numeric dates in the order asked for", () => {
+    assert.equal(parseFmDate("03/04/2026", "", "DMY")!.getTime(), at(2026, 4, 3));
+    assert.equal(parseFmDate("03/04/2026", "", "MDY")!.getTime(), at(2026, 3, 4));
+    assert.equal(parseFmDate("3.4.26", "", "DMY")!.getTime(), at(2026, 4, 3));
+  });
+
+  it("reads written months in English and Portuguese", () => {
+    assert.equal(parseFmDate("Sat 8th Aug 2026", "", "DMY")!.getTime(), at(2026, 8, 8));
+    assert.equal(parseFmDate("8 de agosto de 2026", "", "DMY")!.getTime(), at(2026, 8, 8));
+    assert.equal(parseFmDate("August 8, 2026", "", "DMY")!.getTime(), at(2026, 8, 8));
+  });
+
+  it("takes the kick-off from the time column or the date", () => {
+    assert.equal(parseFmDate("2026-08-08", "19:45", "DMY")!.getTime(), at(2026, 8, 8, 19, 45));
+    assert.equal(parseFmDate("08/08/2026 8:30 pm", "", "DMY")!.getTime(), at(2026, 8, 8, 20, 30));
+  });
+
+  it("rejects dates that do not exist or cannot be read", () => {
+    assert.equal(parseFmDate("31/02/2026", "", "DMY"), null);
+    assert.equal(parseFmDate("next week", "", "DMY"), null);
+  });
+});
+
+describe("readFmTable", () => {
+  it("reads FM's text export, ruled rows and all", () => {
+    const text = "| Date | Home | Away |\n|------|------|------|\n| 1/8/2026 | A | B |";
+    assert.deepEqual(readFmTable(text), [["Date", "Home", "Away"], ["1/8/2026", "A", "B"]]);
+  });
+
+  it("reads CSV with quoted cells", () => {
+    assert.deepEqual(readFmTable("Home;Away\n\"Sporting; CP\";\"Rio \"\"Ave\"\"\""), [["Home", "Away"], ["Sporting; CP", "Rio \"Ave\""]]);
+  });
+
+  it("reads HTML tables and decodes their entities", () => {
+    const html = "<table><tr><th>Home</th><th>Away</th></tr><tr><td><b>Vit&oacute;ria</b></td><td>Gil&nbsp;Vicente</td></tr></table>";
+    assert.deepEqual(readFmTable(html), [["Home", "Away"], ["Vitória", "Gil Vicente"]]);
+  });
+});
+
+describe("parseFmExport", () => {
+  const content = [
+    "Fixtures",
+    "Data,Competição,Casa,Resultado,Fora",
+    "08/08/2026,Liga Portugal,Benfica,2-0,Porto",
+    "Agosto",
+    "15/08/2026,Taça de Portugal,Porto,1-1 (5-4 pens),Sporting",
+    "22/08/2026,Liga Portugal,Sporting,v,Benfica"
+  ].join("\n");
+
+  it("finds the header by its Portuguese column names and reads every match", () => {
+    const rows = parseFmExport(content, "DMY")!;
+    assert.deepEqual(rows.map(row => [row.line, row.homeName, row.awayName, row.competition]), [
+      [3, "Benfica", "Porto", "Liga Portugal"],
+      [5, "Porto", "Sporting", "Taça de Portugal"],
+      [6, "Sporting", "Benfica", "Liga Portugal"]
+    ]);
+    assert.equal(rows[0].date!.getTime(), at(2026, 8, 8));
+    assert.equal(rows[1].score!.penHomeScore, 5);
+    assert.equal(rows[2].score, null);
+  });
+
+  it("returns null without home and away columns", () => {
+    assert.equal(parseFmExport("Date,Team,Points\n1/1/2026,A,3", "DMY"), null);
+  });
+});
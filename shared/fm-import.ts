@@ -0,0 +1,225 @@
+// Reads the fixture and result tables Football Manager exports ("Print
+// Screen" as a web page, or as a text file) plus CSV saved from them. The
+// first row naming a home and an away column is the header; every row after
+// it with both teams becomes a fixture, with a score if it was played.
+// Columns are found by name, in English or Portuguese.
+
+export type DateOrder = "DMY" | "MDY";
+
+export interface FmScore {
+  homeScore: number;
+  awayScore: number;
+  penHomeScore: number | null;
+  penAwayScore: number | null;
+  afterExtraTime: boolean;  // The score shown is after 120 minutes, not 90
+}
+
+export interface FmRow {
+  line: number;              // 1-based row of the table, header included
+  date: Date | null;         // Null if the row had no date FM's formats cover
+  competition: string | null;
+  homeName: string;
+  awayName: string;
+  score: FmScore | null;     // Null for a fixture still to be played
+  scoreText: string;
+}
+
+type Column = "date" | "time" | "home" | "away" | "score" | "competition";
+
+const COLUMN_NAMES: Record<Column, string[]> = {
+  date: ["date", "data", "day", "dia"],
+  time: ["time", "hora", "ko", "kick off", "kick-off"],
+  home: ["home", "home team", "casa", "equipa da casa", "visitado"],
+  away: ["away", "away team", "fora", "equipa de fora", "visitante"],
+  score: ["score", "result", "res", "resultado", "ft", "final score"],
+  competition: ["competition", "comp", "competicao", "competição", "league", "liga"]
+};
+
+// Kick-off for rows that only have a date
+const DEFAULT_KICK_OFF = { hours: 15, minutes: 0 };
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, fev: 1, mar: 2, apr: 3, abr: 3, may: 4, mai: 4, jun: 5,
+  jul: 6, aug: 7, ago: 7, sep: 8, set: 8, oct: 9, out: 9, nov: 10, dec: 11, dez: 11
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ", ndash: "–", mdash: "—",
+  szlig: "ß", oslash: "ø", Oslash: "Ø", aelig: "æ", AElig: "Æ", eth: "ð", thorn: "þ"
+};
+
+// Accented letters are written as the letter and its accent (&oacute;)
+const ACCENTS: Record<string, string> = {
+  acute: "\u0301", grave: "\u0300", circ: "\u0302", tilde: "\u0303", uml: "\u0308", cedil: "\u0327", ring: "\u030a", caron: "\u030c"
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const value = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    const accented = code.match(/^([a-z])(acute|grave|circ|tilde|uml|cedil|ring|caron)$/i);
+    if (accented) return (accented[1] + ACCENTS[accented[2]]).normalize("NFC");
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+const cleanCell = (cell: string) => decodeEntities(cell.replace(/<[^>]*>/g, " ")).replace(/\s+/g, " ").trim();
+
+// Cells of every row of every table in an HTML page
+function readHtmlTable(html: string): string[][] {
+  const rows = html.match(/<tr[\s>][\s\S]*?<\/tr>/gi) ?? [];
+  return rows.map(row => (row.match(/<t[hd][\s>][\s\S]*?<\/t[hd]>/gi) ?? []).map(cleanCell));
+}
+
+// Splits a CSV line, honouring quoted cells
+function splitDelimited(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === "\"" && quoted && line[i + 1] === "\"") {
+      cell += "\"";
+      i++;
+    } else if (char === "\"" && (quoted || cell.trim() === "")) {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map(value => value.trim());
+}
+
+// FM's text export separates cells with "|" and rules rows off with dashes;
+// CSV saved from a spreadsheet uses commas, semicolons or tabs
+function readDelimitedTable(text: string): string[][] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== "" && !/^[\s|\-=+_]+$/.test(line));
+  const sample = lines.slice(0, 10).join("\n");
+  const delimiter = ["|", "\t", ";", ","]
+    .map(candidate => ({ candidate, count: sample.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  return lines.map(line => {
+    const cells = splitDelimited(line, delimiter);
+    // "| a | b |" has an empty cell either side
+    if (delimiter === "|" && cells[0] === "") cells.shift();
+    if (delimiter === "|" && cells[cells.length - 1] === "") cells.pop();
+    return cells;
+  });
+}
+
+export function readFmTable(content: string): string[][] {
+  return /<table[\s>]/i.test(content) ? readHtmlTable(content) : readDelimitedTable(content);
+}
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[.:]/g, "").trim();
+
+function findColumns(header: string[]): Partial<Record<Column, number>> | null {
+  const columns: Partial<Record<Column, number>> = {};
+  header.forEach((cell, index) => {
+    const name = normalizeHeader(cell);
+    const column = (Object.keys(COLUMN_NAMES) as Column[]).find(key => COLUMN_NAMES[key].includes(name));
+    if (column && columns[column] === undefined) columns[column] = index;
+  });
+  return columns.home !== undefined && columns.away !== undefined ? columns : null;
+}
+
+function parseTime(text: string): { hours: number; minutes: number } | null {
+  const match = text.match(/(\d{1,2})[:h](\d{2})\s*(am|pm)?/i);
+  if (!match) return null;
+  let hours = parseInt(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return { hours, minutes: parseInt(match[2]) };
+}
+
+// FM writes dates in the computer's locale, so day/month order is asked for;
+// a year of two digits is taken as 20xx
+export function parseFmDate(dateText: string, timeText: string, dateOrder: DateOrder): Date | null {
+  const text = dateText.toLowerCase();
+  let day: number, month: number, year: number;
+
+  const iso = text.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const numeric = text.match(/(\d{1,2})[/.\-](\d{1,2})[/.\-](\d{2,4})/);
+  const dayFirst = text.match(/(\d{1,2})(?:st|nd|rd|th|º)?\s+(?:de\s+)?([a-zç]{3,})\.?,?\s+(?:de\s+)?(\d{4})/);
+  const monthFirst = text.match(/([a-zç]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/);
+
+  if (iso) {
+    [year, month, day] = [parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3])];
+  } else if (numeric) {
+    const [first, second] = [parseInt(numeric[1]), parseInt(numeric[2])];
+    [day, month] = dateOrder === "DMY" ? [first, second - 1] : [second, first - 1];
+    year = parseInt(numeric[3]);
+    if (year < 100) year += 2000;
+  } else if (dayFirst && MONTHS[dayFirst[2].slice(0, 3)] !== undefined) {
+    [day, month, year] = [parseInt(dayFirst[1]), MONTHS[dayFirst[2].slice(0, 3)], parseInt(dayFirst[3])];
+  } else if (monthFirst && MONTHS[monthFirst[1].slice(0, 3)] !== undefined) {
+    [day, month, year] = [parseInt(monthFirst[2]), MONTHS[monthFirst[1].slice(0, 3)], parseInt(monthFirst[3])];
+  } else {
+    return null;
+  }
+
+  const time = parseTime(timeText) ?? parseTime(dateText) ?? DEFAULT_KICK_OFF;
+  const date = new Date(year, month, day, time.hours, time.minutes);
+  // Rejects dates like 31/02 that Date would roll over
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// "2-1", "1 - 1 (4-3 pens)", "1-1 a.e.t., 5-4 p", "2-1 aet"; anything
+// without a score ("v", "P-P", "Postponed") is a fixture still to be played
+export function parseFmScore(text: string): FmScore | null {
+  const normalized = text.replace(/[–—]/g, "-").toLowerCase();
+  const match = normalized.match(/^\s*(\d+)\s*[-:]\s*(\d+)/);
+  if (!match) return null;
+
+  const rest = normalized.slice(match[0].length);
+  const penalties = rest.match(/(\d+)\s*[-:]\s*(\d+)\s*(?:\)|p\b|pens?\b|penalties|pks?\b|g\.?p\.?)/);
+  return {
+    homeScore: parseInt(match[1]),
+    awayScore: parseInt(match[2]),
+    penHomeScore: penalties ? parseInt(penalties[1]) : null,
+    penAwayScore: penalties ? parseInt(penalties[2]) : null,
+    afterExtraTime: /a\.?e\.?t|after extra|a\.p\.|ap[oó]s prol/.test(rest)
+  };
+}
+
+// The fixtures and results in an FM export, or null if it has no table with
+// home and away columns
+export function parseFmExport(content: string, dateOrder: DateOrder): FmRow[] | null {
+  const table = readFmTable(content);
+  const headerIndex = table.findIndex(row => findColumns(row) !== null);
+  if (headerIndex < 0) return null;
+
+  const columns = findColumns(table[headerIndex])!;
+  const cell = (row: string[], column: Column) => {
+    const index = columns[column];
+    return index !== undefined ? row[index] ?? "" : "";
+  };
+
+  const rows: FmRow[] = [];
+  table.slice(headerIndex + 1).forEach((row, index) => {
+    const homeName = cell(row, "home");
+    const awayName = cell(row, "away");
+    // Repeated headers and section titles (e.g. a month name) are skipped
+    if (!homeName || !awayName || findColumns(row) !== null) return;
+
+    const scoreText = cell(row, "score");
+    rows.push({
+      line: headerIndex + index + 2,
+      date: parseFmDate(cell(row, "date"), cell(row, "time"), dateOrder),
+      competition: cell(row, "competition") || null,
+      homeName,
+      awayName,
+      score: parseFmScore(scoreText),
+      scoreText
+    });
+  });
+  return rows;
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseMarketType, getMarketType, getMarketSpec, getQuarterLineSplit, parseCorrectScore } from "./markets";
+
+describe("parseMarketType", () => {
+  it("reads fixed markets", () => {
+    assert.deepEqual(parseMarketType("X"), { family: "MATCH_RESULT", side: "DRAW", line: null });
+    assert.deepEqual(parseMarketType("DC_X2"), { family: "DOUBLE_CHANCE", side: "DRAW_AWAY", line: null });
+    assert.deepEqual(parseMarketType("MOV_2_PEN"), { family: "METHOD_OF_VICTORY", side: "AWAY_PENALTIES", line: null });
+  });
+
+  it("reads the line of totals", () => {
+    assert.deepEqual(parseMarketType("OVER_2_5"), { family: "TOTAL", side: "OVER", line: 2.5 });
+    assert.deepEqual(parseMarketType("HT_UNDER_0_5"), { family: "HT_TOTAL", side: "UNDER", line: 0.5 });
+    assert.deepEqual(parseMarketType("ASIAN_OVER_2_25"), { family: "ASIAN_TOTAL", side: "OVER", line: 2.25 });
+    assert.deepEqual(parseMarketType("CORNERS_OVER_9_5"), { family: "CORNERS", side: "OVER", line: 9.5 });
+    assert.deepEqual(parseMarketType("BOOKING_POINTS_UNDER_40_5"), { family: "BOOKING_POINTS", side: "UNDER", line: 40.5 });
+  });
+
+  it("signs handicap lines for the backed side", () => {
+    assert.deepEqual(parseMarketType("HANDICAP_1_MINUS_1"), { family: "HANDICAP", side: "HOME", line: -1 });
+    assert.deepEqual(parseMarketType("ASIAN_HANDICAP_2_PLUS_0_75"), { family: "ASIAN_HANDICAP", side: "AWAY", line: 0.75 });
+  });
+
+  it("reads correct scores", () => {
+    assert.deepEqual(parseMarketType("CS_2_1"), { family: "CORRECT_SCORE", side: "2-1", line: null });
+    assert.deepEqual(parseMarketType("CS_OTHER"), { family: "CORRECT_SCORE", side: "OTHER", line: null });
+  });
+
+  it("returns null for custom markets", () => {
+    assert.equal(parseMarketType("Primeiro a marcar: Ronaldo"), null);
+    assert.equal(parseMarketType("OVER_"), null);
+  });
+});
+
+describe("getMarketType", () => {
+  it("writes the type string a market is parsed from", () => {
+    for (const type of ["1", "DNB_2", "OVER_2_5", "HT_OVER_1_5", "HANDICAP_2_PLUS_1", "ASIAN_HANDICAP_1_MINUS_0_25",
+      "ASIAN_UNDER_2_75", "AWAY_CORNERS_UNDER_4_5", "CS_0_0", "CS_OTHER", "FIRST_CARD_NONE", "QUALIFY_1"]) {
+      assert.equal(getMarketType(parseMarketType(type)!), type);
+    }
+  });
+
+  it("rejects a side the family does not have", () => {
+    assert.equal(getMarketType({ family: "TOTAL", side: "HOME", line: 2.5 }), null);
+    assert.equal(getMarketType({ family: "MATCH_RESULT", side: "OVER", line: null }), null);
+  });
+
+  it("rejects missing, negative and off-grid lines", () => {
+    assert.equal(getMarketType({ family: "TOTAL", side: "OVER", line: null }), null);
+    assert.equal(getMarketType({ family: "CARDS", side: "OVER", line: -1 }), null);
+    assert.equal(getMarketType({ family: "ASIAN_TOTAL", side: "OVER", line: 2.3 }), null);
+    assert.equal(getMarketType({ family: "ASIAN_HANDICAP", side: "HOME", line: -0.1 }), null);
+  });
+});
+
+describe("getMarketSpec", () => {
+  it("prefers the stored structure over the type string", () => {
+    assert.deepEqual(
+      getMarketSpec({ type: "OVER_2_5", family: "TOTAL", side: "UNDER", line: 3.5 }),
+      { family: "TOTAL", side: "UNDER", line: 3.5 }
+    );
+  });
+
+  it("parses legacy rows without a structure", () => {
+    assert.deepEqual(
+      getMarketSpec({ type: "BTTS_NO", family: null, side: null, line: null }),
+      { family: "BTTS", side: "NO", line: null }
+    );
+  });
+});
+
+describe("getQuarterLineSplit", () => {
+  it("splits quarter lines across the two nearest lines", () => {
+    assert.deepEqual(getQuarterLineSplit(2.25), [2, 2.5]);
+    assert.deepEqual(getQuarterLineSplit(-0.75), [-1, -0.5]);
+  });
+
+  it("leaves whole and half lines alone", () => {
+    assert.equal(getQuarterLineSplit(2), null);
+    assert.equal(getQuarterLineSplit(-1.5), null);
+  });
+});
+
+describe("parseCorrectScore", () => {
+  it("reads the score of a correct score market only", () => {
+    assert.deepEqual(parseCorrectScore("CS_3_1"), { home: 3, away: 1 });
+    assert.equal(parseCorrectScore("CS_OTHER"), null);
+    assert.equal(parseCorrectScore("OVER_2_5"), null);
+  });
+});
@@ -0,0 +1,175 @@
+// Structured market definitions shared by the server, the pricing engine and the client.
+// A market is a family (TOTAL, HANDICAP, ...), the side it backs (OVER, HOME, ...)
+// and, for line markets, the line. The type string (OVER_2_5, HANDICAP_1_MINUS_1)
+// is derived from that structure, and legacy rows that only carry the type string
+// are parsed back into it.
+import type { Market, MarketFamily } from "./schema";
+
+// Over/under markets on corner and card counts, the type string starts with the family
+export const COUNT_MARKET_FAMILIES: MarketFamily[] = ["CORNERS", "HOME_CORNERS", "AWAY_CORNERS", "CARDS", "BOOKING_POINTS"];
+
+export interface MarketSpec {
+  family: MarketFamily;
+  // HOME, DRAW, AWAY, HOME_DRAW, HOME_AWAY, DRAW_AWAY, OVER, UNDER, YES, NO,
+  // NONE (no card shown), a score like "2-1" / "OTHER" for correct score or
+  // a winner and how the tie was won (HOME_EXTRA_TIME) for method of victory
+  side: string;
+  // Goal, corner, card or booking points line for totals, handicap applied
+  // to the backed side for handicaps
+  line: number | null;
+}
+
+// Markets whose type string carries no line
+const FIXED_MARKET_TYPES: Record<string, Omit<MarketSpec, "line">> = {
+  "1": { family: "MATCH_RESULT", side: "HOME" },
+  "X": { family: "MATCH_RESULT", side: "DRAW" },
+  "2": { family: "MATCH_RESULT", side: "AWAY" },
+  "DC_1X": { family: "DOUBLE_CHANCE", side: "HOME_DRAW" },
+  "DC_12": { family: "DOUBLE_CHANCE", side: "HOME_AWAY" },
+  "DC_X2": { family: "DOUBLE_CHANCE", side: "DRAW_AWAY" },
+  "DNB_1": { family: "DRAW_NO_BET", side: "HOME" },
+  "DNB_2": { family: "DRAW_NO_BET", side: "AWAY" },
+  "BTTS_YES": { family: "BTTS", side: "YES" },
+  "BTTS_NO": { family: "BTTS", side: "NO" },
+  "HT_1": { family: "HT_RESULT", side: "HOME" },
+  "HT_X": { family: "HT_RESULT", side: "DRAW" },
+  "HT_2": { family: "HT_RESULT", side: "AWAY" },
+  "HT_BTTS_YES": { family: "HT_BTTS", side: "YES" },
+  "HT_BTTS_NO": { family: "HT_BTTS", side: "NO" },
+  "WIN_BOTH_HALVES_1": { family: "WIN_BOTH_HALVES", side: "HOME" },
+  "WIN_BOTH_HALVES_2": { family: "WIN_BOTH_HALVES", side: "AWAY" },
+  "WIN_EITHER_HALF_1": { family: "WIN_EITHER_HALF", side: "HOME" },
+  "WIN_EITHER_HALF_2": { family: "WIN_EITHER_HALF", side: "AWAY" },
+  "CS_OTHER": { family: "CORRECT_SCORE", side: "OTHER" },
+  "FIRST_CARD_1": { family: "FIRST_CARD", side: "HOME" },
+  "FIRST_CARD_2": { family: "FIRST_CARD", side: "AWAY" },
+  "FIRST_CARD_NONE": { family: "FIRST_CARD", side: "NONE" },
+  "QUALIFY_1": { family: "TO_QUALIFY", side: "HOME" },
+  "QUALIFY_2": { family: "TO_QUALIFY", side: "AWAY" },
+  "MOV_1_90": { family: "METHOD_OF_VICTORY", side: "HOME_REGULAR_TIME" },
+  "MOV_1_ET": { family: "METHOD_OF_VICTORY", side: "HOME_EXTRA_TIME" },
+  "MOV_1_PEN": { family: "METHOD_OF_VICTORY", side: "HOME_PENALTIES" },
+  "MOV_2_90": { family: "METHOD_OF_VICTORY", side: "AWAY_REGULAR_TIME" },
+  "MOV_2_ET": { family: "METHOD_OF_VICTORY", side: "AWAY_EXTRA_TIME" },
+  "MOV_2_PEN": { family: "METHOD_OF_VICTORY", side: "AWAY_PENALTIES" }
+};
+
+// Lines are written with an underscore for the decimal point: 2_5 = 2.5, 2_75 = 2.75
+const LINE_PATTERN = "(\\d+(?:_\\d+)?)";
+const TOTAL_PATTERN = new RegExp(`^(HT_)?(OVER|UNDER)_${LINE_PATTERN}$`);
+const HANDICAP_PATTERN = new RegExp(`^HANDICAP_(1|2)_(MINUS|PLUS)_${LINE_PATTERN}$`);
+const ASIAN_HANDICAP_PATTERN = new RegExp(`^ASIAN_HANDICAP_(1|2)_(MINUS|PLUS)_${LINE_PATTERN}$`);
+const ASIAN_TOTAL_PATTERN = new RegExp(`^ASIAN_(OVER|UNDER)_${LINE_PATTERN}$`);
+const CORRECT_SCORE_PATTERN = /^CS_(\d+)_(\d+)$/;
+const COUNT_PATTERN = new RegExp(`^(${COUNT_MARKET_FAMILIES.join("|")})_(OVER|UNDER)_${LINE_PATTERN}$`);
+
+function parseLine(value: string): number {
+  return parseFloat(value.replace("_", "."));
+}
+
+function formatLine(line: number): string {
+  return Math.abs(line).toString().replace(".", "_");
+}
+
+// Asian lines move in quarter goals: whole, half and quarter lines
+function isAsianLine(line: number): boolean {
+  return Number.isInteger(line * 4);
+}
+
+// Quarter lines (-0.25, 2.75, ...) split the stake across the two nearest
+// half/whole lines, e.g. 2.25 -> 2 and 2.5. Null for any other line.
+export function getQuarterLineSplit(line: number): [number, number] | null {
+  if (Math.abs((line * 4) % 2) !== 1) return null;
+  return [line - 0.25, line + 0.25];
+}
+
+// Reads a market type string into its structure, or null for custom markets
+export function parseMarketType(type: string): MarketSpec | null {
+  const fixed = FIXED_MARKET_TYPES[type];
+  if (fixed) return { ...fixed, line: null };
+
+  const total = TOTAL_PATTERN.exec(type);
+  if (total) {
+    return { family: total[1] ? "HT_TOTAL" : "TOTAL", side: total[2], line: parseLine(total[3]) };
+  }
+
+  const handicap = HANDICAP_PATTERN.exec(type) ?? ASIAN_HANDICAP_PATTERN.exec(type);
+  if (handicap) {
+    const line = parseLine(handicap[3]);
+    return {
+      family: type.startsWith("ASIAN_") ? "ASIAN_HANDICAP" : "HANDICAP",
+      side: handicap[1] === "1" ? "HOME" : "AWAY",
+      line: handicap[2] === "MINUS" ? -line : line
+    };
+  }
+
+  const asianTotal = ASIAN_TOTAL_PATTERN.exec(type);
+  if (asianTotal) {
+    return { family: "ASIAN_TOTAL", side: asianTotal[1], line: parseLine(asianTotal[2]) };
+  }
+
+  const count = COUNT_PATTERN.exec(type);
+  if (count) {
+    return { family: count[1] as MarketFamily, side: count[2], line: parseLine(count[3]) };
+  }
+
+  const correctScore = CORRECT_SCORE_PATTERN.exec(type);
+  if (correctScore) {
+    return { family: "CORRECT_SCORE", side: `${parseInt(correctScore[1])}-${parseInt(correctScore[2])}`, line: null };
+  }
+
+  return null;
+}
+
+// Builds the canonical type string for a market, or null if the structure is not valid
+export function getMarketType(spec: MarketSpec): string | null {
+  const { family, side, line } = spec;
+
+  if (family === "TOTAL" || family === "HT_TOTAL" || family === "ASIAN_TOTAL") {
+    if ((side !== "OVER" && side !== "UNDER") || line === null || line < 0) return null;
+    if (family === "ASIAN_TOTAL" && !isAsianLine(line)) return null;
+    const prefix = family === "HT_TOTAL" ? "HT_" : family === "ASIAN_TOTAL" ? "ASIAN_" : "";
+    return `${prefix}${side}_${formatLine(line)}`;
+  }
+
+  if (family === "HANDICAP" || family === "ASIAN_HANDICAP") {
+    if ((side !== "HOME" && side !== "AWAY") || line === null) return null;
+    if (family === "ASIAN_HANDICAP" && !isAsianLine(line)) return null;
+    const prefix = family === "ASIAN_HANDICAP" ? "ASIAN_HANDICAP" : "HANDICAP";
+    return `${prefix}_${side === "HOME" ? 1 : 2}_${line < 0 ? "MINUS" : "PLUS"}_${formatLine(line)}`;
+  }
+
+  if (COUNT_MARKET_FAMILIES.includes(family)) {
+    if ((side !== "OVER" && side !== "UNDER") || line === null || line < 0) return null;
+    return `${family}_${side}_${formatLine(line)}`;
+  }
+
+  if (family === "CORRECT_SCORE" && side !== "OTHER") {
+    const score = parseCorrectScore(spec);
+    return score ? `CS_${score.home}_${score.away}` : null;
+  }
+
+  const fixedType = Object.keys(FIXED_MARKET_TYPES).find(type =>
+    FIXED_MARKET_TYPES[type].family === family && FIXED_MARKET_TYPES[type].side === side
+  );
+  return fixedType ?? null;
+}
+
+// Structure of a stored market: its columns when set, otherwise parsed from the
+// legacy type string. Null for custom markets.
+export function getMarketSpec(market: Pick<Market, "type" | "family" | "side" | "line">): MarketSpec | null {
+  if (market.family && market.side) {
+    return { family: market.family as MarketFamily, side: market.side, line: market.line };
+  }
+  return parseMarketType(market.type);
+}
+
+// Reads the score a correct score market refers to, e.g. CS_2_1 -> 2-1
+export function parseCorrectScore(market: string | MarketSpec | null): { home: number; away: number } | null {
+  const spec = typeof market === "string" ? parseMarketType(market) : market;
+  if (spec?.family !== "CORRECT_SCORE") return null;
+
+  const score = /^(\d+)-(\d+)$/.exec(spec.side);
+  if (!score) return null;
+  return { home: parseInt(score[1]), away: parseInt(score[2]) };
+}
@@ -0,0 +1,97 @@
+// Reading a match's event timeline: which side each goal counts for, the
+// score the goals add up to and the corner/card counts event markets are
+// graded on. Used by the server to derive scores and settle bets, and by the
+// client to show the running score on the timeline.
+import type { MatchEvent, MatchEventTeam } from "./schema";
+
+export const HALF_TIME_MINUTE = 45;
+
+type TimelineEvent = Pick<MatchEvent, "minute" | "team" | "type">;
+
+const GOAL_EVENT_TYPES = ["GOAL", "OWN_GOAL", "PENALTY_GOAL"];
+
+export function isGoalEvent(event: Pick<MatchEvent, "type">): boolean {
+  return GOAL_EVENT_TYPES.includes(event.type);
+}
+
+// Side a goal counts for: an own goal is scored by a player of the other team
+export function getScoringTeam(event: TimelineEvent): MatchEventTeam | null {
+  if (!isGoalEvent(event)) return null;
+  if (event.type === "OWN_GOAL") return event.team === "HOME" ? "AWAY" : "HOME";
+  return event.team === "HOME" ? "HOME" : "AWAY";
+}
+
+// Events in the order they happened; ties keep the order they were recorded in
+export function sortMatchEvents<T extends TimelineEvent>(events: T[]): T[] {
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.minute - b.event.minute || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+// Score the goal events add up to. Goals up to 45' count for the first half;
+// the half time score is only given once the match is past half time.
+export function getScoreFromEvents(events: TimelineEvent[], pastHalfTime: boolean) {
+  let homeScore = 0, awayScore = 0, htHomeScore = 0, htAwayScore = 0;
+  for (const event of events) {
+    const team = getScoringTeam(event);
+    if (!team) continue;
+
+    const firstHalf = event.minute <= HALF_TIME_MINUTE;
+    if (team === "HOME") {
+      homeScore++;
+      if (firstHalf) htHomeScore++;
+    } else {
+      awayScore++;
+      if (firstHalf) htAwayScore++;
+    }
+  }
+
+  return {
+    homeScore,
+    awayScore,
+    htHomeScore: pastHalfTime ? htHomeScore : null,
+    htAwayScore: pastHalfTime ? htAwayScore : null
+  };
+}
+
+// Booking points per card: 10 for a yellow, 25 for a red
+export const BOOKING_POINTS: Record<string, number> = {
+  YELLOW_CARD: 10,
+  RED_CARD: 25
+};
+
+export function isCardEvent(event: Pick<MatchEvent, "type">): boolean {
+  return event.type in BOOKING_POINTS;
+}
+
+// Counts corner and card markets are graded on
+export interface MatchStats {
+  homeCorners: number;
+  awayCorners: number;
+  cards: number;
+  bookingPoints: number;
+  firstCard: MatchEventTeam | null;  // Side shown the first card, null if none was
+}
+
+// Corner and card counts from the recorded events. Null when nothing was
+// recorded for the match, so markets on them are void rather than graded
+// on counts of zero.
+export function getMatchStats(events: TimelineEvent[]): MatchStats | null {
+  if (events.length === 0) return null;
+
+  const stats: MatchStats = { homeCorners: 0, awayCorners: 0, cards: 0, bookingPoints: 0, firstCard: null };
+  for (const event of sortMatchEvents(events)) {
+    const team = event.team === "HOME" ? "HOME" : "AWAY";
+    if (event.type === "CORNER") {
+      if (team === "HOME") stats.homeCorners++;
+      else stats.awayCorners++;
+    }
+    if (isCardEvent(event)) {
+      stats.cards++;
+      stats.bookingPoints += BOOKING_POINTS[event.type];
+      if (!stats.firstCard) stats.firstCard = team;
+    }
+  }
+  return stats;
+}
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  inferExpectedGoals,
+  createPricingModel,
+  createLivePricingModel,
+  getMatchResultOdds,
+  getFairProbabilities,
+  buildScoreMatrix,
+  getResultProbabilities,
+  priceMarkets
+} from "./pricing";
+
+// Implied probability of a price, margin included
+const implied = (odds: number | null) => 1 / odds!;
+
+describe("inferExpectedGoals", () => {
+  it("recovers the expected goals the 1X2 odds were priced from", () => {
+    const odds = getMatchResultOdds({ home: 1.8, away: 0.9 });
+    const xg = inferExpectedGoals(odds.home, odds.draw, odds.away);
+    assert.ok(Math.abs(xg.home - 1.8) < 0.1, `home ${xg.home}`);
+    assert.ok(Math.abs(xg.away - 0.9) < 0.1, `away ${xg.away}`);
+  });
+
+  it("gives level odds the same expected goals on both sides", () => {
+    const xg = inferExpectedGoals(2.6, 3.2, 2.6);
+    assert.ok(Math.abs(xg.home - xg.away) < 0.01);
+  });
+
+  it("makes the favourite score more", () => {
+    const xg = inferExpectedGoals(4.5, 3.6, 1.75);
+    assert.ok(xg.away > xg.home);
+  });
+});
+
+describe("buildScoreMatrix", () => {
+  it("sums to one", () => {
+    const matrix = buildScoreMatrix({ home: 1.4, away: 1.1 }, -0.1, 10);
+    const total = matrix.flat().reduce((sum, p) => sum + p, 0);
+    assert.ok(Math.abs(total - 1) < 1e-9);
+  });
+
+  it("reproduces the fair 1X2 probabilities of the odds it was fitted to", () => {
+    const model = createPricingModel(2.1, 3.4, 3.6);
+    const fitted = getResultProbabilities(buildScoreMatrix(model.xg, model.options.rho, model.options.maxGoals));
+    const target = getFairProbabilities(2.1, 3.4, 3.6);
+    assert.ok(Math.abs(fitted.home - target.home) < 0.01);
+    assert.ok(Math.abs(fitted.draw - target.draw) < 0.01);
+    assert.ok(Math.abs(fitted.away - target.away) < 0.01);
+  });
+});
+
+describe("createPricingModel", () => {
+  const model = createPricingModel(2.1, 3.4, 3.6);
+
+  it("adds the margin once to both sides of a two-way market", () => {
+    const book = implied(model.price("OVER_2_5")) + implied(model.price("UNDER_2_5"));
+    assert.ok(Math.abs(book - (1 + model.options.margin)) < 0.02, `book ${book}`);
+  });
+
+  it("prices the 1X2 close to the odds it was built from", () => {
+    assert.ok(Math.abs(model.price("1")! - 2.1) < 0.1);
+    assert.ok(Math.abs(model.price("X")! - 3.4) < 0.15);
+    assert.ok(Math.abs(model.price("2")! - 3.6) < 0.15);
+  });
+
+  it("prices a double chance shorter than either result in it", () => {
+    assert.ok(model.price("DC_1X")! < model.price("1")!);
+    assert.ok(model.price("DC_1X")! < model.price("X")!);
+  });
+
+  it("prices higher totals longer", () => {
+    assert.ok(model.price("OVER_1_5")! < model.price("OVER_2_5")!);
+    assert.ok(model.price("OVER_2_5")! < model.price("OVER_3_5")!);
+  });
+
+  it("prices a draw no bet shorter than the win, as the draw is refunded", () => {
+    assert.ok(model.price("DNB_1")! < model.price("1")!);
+  });
+
+  it("never prices below 1.01", () => {
+    const lopsided = createPricingModel(1.05, 15, 40);
+    assert.equal(lopsided.price("DC_1X"), 1.01);
+  });
+
+  it("returns null for markets it cannot price", () => {
+    assert.equal(model.price("SOMETHING_ELSE"), null);
+  });
+});
+
+describe("priceMarkets", () => {
+  it("skips the types the model cannot price", () => {
+    const model = createPricingModel(2.1, 3.4, 3.6);
+    const priced = priceMarkets(model, ["1", "SOMETHING_ELSE", "BTTS_YES"]);
+    assert.deepEqual(priced.map(market => market.type), ["1", "BTTS_YES"]);
+  });
+});
+
+describe("createLivePricingModel", () => {
+  const { xg } = createPricingModel(2.1, 3.4, 3.6);
+  const kickOff = { minute: 0, homeScore: 0, awayScore: 0, htHomeScore: null, htAwayScore: null };
+
+  it("prices totals at kick-off like the pre-match model", () => {
+    const preMatch = createPricingModel(2.1, 3.4, 3.6);
+    const live = createLivePricingModel(xg, kickOff);
+    assert.ok(Math.abs(live.price("OVER_2_5")! - preMatch.price("OVER_2_5")!) < 0.05);
+    assert.equal(live.price("HT_1"), preMatch.price("HT_1"));
+  });
+
+  it("shortens the side that is ahead as the clock runs down", () => {
+    const early = createLivePricingModel(xg, { ...kickOff, minute: 20, homeScore: 1 });
+    const late = createLivePricingModel(xg, { minute: 85, homeScore: 1, awayScore: 0, htHomeScore: 1, htAwayScore: 0 });
+    assert.ok(early.price("1")! < createLivePricingModel(xg, kickOff).price("1")!);
+    assert.ok(late.price("1")! < early.price("1")!);
+  });
+
+  it("leaves markets the current score has already decided unpriced", () => {
+    const live = createLivePricingModel(xg, { minute: 70, homeScore: 1, awayScore: 0, htHomeScore: 0, htAwayScore: 0 });
+    assert.equal(live.price("OVER_0_5"), null);
+    assert.equal(live.price("HT_X"), null);
+    assert.equal(live.price("HT_1"), null);
+    assert.equal(live.price("CS_0_0"), null);
+  });
+
+  it("does not price corner, card or cup tie markets in play", () => {
+    const live = createLivePricingModel(xg, kickOff);
+    assert.equal(live.price("CORNERS_OVER_9_5"), null);
+    assert.equal(live.price("QUALIFY_1"), null);
+  });
+});
@@ -0,0 +1,503 @@
+// Pricing engine shared by CreateMatch and the server.
+// Infers each side's expected goals from the 1X2 prices, builds a Dixon-Coles
+// adjusted Poisson scoreline matrix and prices markets by grading every
+// scoreline with the settlement engine, so a market is always priced by the
+// same rules it is settled by. Corner and card markets are priced the same
+// way from Poisson counts around the expected corners and cards, and cup tie
+// markets by playing level scorelines on into extra time and penalties.
+// In play, the goals still to come are priced the same way on top of the
+// current score.
+import type { MarketFamily, MarketType } from "./schema";
+import { getMarketType, parseMarketType, type MarketSpec } from "./markets";
+import { settleMarket, isHalfTimeMarket, isEventMarket, isTieMarket, CORRECT_SCORE_MAX_GOALS, type MatchResult } from "./settlement";
+import { BOOKING_POINTS, HALF_TIME_MINUTE, type MatchStats } from "./match-events";
+
+export interface PricingOptions {
+  margin: number;          // Bookmaker overround added to every market (0.05 = 5%)
+  rho: number;             // Dixon-Coles correction for 0-0, 1-0, 0-1 and 1-1
+  firstHalfShare: number;  // Share of the expected goals scored before half time
+  maxGoals: number;        // Goals per side covered by the full time matrix
+  expectedCorners: number; // Corners in the match, split between the sides by expected goals
+  expectedCards: number;   // Cards (yellow and red) in the match, split evenly between the sides
+  redCardShare: number;    // Share of the cards that are red
+  extraTimeShare: number;  // Expected goals in extra time as a share of the 90 minutes
+}
+
+export const DEFAULT_PRICING_OPTIONS: PricingOptions = {
+  margin: 0.05,
+  rho: -0.1,
+  firstHalfShare: 0.45,
+  maxGoals: 10,
+  expectedCorners: 10,
+  expectedCards: 4,
+  redCardShare: 0.05,
+  extraTimeShare: 1 / 3
+};
+
+export interface ExpectedGoals {
+  home: number;
+  away: number;
+}
+
+// Where a match in play stands, for pricing the rest of it
+export interface LiveMatchState {
+  minute: number;
+  homeScore: number;
+  awayScore: number;
+  htHomeScore: number | null;  // Known once the first half is over
+  htAwayScore: number | null;
+}
+
+// Probability of each scoreline, indexed [homeGoals][awayGoals]
+export type ScoreMatrix = number[][];
+
+// Every market derived from the 1X2 prices when a match is created
+export const DERIVED_MARKET_TYPES: MarketType[] = [
+  "OVER_0_5", "UNDER_0_5", "OVER_1_5", "UNDER_1_5", "OVER_2_5", "UNDER_2_5",
+  "OVER_3_5", "UNDER_3_5", "OVER_4_5", "UNDER_4_5",
+  "BTTS_YES", "BTTS_NO",
+  "DNB_1", "DNB_2",
+  "DC_1X", "DC_12", "DC_X2",
+  "HT_1", "HT_X", "HT_2",
+  "HT_OVER_0_5", "HT_UNDER_0_5", "HT_OVER_1_5", "HT_UNDER_1_5",
+  "HT_BTTS_YES", "HT_BTTS_NO",
+  "HANDICAP_1_MINUS_1", "HANDICAP_1_MINUS_2", "HANDICAP_2_MINUS_1", "HANDICAP_2_MINUS_2",
+  "WIN_BOTH_HALVES_1", "WIN_BOTH_HALVES_2",
+  "WIN_EITHER_HALF_1", "WIN_EITHER_HALF_2"
+];
+
+// Every correct score from 0-0 to 4-4 plus any other score
+export const CORRECT_SCORE_MARKET_TYPES: MarketType[] = [
+  ...Array.from({ length: CORRECT_SCORE_MAX_GOALS + 1 }, (_, home) =>
+    Array.from({ length: CORRECT_SCORE_MAX_GOALS + 1 }, (_, away): MarketType => `CS_${home}_${away}`)
+  ).flat(),
+  "CS_OTHER"
+];
+
+// Corner and card markets offered when a match is created
+export const EVENT_MARKET_TYPES: MarketType[] = [
+  "CORNERS_OVER_8_5", "CORNERS_UNDER_8_5", "CORNERS_OVER_9_5", "CORNERS_UNDER_9_5",
+  "CORNERS_OVER_10_5", "CORNERS_UNDER_10_5", "CORNERS_OVER_11_5", "CORNERS_UNDER_11_5",
+  "HOME_CORNERS_OVER_4_5", "HOME_CORNERS_UNDER_4_5", "AWAY_CORNERS_OVER_4_5", "AWAY_CORNERS_UNDER_4_5",
+  "CARDS_OVER_3_5", "CARDS_UNDER_3_5", "CARDS_OVER_4_5", "CARDS_UNDER_4_5",
+  "BOOKING_POINTS_OVER_30_5", "BOOKING_POINTS_UNDER_30_5", "BOOKING_POINTS_OVER_40_5", "BOOKING_POINTS_UNDER_40_5",
+  "FIRST_CARD_1", "FIRST_CARD_2", "FIRST_CARD_NONE"
+];
+
+// Cup tie markets offered on knockout matches
+export const CUP_MARKET_TYPES: MarketType[] = [
+  "QUALIFY_1", "QUALIFY_2",
+  "MOV_1_90", "MOV_1_ET", "MOV_1_PEN", "MOV_2_90", "MOV_2_ET", "MOV_2_PEN"
+];
+
+// Goals scored per half are capped lower, the tail beyond is negligible
+const MAX_GOALS_PER_HALF = 6;
+
+// Corners or cards covered by the count distributions
+const MAX_EVENT_COUNT = 40;
+const MAX_RED_CARDS = 5;
+
+// Coarse-to-fine grid used to fit expected goals to the 1X2 prices
+const SEARCH_PASSES = [
+  { step: 0.25, span: 16 },
+  { step: 0.05, span: 5 },
+  { step: 0.01, span: 5 }
+];
+
+function poissonProbabilities(lambda: number, maxGoals: number): number[] {
+  const probabilities = [Math.exp(-lambda)];
+  for (let goals = 1; goals <= maxGoals; goals++) {
+    probabilities.push(probabilities[goals - 1] * lambda / goals);
+  }
+  return probabilities;
+}
+
+// Dixon-Coles dependence factor for low scores
+function dixonColesTau(home: number, away: number, xg: ExpectedGoals, rho: number): number {
+  if (home === 0 && away === 0) return 1 - xg.home * xg.away * rho;
+  if (home === 0 && away === 1) return 1 + xg.home * rho;
+  if (home === 1 && away === 0) return 1 + xg.away * rho;
+  if (home === 1 && away === 1) return 1 - rho;
+  return 1;
+}
+
+// Share of the corners won by the home side: favourites win more corners,
+// but the split is much less lopsided than the goals
+export function getHomeCornerShare(xg: ExpectedGoals): number {
+  return 0.5 + (xg.home - xg.away) / (xg.home + xg.away) / 4;
+}
+
+const NO_STATS: MatchStats = { homeCorners: 0, awayCorners: 0, cards: 0, bookingPoints: 0, firstCard: null };
+
+type Scenario = { result: MatchResult; probability: number };
+
+// A Poisson count distribution turned into match stats for the settlement engine
+function countScenarios(lambda: number, toStats: (count: number) => Partial<MatchStats>): Scenario[] {
+  return poissonProbabilities(lambda, MAX_EVENT_COUNT).map((probability, count) => ({
+    result: { homeScore: 0, awayScore: 0, stats: { ...NO_STATS, ...toStats(count) } },
+    probability
+  }));
+}
+
+function getEventScenarios(family: MarketFamily, xg: ExpectedGoals, options: PricingOptions): Scenario[] {
+  const homeCorners = options.expectedCorners * getHomeCornerShare(xg);
+  const awayCorners = options.expectedCorners - homeCorners;
+  const yellowCards = options.expectedCards * (1 - options.redCardShare);
+  const redCards = options.expectedCards * options.redCardShare;
+
+  switch (family) {
+    case "CORNERS": return countScenarios(options.expectedCorners, count => ({ homeCorners: count }));
+    case "HOME_CORNERS": return countScenarios(homeCorners, count => ({ homeCorners: count }));
+    case "AWAY_CORNERS": return countScenarios(awayCorners, count => ({ awayCorners: count }));
+    case "CARDS": return countScenarios(options.expectedCards, count => ({ cards: count }));
+
+    case "BOOKING_POINTS": {
+      const reds = poissonProbabilities(redCards, MAX_RED_CARDS);
+      return poissonProbabilities(yellowCards, MAX_EVENT_COUNT).flatMap((yellowP, yellows) =>
+        reds.map((redP, red) => ({
+          result: {
+            homeScore: 0,
+            awayScore: 0,
+            stats: { ...NO_STATS, bookingPoints: yellows * BOOKING_POINTS.YELLOW_CARD + red * BOOKING_POINTS.RED_CARD }
+          },
+          probability: yellowP * redP
+        }))
+      );
+    }
+
+    // Either side is as likely to be shown the first card
+    case "FIRST_CARD": {
+      const noCard = Math.exp(-options.expectedCards);
+      return [
+        { result: { homeScore: 0, awayScore: 0, stats: NO_STATS }, probability: noCard },
+        { result: { homeScore: 0, awayScore: 0, stats: { ...NO_STATS, firstCard: "HOME" } }, probability: (1 - noCard) / 2 },
+        { result: { homeScore: 0, awayScore: 0, stats: { ...NO_STATS, firstCard: "AWAY" } }, probability: (1 - noCard) / 2 }
+      ];
+    }
+
+    default: return [];
+  }
+}
+
+export function buildScoreMatrix(xg: ExpectedGoals, rho: number, maxGoals: number): ScoreMatrix {
+  const homeGoals = poissonProbabilities(xg.home, maxGoals);
+  const awayGoals = poissonProbabilities(xg.away, maxGoals);
+
+  const matrix = homeGoals.map((homeP, home) =>
+    awayGoals.map((awayP, away) => Math.max(0, homeP * awayP * dixonColesTau(home, away, xg, rho)))
+  );
+
+  // Normalise so the truncated matrix sums to 1
+  const total = matrix.reduce((sum, row) => sum + row.reduce((rowSum, p) => rowSum + p, 0), 0);
+  return matrix.map(row => row.map(p => p / total));
+}
+
+export function getResultProbabilities(matrix: ScoreMatrix) {
+  let home = 0, draw = 0, away = 0;
+  matrix.forEach((row, homeGoals) => row.forEach((p, awayGoals) => {
+    if (homeGoals > awayGoals) home += p;
+    else if (homeGoals === awayGoals) draw += p;
+    else away += p;
+  }));
+  return { home, draw, away };
+}
+
+// 1X2 odds, margin included, for a match with the given expected goals;
+// the reverse of inferExpectedGoals, for matches priced without odds
+export function getMatchResultOdds(xg: ExpectedGoals, options: Partial<PricingOptions> = {}) {
+  const { rho, maxGoals, margin } = { ...DEFAULT_PRICING_OPTIONS, ...options };
+  const probabilities = getResultProbabilities(buildScoreMatrix(xg, rho, maxGoals));
+  const toOdds = (probability: number) => Math.max(1.01, Math.round(100 / (probability * (1 + margin))) / 100);
+  return {
+    home: toOdds(probabilities.home),
+    draw: toOdds(probabilities.draw),
+    away: toOdds(probabilities.away)
+  };
+}
+
+// Removes the bookmaker margin from 1X2 odds proportionally
+export function getFairProbabilities(homeOdds: number, drawOdds: number, awayOdds: number) {
+  const total = 1 / homeOdds + 1 / drawOdds + 1 / awayOdds;
+  return {
+    home: (1 / homeOdds) / total,
+    draw: (1 / drawOdds) / total,
+    away: (1 / awayOdds) / total
+  };
+}
+
+// Finds the expected goals whose scoreline matrix best reproduces the 1X2 prices.
+// Searches total goals and home supremacy, first on a coarse grid then refining.
+export function inferExpectedGoals(
+  homeOdds: number,
+  drawOdds: number,
+  awayOdds: number,
+  options: Partial<PricingOptions> = {}
+): ExpectedGoals {
+  const { rho, maxGoals } = { ...DEFAULT_PRICING_OPTIONS, ...options };
+  const target = getFairProbabilities(homeOdds, drawOdds, awayOdds);
+
+  const error = (total: number, supremacy: number) => {
+    const xg = { home: (total + supremacy) / 2, away: (total - supremacy) / 2 };
+    if (xg.home <= 0.05 || xg.away <= 0.05) return Infinity;
+
+    const model = getResultProbabilities(buildScoreMatrix(xg, rho, maxGoals));
+    return (model.home - target.home) ** 2 + (model.draw - target.draw) ** 2 + (model.away - target.away) ** 2;
+  };
+
+  let best = { total: 3, supremacy: 0, error: Infinity };
+  for (const { step, span } of SEARCH_PASSES) {
+    const center = { ...best };
+    for (let i = -span; i <= span; i++) {
+      for (let j = -span; j <= span; j++) {
+        const total = center.total + i * step;
+        const supremacy = center.supremacy + j * step;
+        if (total <= 0.2) continue;
+
+        const candidate = error(total, supremacy);
+        if (candidate < best.error) {
+          best = { total, supremacy, error: candidate };
+        }
+      }
+    }
+  }
+
+  return {
+    home: (best.total + best.supremacy) / 2,
+    away: (best.total - best.supremacy) / 2
+  };
+}
+
+function scaleExpectedGoals(xg: ExpectedGoals, share: number): ExpectedGoals {
+  return { home: xg.home * share, away: xg.away * share };
+}
+
+// Scorelines after the two halves (or what is left of them) are played
+// independently on top of the score already reached
+function playHalves(firstHalf: ExpectedGoals, secondHalf: ExpectedGoals, from: LiveMatchState): Scenario[] {
+  const firstHalfGoals = buildScoreMatrix(firstHalf, 0, MAX_GOALS_PER_HALF);
+  const secondHalfGoals = buildScoreMatrix(secondHalf, 0, MAX_GOALS_PER_HALF);
+
+  const scenarios: Scenario[] = [];
+  firstHalfGoals.forEach((row, firstHome) => row.forEach((firstP, firstAway) => {
+    if (firstP === 0) return;
+    const htHomeScore = from.htHomeScore ?? from.homeScore + firstHome;
+    const htAwayScore = from.htAwayScore ?? from.awayScore + firstAway;
+
+    secondHalfGoals.forEach((secondRow, secondHome) => secondRow.forEach((secondP, secondAway) => {
+      if (secondP === 0) return;
+      scenarios.push({
+        result: {
+          homeScore: from.homeScore + firstHome + secondHome,
+          awayScore: from.awayScore + firstAway + secondAway,
+          htHomeScore,
+          htAwayScore
+        },
+        probability: firstP * secondP
+      });
+    }));
+  }));
+  return scenarios;
+}
+
+const KICK_OFF: LiveMatchState = { minute: 0, homeScore: 0, awayScore: 0, htHomeScore: null, htAwayScore: null };
+
+// Converts a market's outcome distribution into fair decimal odds.
+// Pushes and half results are accounted for so the expected return is exactly 1.
+function getFairOdds(scenarios: Scenario[], market: string | MarketSpec): number | null {
+  let won = 0, halfWon = 0, refunded = 0, halfLost = 0;
+  for (const { result, probability } of scenarios) {
+    switch (settleMarket(market, result)) {
+      case "WON": won += probability; break;
+      case "HALF_WON": halfWon += probability; break;
+      case "PUSH":
+      case "VOID": refunded += probability; break;
+      case "HALF_LOST": halfLost += probability; break;
+    }
+  }
+
+  const winningWeight = won + halfWon / 2;
+  if (winningWeight < 1e-6) return null;
+  return (1 - halfWon / 2 - refunded - halfLost / 2) / winningWeight;
+}
+
+export interface PricingModel {
+  xg: ExpectedGoals;
+  options: PricingOptions;
+  // Odds for a market type or structure, or null when it cannot be priced from the model
+  price(market: string | MarketSpec): number | null;
+}
+
+export function createPricingModel(
+  homeOdds: number,
+  drawOdds: number,
+  awayOdds: number,
+  overrides: Partial<PricingOptions> = {}
+): PricingModel {
+  const options = { ...DEFAULT_PRICING_OPTIONS, ...overrides };
+  const xg = inferExpectedGoals(homeOdds, drawOdds, awayOdds, options);
+
+  // Full time scorelines for markets graded on the final score only
+  const fullTime = buildScoreMatrix(xg, options.rho, options.maxGoals).flatMap((row, homeScore) =>
+    row.map((probability, awayScore) => ({ result: { homeScore, awayScore }, probability }))
+  );
+
+  // Half time and second half scored independently for half based markets
+  let halves: Scenario[] | null = null;
+  const getHalves = () => {
+    halves ??= playHalves(
+      scaleExpectedGoals(xg, options.firstHalfShare),
+      scaleExpectedGoals(xg, 1 - options.firstHalfShare),
+      KICK_OFF
+    );
+    return halves;
+  };
+
+  // Level scorelines go to extra time and, if still level, to a shoot-out
+  // either side is as likely to win
+  let ties: Scenario[] | null = null;
+  const getTies = () => {
+    if (ties) return ties;
+
+    const extraTime = buildScoreMatrix(
+      { home: xg.home * options.extraTimeShare, away: xg.away * options.extraTimeShare }, 0, MAX_GOALS_PER_HALF
+    );
+
+    ties = fullTime.flatMap(({ result, probability }): Scenario[] => {
+      if (result.homeScore !== result.awayScore) return [{ result, probability }];
+
+      return extraTime.flatMap((row, etHome) => row.flatMap((etP, etAway): Scenario[] => {
+        const afterExtraTime = {
+          ...result,
+          etHomeScore: result.homeScore + etHome,
+          etAwayScore: result.awayScore + etAway
+        };
+        if (etHome !== etAway) return [{ result: afterExtraTime, probability: probability * etP }];
+        return [
+          { result: { ...afterExtraTime, penHomeScore: 5, penAwayScore: 4 }, probability: probability * etP / 2 },
+          { result: { ...afterExtraTime, penHomeScore: 4, penAwayScore: 5 }, probability: probability * etP / 2 }
+        ];
+      }));
+    });
+    return ties;
+  };
+
+  // Corner and card counts, built once per market family
+  const eventScenarios = new Map<MarketFamily, Scenario[]>();
+  const getEvents = (market: string | MarketSpec) => {
+    const spec = typeof market === "string" ? parseMarketType(market) : market;
+    if (!spec) return [];
+    if (!eventScenarios.has(spec.family)) {
+      eventScenarios.set(spec.family, getEventScenarios(spec.family, xg, options));
+    }
+    return eventScenarios.get(spec.family)!;
+  };
+
+  return {
+    xg,
+    options,
+    price(market: string | MarketSpec) {
+      const scenarios = isEventMarket(market) ? getEvents(market)
+        : isHalfTimeMarket(market) ? getHalves()
+        : isTieMarket(market) ? getTies()
+        : fullTime;
+      return withMargin(getFairOdds(scenarios, market), options);
+    }
+  };
+}
+
+// Prices the rest of a match in play from the pre-match expected goals: the
+// goals still to come are scored at the same rates over the minutes left and
+// added to the current score. Corner, card and cup tie markets are not priced
+// in play (null), nor are markets already decided either way.
+export function createLivePricingModel(
+  xg: ExpectedGoals,
+  state: LiveMatchState,
+  overrides: Partial<PricingOptions> = {}
+): PricingModel {
+  const options = { ...DEFAULT_PRICING_OPTIONS, ...overrides };
+  const firstHalfLeft = Math.max(0, HALF_TIME_MINUTE - state.minute) / HALF_TIME_MINUTE;
+  const secondHalfLeft = Math.min(1, Math.max(0, HALF_TIME_MINUTE * 2 - state.minute) / HALF_TIME_MINUTE);
+  const scenarios = playHalves(
+    scaleExpectedGoals(xg, options.firstHalfShare * firstHalfLeft),
+    scaleExpectedGoals(xg, (1 - options.firstHalfShare) * secondHalfLeft),
+    state
+  );
+
+  return {
+    xg,
+    options,
+    price(market: string | MarketSpec) {
+      if (isEventMarket(market) || isTieMarket(market)) return null;
+
+      // Fair odds of 1.00 mean the market has already won
+      const fairOdds = getFairOdds(scenarios, market);
+      if (fairOdds === null || fairOdds < 1 + 1e-6) return null;
+      return withMargin(fairOdds, options);
+    }
+  };
+}
+
+// Bookmaker odds for fair odds: margin added, rounded to two decimals
+function withMargin(fairOdds: number | null, options: PricingOptions): number | null {
+  if (fairOdds === null) return null;
+
+  const odds = fairOdds / (1 + options.margin);
+  return Math.max(1.01, Math.round(odds * 100) / 100);
+}
+
+// Prices the given market types with a model, skipping any that cannot be priced
+export function priceMarkets(
+  model: PricingModel,
+  marketTypes: string[] = DERIVED_MARKET_TYPES
+): { type: string; odds: number }[] {
+  return marketTypes.flatMap(type => {
+    const odds = model.price(type);
+    return odds === null ? [] : [{ type, odds }];
+  });
+}
+
+// Asian lines run in quarter goals; the main line is the one whose two sides
+// are priced closest to each other
+const ASIAN_HANDICAP_LINES = Array.from({ length: 25 }, (_, i) => -3 + i * 0.25);
+const ASIAN_TOTAL_LINES = Array.from({ length: 21 }, (_, i) => 0.5 + i * 0.25);
+
+function findMainLine(lines: number[], getPrices: (line: number) => [number | null, number | null]): number {
+  let mainLine = lines[0];
+  let smallestGap = Infinity;
+  for (const line of lines) {
+    const [first, second] = getPrices(line);
+    if (first === null || second === null) continue;
+
+    const gap = Math.abs(first - second);
+    if (gap < smallestGap) {
+      mainLine = line;
+      smallestGap = gap;
+    }
+  }
+  return mainLine;
+}
+
+// Asian handicap and Asian total markets (both sides) for the main line and
+// the given number of quarter lines either side of it
+export function getAsianMarketTypes(model: PricingModel, linesEachSide = 1): MarketType[] {
+  const around = (mainLine: number) =>
+    Array.from({ length: linesEachSide * 2 + 1 }, (_, i) => mainLine + (i - linesEachSide) * 0.25);
+
+  const handicapType = (side: "HOME" | "AWAY", line: number) =>
+    getMarketType({ family: "ASIAN_HANDICAP", side, line }) as MarketType;
+  const totalType = (side: "OVER" | "UNDER", line: number) =>
+    getMarketType({ family: "ASIAN_TOTAL", side, line }) as MarketType;
+
+  // Home line and the mirrored away line are the two sides of one handicap
+  const mainHandicap = findMainLine(ASIAN_HANDICAP_LINES, line =>
+    [model.price(handicapType("HOME", line)), model.price(handicapType("AWAY", -line))]
+  );
+  const mainTotal = findMainLine(ASIAN_TOTAL_LINES, line =>
+    [model.price(totalType("OVER", line)), model.price(totalType("UNDER", line))]
+  );
+
+  return [
+    ...around(mainHandicap).flatMap(line => [handicapType("HOME", line), handicapType("AWAY", -line)]),
+    ...around(mainTotal).filter(line => line > 0).flatMap(line => [totalType("OVER", line), totalType("UNDER", line)])
+  ];
+}
@@ -1,6 +1,7 @@
 import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { getMarketType } from "./markets";
 
 // User table
 export const users = pgTable("users", {
@@ -8,6 +9,7 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   balance: real("balance").notNull().default(10000),
+  role: text("role").notNull().default("bettor"), // admin (bookmaker), bettor
 });
 
 // League table
@@ -16,6 +18,29 @@ export const leagues = pgTable("leagues", {
   name: text("name").notNull(),
   country: text("country").notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  pointsForWin: integer("points_for_win").notNull().default(3),
+  pointsForDraw: integer("points_for_draw").notNull().default(1),
+  pointsForLoss: integer("points_for_loss").notNull().default(0),
+  tiebreakers: jsonb("tiebreakers").$type<StandingsTiebreaker[]>(), // Order teams level on points are split in; null for the default
+  format: text("format").notNull().default("LEAGUE"), // LEAGUE (round-robin table) or CUP (knockout bracket)
+});
+
+// Seasons table (a league's campaign, e.g. "2024/25")
+export const seasons = pgTable("seasons", {
+  id: serial("id").primaryKey(),
+  leagueId: integer("league_id").notNull(),
+  name: text("name").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+});
+
+// Rounds table (the matchdays of a season)
+export const rounds = pgTable("rounds", {
+  id: serial("id").primaryKey(),
+  seasonId: integer("season_id").notNull(),
+  number: integer("number").notNull(), // 1-based, unique within the season
+  name: text("name"), // Shown instead of the number when set, e.g. "Final"
+  startTime: timestamp("start_time"), // Planned kick-off, used for cup ties drawn once the previous round is played
 });
 
 // Teams table
@@ -38,12 +63,21 @@ export const matches = pgTable("matches", {
   homeTeamLogo: text("home_team_logo"),
   awayTeamLogo: text("away_team_logo"),
   leagueId: integer("league_id").notNull(),
+  seasonId: integer("season_id"), // Null for matches outside any season
+  roundId: integer("round_id"),
   startTime: timestamp("start_time").notNull(),
   homeScore: integer("home_score"),
   awayScore: integer("away_score"),
   htHomeScore: integer("ht_home_score"),
   htAwayScore: integer("ht_away_score"),
-  status: text("status").notNull().default("UPCOMING"), // UPCOMING, LIVE, FINISHED
+  etHomeScore: integer("et_home_score"), // Score after extra time, 90 minute goals included; null if none was played
+  etAwayScore: integer("et_away_score"),
+  penHomeScore: integer("pen_home_score"), // Penalty shoot-out; null if there was none
+  penAwayScore: integer("pen_away_score"),
+  walkoverWinner: text("walkover_winner"), // HOME or AWAY: goes through a cup tie that was abandoned or cancelled
+  bracketSlot: integer("bracket_slot"), // 0-based position in a cup round; slots 2n and 2n+1 meet in slot n of the next round
+  status: text("status").notNull().default("UPCOMING"), // UPCOMING, LIVE, FINISHED, POSTPONED, ABANDONED, CANCELLED
+  minute: integer("minute"), // Match clock while the match is simulated live
   isCustom: boolean("is_custom").notNull().default(false),
 });
 
@@ -51,9 +85,28 @@ export const matches = pgTable("matches", {
 export const markets = pgTable("markets", {
   id: serial("id").primaryKey(),
   matchId: integer("match_id").notNull(),
-  type: text("type").notNull(), // 1, X, 2, OVER, UNDER, etc.
+  type: text("type").notNull(), // 1, X, 2, OVER_2_5, etc. Free text for custom markets
+  family: text("family"), // MATCH_RESULT, TOTAL, HANDICAP, etc. Null for custom markets
+  side: text("side"), // HOME, DRAW, AWAY, OVER, UNDER, YES, NO, etc.
+  line: real("line"), // Goal line for totals, handicap for handicaps
   odds: real("odds").notNull(),
   isLocked: boolean("is_locked").notNull().default(false),
+  isLive: boolean("is_live").notNull().default(false), // Stays open in play; pre-match markets lock at kick-off
+  isSuspended: boolean("is_suspended").notNull().default(false), // Closed in play after a goal until repriced
+  suspendedAt: timestamp("suspended_at"), // Start of the current suspension
+  oddsUpdatedAt: timestamp("odds_updated_at"), // Last price change, a suspension is only lifted after one
+  result: text("result"), // WON, LOST or VOID, graded by hand for custom markets
+});
+
+// Match events table (timeline of goals, cards, corners and substitutions)
+export const matchEvents = pgTable("match_events", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull(),
+  minute: integer("minute").notNull(),
+  team: text("team").notNull(), // HOME, AWAY - the side of the player involved
+  type: text("type").notNull(), // GOAL, OWN_GOAL, PENALTY_GOAL, YELLOW_CARD, RED_CARD, CORNER, SUBSTITUTION
+  playerName: text("player_name"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Bets table 
@@ -63,7 +116,9 @@ export const bets = pgTable("bets", {
   stake: real("stake").notNull(),
   totalOdds: real("total_odds").notNull(),
   potentialWin: real("potential_win").notNull(),
-  status: text("status").notNull().default("PENDING"), // PENDING, WON, LOST
+  status: text("status").notNull().default("PENDING"), // PENDING, WON, LOST, PUSH, HALF_WON, HALF_LOST
+  payout: real("payout"), // Amount returned on settlement, null while pending
+  regradedAt: timestamp("regraded_at"), // Set when a score correction changed the result
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -73,6 +128,19 @@ export const betSelections = pgTable("bet_selections", {
   betId: integer("bet_id").notNull(),
   marketId: integer("market_id").notNull(),
   odds: real("odds").notNull(),
+  status: text("status").notNull().default("PENDING"), // PENDING or a settlement outcome: WON, LOST, PUSH, VOID, HALF_WON, HALF_LOST
+});
+
+// Wallet transactions table (append-only ledger behind users.balance)
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // DEPOSIT, STAKE, PAYOUT, REFUND, BONUS, ADJUSTMENT
+  amount: real("amount").notNull(), // Signed: credits are positive, debits negative
+  balanceAfter: real("balance_after").notNull(),
+  betId: integer("bet_id"),
+  description: text("description"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Insert schemas
@@ -80,12 +148,75 @@ export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   balance: true,
+  role: true,
 });
 
+export type UserRole = "admin" | "bettor";
+
+// Ways teams level on points are separated in the standings, applied in
+// the league's order. Head-to-head ranks on a mini-table of the games
+// between the tied teams only.
+export const STANDINGS_TIEBREAKERS = [
+  "GOAL_DIFFERENCE", "GOALS_FOR", "HEAD_TO_HEAD", "WINS", "AWAY_GOALS"
+] as const;
+export type StandingsTiebreaker = typeof STANDINGS_TIEBREAKERS[number];
+
+export const LEAGUE_FORMATS = ["LEAGUE", "CUP"] as const;
+export type LeagueFormat = typeof LEAGUE_FORMATS[number];
+
 export const insertLeagueSchema = createInsertSchema(leagues).pick({
   name: true,
   country: true,
   isActive: true,
+  pointsForWin: true,
+  pointsForDraw: true,
+  pointsForLoss: true,
+  format: true,
+}).extend({
+  format: z.enum(LEAGUE_FORMATS).optional(),
+  pointsForWin: z.number().int().min(0).max(10).optional(),
+  pointsForDraw: z.number().int().min(0).max(10).optional(),
+  pointsForLoss: z.number().int().min(-10).max(10).optional(),
+  tiebreakers: z.array(z.enum(STANDINGS_TIEBREAKERS))
+    .refine(tiebreakers => new Set(tiebreakers).size === tiebreakers.length, "Tiebreakers must not repeat")
+    .nullish(),
+});
+
+// Standings rules and format an admin can change on an existing league
+export const updateLeagueRulesSchema = insertLeagueSchema.pick({
+  format: true,
+  pointsForWin: true,
+  pointsForDraw: true,
+  pointsForLoss: true,
+  tiebreakers: true,
+});
+
+const dateInput = z.union([
+  z.date(),
+  z.string().transform((str) => new Date(str))
+]).refine(date => !isNaN(date.getTime()), "Invalid date");
+
+export const insertSeasonSchema = createInsertSchema(seasons).pick({
+  leagueId: true,
+  name: true,
+}).extend({
+  name: z.string().trim().min(1).max(50),
+  startDate: dateInput,
+  endDate: dateInput,
+}).refine(season => season.endDate >= season.startDate, {
+  message: "The season must end after it starts",
+  path: ["endDate"],
+});
+
+export const insertRoundSchema = createInsertSchema(rounds).pick({
+  seasonId: true,
+  number: true,
+  name: true,
+  startTime: true,
+}).extend({
+  number: z.number().int().min(1),
+  name: z.string().trim().min(1).max(50).nullish(),
+  startTime: dateInput.nullish(),
 });
 
 export const insertTeamSchema = createInsertSchema(teams).pick({
@@ -96,6 +227,9 @@ export const insertTeamSchema = createInsertSchema(teams).pick({
   league: true,
 });
 
+export const MATCH_STATUSES = ["UPCOMING", "LIVE", "FINISHED", "POSTPONED", "ABANDONED", "CANCELLED"] as const;
+export type MatchStatus = typeof MATCH_STATUSES[number];
+
 // Custom schema for match with date validation
 const baseMatchSchema = createInsertSchema(matches).pick({
   homeTeamId: true,
@@ -103,6 +237,9 @@ const baseMatchSchema = createInsertSchema(matches).pick({
   homeTeamName: true,
   awayTeamName: true,
   leagueId: true,
+  seasonId: true,
+  roundId: true,
+  bracketSlot: true,
   startTime: true,
   homeScore: true,
   awayScore: true,
@@ -120,37 +257,92 @@ export const insertMatchSchema = baseMatchSchema.extend({
   awayTeamLogo: z.string().optional(),
   htHomeScore: z.number().optional(),
   htAwayScore: z.number().optional(),
-  startTime: z.union([
-    z.date(),
-    z.string().transform((str) => new Date(str))
-  ])
+  status: z.enum(MATCH_STATUSES).optional(),
+  startTime: dateInput
+});
+
+export const MARKET_FAMILIES = [
+  "MATCH_RESULT", "DOUBLE_CHANCE", "DRAW_NO_BET", "TOTAL", "BTTS",
+  "HT_RESULT", "HT_TOTAL", "HT_BTTS", "HANDICAP",
+  "WIN_BOTH_HALVES", "WIN_EITHER_HALF", "CORRECT_SCORE",
+  "ASIAN_HANDICAP", "ASIAN_TOTAL",
+  "CORNERS", "HOME_CORNERS", "AWAY_CORNERS", "CARDS", "BOOKING_POINTS", "FIRST_CARD",
+  "TO_QUALIFY", "METHOD_OF_VICTORY"
+] as const;
+export type MarketFamily = typeof MARKET_FAMILIES[number];
+
+// Results an admin can give a custom market
+export const MARKET_RESULTS = ["WON", "LOST", "VOID"] as const;
+export type MarketResult = typeof MARKET_RESULTS[number];
+
+export const MATCH_EVENT_TYPES = [
+  "GOAL", "OWN_GOAL", "PENALTY_GOAL", "YELLOW_CARD", "RED_CARD", "CORNER", "SUBSTITUTION"
+] as const;
+export type MatchEventType = typeof MATCH_EVENT_TYPES[number];
+
+export const MATCH_EVENT_TEAMS = ["HOME", "AWAY"] as const;
+export type MatchEventTeam = typeof MATCH_EVENT_TEAMS[number];
+
+export const insertMatchEventSchema = createInsertSchema(matchEvents).pick({
+  matchId: true,
+  minute: true,
+  team: true,
+  type: true,
+  playerName: true,
+}).extend({
+  minute: z.number().int().min(0).max(130),
+  team: z.enum(MATCH_EVENT_TEAMS),
+  type: z.enum(MATCH_EVENT_TYPES),
+  playerName: z.string().trim().max(100).nullish(),
 });
 
-export const insertMarketSchema = createInsertSchema(markets).pick({
+const baseMarketSchema = createInsertSchema(markets).pick({
   matchId: true,
   type: true,
+  family: true,
+  side: true,
+  line: true,
   odds: true,
   isLocked: true,
+  isLive: true,
+}).extend({
+  family: z.enum(MARKET_FAMILIES).nullish(),
+});
+
+const hasValidMarketSpec = (market: Pick<z.infer<typeof baseMarketSchema>, "family" | "side" | "line">) =>
+  !market.family || getMarketType({ family: market.family, side: market.side ?? "", line: market.line ?? null }) !== null;
+const invalidMarketSpec = { message: "Invalid market side or line for its family", path: ["side"] };
+
+export const insertMarketSchema = baseMarketSchema.refine(hasValidMarketSpec, invalidMarketSpec);
+
+// A new match with the markets opened on it, checked in full before anything is stored
+export const createMatchSchema = insertMatchSchema.extend({
+  markets: z.array(baseMarketSchema.omit({ matchId: true }).refine(hasValidMarketSpec, invalidMarketSpec)).default([]),
 });
 
 // Extended market types
 export type MarketType = 
   | "1" | "X" | "2"           // 1X2
-  | "OVER_1_5" | "UNDER_1_5"  // Total Goals 1.5
-  | "OVER_2_5" | "UNDER_2_5"  // Total Goals 2.5 
-  | "OVER_3_5" | "UNDER_3_5"  // Total Goals 3.5
+  | `OVER_${string}` | `UNDER_${string}` // Total Goals (OVER_2_5 = over 2.5)
   | "BTTS_YES" | "BTTS_NO"    // Both Teams To Score
   | "DNB_1" | "DNB_2"         // Draw No Bet
   | "DC_1X" | "DC_12" | "DC_X2" // Double Chance
   | "HT_1" | "HT_X" | "HT_2"  // Half Time Result
-  | "HT_OVER_0_5" | "HT_UNDER_0_5" // Half Time Goals 0.5
-  | "HT_OVER_1_5" | "HT_UNDER_1_5" // Half Time Goals 1.5
+  | `HT_OVER_${string}` | `HT_UNDER_${string}` // Half Time Goals (HT_OVER_0_5 = over 0.5)
   | "HT_BTTS_YES" | "HT_BTTS_NO"   // Half Time Both Teams Score
-  | "HANDICAP_1_MINUS_1" | "HANDICAP_1_MINUS_2" // Home Handicap -1, -2
-  | "HANDICAP_2_MINUS_1" | "HANDICAP_2_MINUS_2" // Away Handicap -1, -2
+  | `HANDICAP_${1 | 2}_${"MINUS" | "PLUS"}_${string}` // Home/Away Handicap (HANDICAP_1_MINUS_1 = home -1)
+  | `ASIAN_HANDICAP_${1 | 2}_${"MINUS" | "PLUS"}_${string}` // Asian Handicap (ASIAN_HANDICAP_1_MINUS_0_25 = home -0.25)
+  | `ASIAN_OVER_${string}` | `ASIAN_UNDER_${string}` // Asian Total Goals (ASIAN_OVER_2_25 = over 2.25)
   | "WIN_BOTH_HALVES_1" | "WIN_BOTH_HALVES_2"   // Win Both Halves
   | "WIN_EITHER_HALF_1" | "WIN_EITHER_HALF_2"   // Win Either Half
-  | "CORRECT_SCORE"           // Correct Score (specific scores)
+  | `CS_${number}_${number}`  // Correct Score (e.g. CS_2_1 = 2-1)
+  | "CS_OTHER"                // Correct Score - any score not offered
+  | `${"CORNERS" | "HOME_CORNERS" | "AWAY_CORNERS"}_${"OVER" | "UNDER"}_${string}` // Total/team corners (CORNERS_OVER_9_5)
+  | `CARDS_${"OVER" | "UNDER"}_${string}` // Total cards (CARDS_OVER_3_5)
+  | `BOOKING_POINTS_${"OVER" | "UNDER"}_${string}` // Booking points, 10 a yellow and 25 a red (BOOKING_POINTS_OVER_40_5)
+  | "FIRST_CARD_1" | "FIRST_CARD_2" | "FIRST_CARD_NONE" // Team shown the first card
+  | "QUALIFY_1" | "QUALIFY_2" // Cup tie: team that goes through, after extra time and penalties
+  | `MOV_${1 | 2}_${"90" | "ET" | "PEN"}` // Cup tie: winner and how, in 90 minutes, extra time or on penalties
   | "CUSTOM";                 // Custom markets
 
 export const insertBetSchema = createInsertSchema(bets).pick({
@@ -167,24 +359,140 @@ export const insertBetSelectionSchema = createInsertSchema(betSelections).pick({
   odds: true,
 });
 
+export const insertTransactionSchema = createInsertSchema(transactions).pick({
+  userId: true,
+  type: true,
+  amount: true,
+  betId: true,
+  description: true,
+});
+
+export type TransactionType = "DEPOSIT" | "STAKE" | "PAYOUT" | "REFUND" | "BONUS" | "ADJUSTMENT";
+
+// Bet slip sent by the client: the odds are the prices the user saw,
+// total odds and potential win are always recomputed by the server
+export const placeBetSchema = z.object({
+  stake: z.number().positive("Stake must be greater than zero"),
+  selections: z.array(z.object({
+    marketId: z.number().int(),
+    odds: z.number().positive(),
+  })).min(1, "At least one selection is required"),
+});
+
+const fixtureTeamSchema = z.object({
+  teamId: z.number().int().optional(),
+  name: z.string().trim().min(1).max(100).optional(),
+}).refine(team => team.teamId !== undefined || team.name, "Each team needs an ID or a name");
+
+// Season generator request: each team is a seeded team ID or a custom
+// name. Every fixture is priced from the same expected goals, home side first.
+export const generateFixturesSchema = z.object({
+  teams: z.array(fixtureTeamSchema)
+    .min(2, "At least two teams are required")
+    .max(40, "At most 40 teams are supported"),
+  doubleRoundRobin: z.boolean().default(true),
+  startTime: z.union([
+    z.date(),
+    z.string().transform((str) => new Date(str))
+  ]).refine(date => !isNaN(date.getTime()), "Invalid start time"),
+  seasonId: z.number().int().optional(),
+  daysBetweenRounds: z.number().int().min(1).max(60).default(7),
+  homeExpectedGoals: z.number().min(0.2).max(5).default(1.5),
+  awayExpectedGoals: z.number().min(0.2).max(5).default(1.15),
+  margin: z.number().min(0).max(0.3).default(0.05),
+  preview: z.boolean().default(false),
+});
+
+// Cup draw request: teams are paired in the order given (1 v 2, 3 v 4, ...)
+// and the field must fill the bracket, so there are no byes
+export const generateBracketSchema = generateFixturesSchema.omit({ doubleRoundRobin: true }).extend({
+  teams: z.array(fixtureTeamSchema)
+    .min(2, "At least two teams are required")
+    .max(64, "At most 64 teams are supported")
+    .refine(teams => Number.isInteger(Math.log2(teams.length)), "A bracket needs 2, 4, 8, 16, 32 or 64 teams"),
+  seasonId: z.number().int(),
+});
+
+// Football Manager import: the exported table as text, plus the admin's
+// corrections for team names that were matched wrongly or not at all
+// (a team ID, "CUSTOM" to keep the name as a custom team, or "SKIP")
+export const importResultsSchema = z.object({
+  content: z.string().min(1, "The file is empty").max(5_000_000, "The file is too large"),
+  dateOrder: z.enum(["DMY", "MDY"]).default("DMY"),
+  teamMappings: z.record(z.string(), z.union([z.number().int(), z.literal("CUSTOM"), z.literal("SKIP")])).default({}),
+  // Competitions of the file to import; left out, those named like the league are picked
+  competitions: z.array(z.string()).optional(),
+  preview: z.boolean().default(false),
+});
+
 // Extended types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertLeague = z.infer<typeof insertLeagueSchema>;
+export type UpdateLeagueRules = z.infer<typeof updateLeagueRulesSchema>;
+export type InsertSeason = z.infer<typeof insertSeasonSchema>;
+export type InsertRound = z.infer<typeof insertRoundSchema>;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 export type InsertMatch = z.infer<typeof insertMatchSchema>;
 export type InsertMarket = z.infer<typeof insertMarketSchema>;
+export type InsertMatchEvent = z.infer<typeof insertMatchEventSchema>;
 export type InsertBet = z.infer<typeof insertBetSchema>;
 export type InsertBetSelection = z.infer<typeof insertBetSelectionSchema>;
+export type PlaceBet = z.infer<typeof placeBetSchema>;
+export type GenerateFixtures = z.input<typeof generateFixturesSchema>;
+export type GenerateFixturesRequest = z.output<typeof generateFixturesSchema>;
+export type GenerateBracket = z.input<typeof generateBracketSchema>;
+export type GenerateBracketRequest = z.output<typeof generateBracketSchema>;
+export type ImportResults = z.input<typeof importResultsSchema>;
+export type ImportResultsRequest = z.output<typeof importResultsSchema>;
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
 export type User = typeof users.$inferSelect;
 export type League = typeof leagues.$inferSelect;
+export type Season = typeof seasons.$inferSelect;
+export type Round = typeof rounds.$inferSelect;
 export type Team = typeof teams.$inferSelect;
 export type Match = typeof matches.$inferSelect;
 export type Market = typeof markets.$inferSelect;
+export type MatchEvent = typeof matchEvents.$inferSelect;
 export type Bet = typeof bets.$inferSelect;
 export type BetSelection = typeof betSelections.$inferSelect;
+export type Transaction = typeof transactions.$inferSelect;
 
 // Extended types for the frontend
+export type PublicUser = Omit<User, "password">;
+
+export type BetPlacementErrorCode =
+  | "ODDS_CHANGED"          // One or more prices moved since the slip was built
+  | "MARKET_NOT_FOUND"
+  | "MARKET_LOCKED"
+  | "MARKET_SUSPENDED"      // Live market briefly closed after a goal
+  | "MATCH_STARTED"         // Past kick-off for a pre-match market, or the match is over
+  | "DUPLICATE_SELECTION"
+  | "INSUFFICIENT_BALANCE";
+
+export interface OddsChange {
+  marketId: number;
+  oldOdds: number;
+  newOdds: number;
+}
+
+// A settled bet whose result changed after a score correction
+export interface RegradedBet {
+  betId: number;
+  userId: number;
+  previousStatus: string;
+  status: string;
+  previousPayout: number;
+  payout: number | null;
+}
+
+// Body returned by POST /api/bets when a bet is rejected
+export interface BetPlacementErrorBody {
+  message: string;
+  code: BetPlacementErrorCode;
+  changes?: OddsChange[];
+}
+
 export interface MatchWithTeamsAndMarkets {
   id: number;
   homeTeam?: Team;
@@ -194,16 +502,38 @@ export interface MatchWithTeamsAndMarkets {
   homeTeamLogo?: string;
   awayTeamLogo?: string;
   league: League;
+  seasonId: number | null;
+  roundId: number | null;
   startTime: Date;
   homeScore: number | null;
   awayScore: number | null;
   htHomeScore: number | null;
   htAwayScore: number | null;
+  etHomeScore: number | null;
+  etAwayScore: number | null;
+  penHomeScore: number | null;
+  penAwayScore: number | null;
+  walkoverWinner: string | null;
+  bracketSlot: number | null;
   status: string;
+  minute: number | null;
   isCustom: boolean;
   markets: Market[];
+  events: MatchEvent[];
 }
 
+// Live state of a match pushed to every client over the /ws WebSocket
+export type MatchLiveState = Pick<
+  MatchWithTeamsAndMarkets,
+  | "id" | "status" | "homeScore" | "awayScore" | "htHomeScore" | "htAwayScore"
+  | "etHomeScore" | "etAwayScore" | "penHomeScore" | "penAwayScore" | "walkoverWinner" | "minute" | "events"
+>;
+
+// Messages sent over the /ws WebSocket when a match or market changes
+export type LiveUpdate =
+  | { type: "match"; match: MatchLiveState }
+  | { type: "market"; market: Market };
+
 export interface BetWithSelections {
   id: number;
   userId: number;
@@ -211,10 +541,77 @@ export interface BetWithSelections {
   totalOdds: number;
   potentialWin: number;
   status: string;
+  payout: number | null;
+  regradedAt: Date | null;
   createdAt: Date;
   selections: (BetSelection & {
     market: Market & {
       match: MatchWithTeamsAndMarkets;
     };
   })[];
-}
\ No newline at end of file
+}
+
+// A fixture from the season generator, as previewed and then created
+export interface GeneratedFixture {
+  round: number;
+  startTime: Date;
+  homeTeamId: number | null;
+  awayTeamId: number | null;
+  homeTeamName: string;
+  awayTeamName: string;
+  bracketSlot?: number;  // Cup draws only
+}
+
+export interface GeneratedFixtures {
+  rounds: number;
+  fixtures: GeneratedFixture[];
+  markets: { type: string; odds: number }[];  // Opened on every fixture
+  created: Match[];                           // Empty for a preview
+}
+
+export interface GeneratedBracket extends GeneratedFixtures {
+  roundNames: string[];  // From the first round to the final
+}
+
+// What an imported row does: create a fixture, create a match with its
+// result, enter the result of an existing match, nothing, or nothing because
+// of a problem with the row
+export type ImportRowAction = "CREATE" | "CREATE_RESULT" | "UPDATE_SCORE" | "UNCHANGED" | "SKIP";
+
+export interface ImportedTeam {
+  name: string;               // As written in the file
+  teamId: number | null;
+  teamName: string | null;    // The seeded team it was matched to
+  confidence: number | null;  // Of an automatic match; null when mapped by hand or unmatched
+  mapping: "AUTO" | "MANUAL" | "CUSTOM" | "SKIP" | null;  // Null when no team was found
+}
+
+export interface ImportedCompetition {
+  name: string;               // As written in the file
+  rows: number;
+  included: boolean;
+}
+
+export interface ImportedRow {
+  line: number;
+  startTime: Date | null;
+  competition: string | null;
+  homeName: string;
+  awayName: string;
+  homeScore: number | null;
+  awayScore: number | null;
+  penHomeScore: number | null;
+  penAwayScore: number | null;
+  matchId: number | null;     // Existing match between the two teams on that day
+  action: ImportRowAction;
+  problem: string | null;     // Why the row is skipped
+}
+
+export interface ImportReport {
+  rows: ImportedRow[];
+  teams: ImportedTeam[];
+  competitions: ImportedCompetition[];  // Empty when the file has no competition column
+  created: number;            // Zero for a preview
+  updated: number;
+  regradedBets: number;
+}
@@ -0,0 +1,30 @@
+import type { Season } from "./schema";
+
+type SeasonDates = Pick<Season, "startDate" | "endDate">;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// End of the season, exclusive; the end date counts as a whole day so a
+// season ending on the last matchday still includes its evening kick-offs
+export function getSeasonEnd(season: SeasonDates): Date {
+  return new Date(new Date(season.endDate).getTime() + DAY_MS);
+}
+
+export function isInSeason(season: SeasonDates, date: Date | string): boolean {
+  const time = new Date(date).getTime();
+  return time >= new Date(season.startDate).getTime() && time < getSeasonEnd(season).getTime();
+}
+
+// The season a match on the given date belongs to; if seasons overlap the
+// one that started last wins
+export function findSeasonForDate<T extends SeasonDates>(seasons: T[], date: Date | string): T | undefined {
+  return seasons
+    .filter(season => isInSeason(season, date))
+    .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())[0];
+}
+
+// Season shown by default: the one under way, else the latest to start
+export function getCurrentSeason<T extends SeasonDates>(seasons: T[], now: Date = new Date()): T | undefined {
+  return findSeasonForDate(seasons, now)
+    ?? [...seasons].sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime())[0];
+}
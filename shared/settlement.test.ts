@@ -0,0 +1,204 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { settleBet, gradeBet, gradeLine, settleSelection, type SettleableMarket, type SettleableMatch } from "./settlement";
+import { parseMarketType } from "./markets";
+import type { MatchStats } from "./match-events";
+
+// A market as stored, its structure parsed from the type string
+const market = (type: string): SettleableMarket => {
+  const spec = parseMarketType(type);
+  return { type, family: spec?.family ?? null, side: spec?.side ?? null, line: spec?.line ?? null, result: null };
+};
+
+const finished = (score: Partial<SettleableMatch>): SettleableMatch => ({
+  status: "FINISHED", homeScore: 0, awayScore: 0, htHomeScore: null, htAwayScore: null, ...score
+});
+
+const stats: MatchStats = { homeCorners: 6, awayCorners: 4, cards: 4, bookingPoints: 45, firstCard: "AWAY" };
+
+describe("gradeLine", () => {
+  it("grades whole and half lines on the margin", () => {
+    assert.equal(gradeLine(3, 2.5), "WON");
+    assert.equal(gradeLine(2, 2.5), "LOST");
+    assert.equal(gradeLine(2, 2), "PUSH");
+  });
+
+  it("splits quarter lines into two half stakes", () => {
+    // 2.25 is half on 2 and half on 2.5
+    assert.equal(gradeLine(2, 2.25), "HALF_LOST");
+    assert.equal(gradeLine(3, 2.25), "WON");
+    // 2.75 is half on 2.5 and half on 3
+    assert.equal(gradeLine(3, 2.75), "HALF_WON");
+    assert.equal(gradeLine(2, 2.75), "LOST");
+    // Negative quarter lines, as used by Asian handicaps
+    assert.equal(gradeLine(0, -0.25), "HALF_WON");
+    assert.equal(gradeLine(0, 0.25), "HALF_LOST");
+    assert.equal(gradeLine(-1, -0.75), "HALF_LOST");
+    assert.equal(gradeLine(-1, -0.25), "LOST");
+  });
+});
+
+describe("settleSelection", () => {
+  it("waits for a match that is not finished", () => {
+    assert.equal(settleSelection(market("1"), { ...finished({}), status: "LIVE" }), null);
+  });
+
+  it("voids selections on a called off match or a missing market", () => {
+    assert.equal(settleSelection(market("1"), { ...finished({ homeScore: 2 }), status: "ABANDONED" }), "VOID");
+    assert.equal(settleSelection(market("1"), { ...finished({}), status: "CANCELLED" }), "VOID");
+    assert.equal(settleSelection(undefined, finished({})), "VOID");
+  });
+
+  it("grades match result, double chance and draw no bet", () => {
+    const homeWin = finished({ homeScore: 2, awayScore: 1 });
+    const draw = finished({ homeScore: 1, awayScore: 1 });
+    assert.equal(settleSelection(market("1"), homeWin), "WON");
+    assert.equal(settleSelection(market("X"), homeWin), "LOST");
+    assert.equal(settleSelection(market("DC_X2"), draw), "WON");
+    assert.equal(settleSelection(market("DC_12"), draw), "LOST");
+    assert.equal(settleSelection(market("DNB_2"), draw), "PUSH");
+    assert.equal(settleSelection(market("DNB_2"), homeWin), "LOST");
+  });
+
+  it("grades goal totals and both teams to score", () => {
+    const result = finished({ homeScore: 2, awayScore: 1 });
+    assert.equal(settleSelection(market("OVER_2_5"), result), "WON");
+    assert.equal(settleSelection(market("UNDER_2_5"), result), "LOST");
+    assert.equal(settleSelection(market("BTTS_YES"), result), "WON");
+    assert.equal(settleSelection(market("BTTS_NO"), finished({ homeScore: 3 })), "WON");
+  });
+
+  it("grades half time markets and voids them without a half time score", () => {
+    const result = finished({ homeScore: 2, awayScore: 1, htHomeScore: 1, htAwayScore: 0 });
+    assert.equal(settleSelection(market("HT_1"), result), "WON");
+    assert.equal(settleSelection(market("HT_OVER_0_5"), result), "WON");
+    assert.equal(settleSelection(market("HT_BTTS_YES"), result), "LOST");
+    assert.equal(settleSelection(market("WIN_BOTH_HALVES_1"), result), "LOST");
+    assert.equal(settleSelection(market("WIN_EITHER_HALF_1"), result), "WON");
+    assert.equal(settleSelection(market("HT_1"), finished({ homeScore: 2 })), "VOID");
+  });
+
+  it("grades three-way handicaps without a push", () => {
+    const result = finished({ homeScore: 2, awayScore: 1 });
+    assert.equal(settleSelection(market("HANDICAP_1_MINUS_1"), result), "LOST");
+    assert.equal(settleSelection(market("HANDICAP_2_PLUS_1"), result), "LOST");
+    assert.equal(settleSelection(market("HANDICAP_2_PLUS_2"), result), "WON");
+  });
+
+  it("grades Asian handicaps and totals on quarter lines", () => {
+    const homeByOne = finished({ homeScore: 2, awayScore: 1 });
+    assert.equal(settleSelection(market("ASIAN_HANDICAP_1_MINUS_1"), homeByOne), "PUSH");
+    assert.equal(settleSelection(market("ASIAN_HANDICAP_1_MINUS_1_25"), homeByOne), "HALF_LOST");
+    assert.equal(settleSelection(market("ASIAN_HANDICAP_2_PLUS_0_75"), homeByOne), "HALF_LOST");
+    assert.equal(settleSelection(market("ASIAN_HANDICAP_1_MINUS_0_75"), homeByOne), "HALF_WON");
+    assert.equal(settleSelection(market("ASIAN_OVER_2_75"), homeByOne), "HALF_WON");
+    assert.equal(settleSelection(market("ASIAN_UNDER_3_25"), homeByOne), "HALF_WON");
+  });
+
+  it("grades correct scores", () => {
+    assert.equal(settleSelection(market("CS_2_1"), finished({ homeScore: 2, awayScore: 1 })), "WON");
+    assert.equal(settleSelection(market("CS_1_2"), finished({ homeScore: 2, awayScore: 1 })), "LOST");
+    assert.equal(settleSelection(market("CS_OTHER"), finished({ homeScore: 5, awayScore: 0 })), "WON");
+  });
+
+  it("grades corner and card markets and voids them without recorded events", () => {
+    const result = finished({ stats });
+    assert.equal(settleSelection(market("CORNERS_OVER_9_5"), result), "WON");
+    assert.equal(settleSelection(market("HOME_CORNERS_UNDER_4_5"), result), "LOST");
+    assert.equal(settleSelection(market("AWAY_CORNERS_UNDER_4_5"), result), "WON");
+    assert.equal(settleSelection(market("CARDS_UNDER_3_5"), result), "LOST");
+    assert.equal(settleSelection(market("BOOKING_POINTS_OVER_40_5"), result), "WON");
+    assert.equal(settleSelection(market("FIRST_CARD_2"), result), "WON");
+    assert.equal(settleSelection(market("FIRST_CARD_NONE"), result), "LOST");
+    assert.equal(settleSelection(market("CORNERS_OVER_9_5"), finished({})), "VOID");
+  });
+
+  it("grades cup tie markets on extra time and penalties", () => {
+    const penalties = finished({ homeScore: 1, awayScore: 1, etHomeScore: 2, etAwayScore: 2, penHomeScore: 3, penAwayScore: 4 });
+    assert.equal(settleSelection(market("QUALIFY_2"), penalties), "WON");
+    assert.equal(settleSelection(market("MOV_2_PEN"), penalties), "WON");
+    assert.equal(settleSelection(market("MOV_2_ET"), penalties), "LOST");
+    assert.equal(settleSelection(market("X"), penalties), "WON");
+    // A level tie without extra time or penalties entered is still undecided
+    assert.equal(settleSelection(market("QUALIFY_1"), finished({ homeScore: 1, awayScore: 1 })), null);
+  });
+
+  it("takes an admin's result for custom markets", () => {
+    const custom: SettleableMarket = { type: "Primeiro golo: Ronaldo", family: null, side: null, line: null, result: null };
+    assert.equal(settleSelection(custom, finished({})), null);
+    assert.equal(settleSelection({ ...custom, result: "WON" }, finished({})), "WON");
+  });
+});
+
+describe("gradeBet", () => {
+  it("loses on any lost leg", () => {
+    assert.equal(gradeBet(["WON", "LOST"], 0), "LOST");
+  });
+
+  it("pushes when every leg is void or pushed", () => {
+    assert.equal(gradeBet(["VOID", "PUSH"], 1), "PUSH");
+  });
+
+  it("keeps a half result shared by every graded leg", () => {
+    assert.equal(gradeBet(["HALF_WON", "HALF_WON"], 2.1), "HALF_WON");
+    assert.equal(gradeBet(["HALF_LOST", "VOID"], 0.5), "HALF_LOST");
+  });
+});
+
+describe("settleBet", () => {
+  it("takes the half result of a quarter line single", () => {
+    assert.deepEqual(settleBet(10, [{ outcome: "HALF_WON", odds: 1.9 }]), { status: "HALF_WON", payout: 14.5 });
+    assert.deepEqual(settleBet(10, [{ outcome: "HALF_LOST", odds: 1.9 }]), { status: "HALF_LOST", payout: 5 });
+  });
+
+  it("keeps the half result when the other legs are void", () => {
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "HALF_LOST", odds: 1.9 }, { outcome: "VOID", odds: 3 }]),
+      { status: "HALF_LOST", payout: 5 }
+    );
+  });
+
+  it("pushes an accumulator whose half lost leg cancels out a winner", () => {
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "WON", odds: 2 }, { outcome: "HALF_LOST", odds: 1.9 }]),
+      { status: "PUSH", payout: 10 }
+    );
+  });
+
+  it("marks an accumulator paying back less than its stake as half lost", () => {
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "HALF_WON", odds: 1.9 }, { outcome: "HALF_LOST", odds: 2 }]),
+      { status: "HALF_LOST", payout: 7.25 }
+    );
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "WON", odds: 1.5 }, { outcome: "HALF_LOST", odds: 1.9 }]),
+      { status: "HALF_LOST", payout: 7.5 }
+    );
+  });
+
+  it("wins an accumulator paying back more than its stake", () => {
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "WON", odds: 3 }, { outcome: "HALF_LOST", odds: 1.9 }]),
+      { status: "WON", payout: 15 }
+    );
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "WON", odds: 2 }, { outcome: "HALF_WON", odds: 1.9 }]),
+      { status: "WON", payout: 29 }
+    );
+  });
+
+  it("reprices void legs at 1.00", () => {
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "VOID", odds: 2.5 }, { outcome: "WON", odds: 3 }]),
+      { status: "WON", payout: 30 }
+    );
+  });
+
+  it("waits for undecided legs unless one has lost", () => {
+    assert.equal(settleBet(10, [{ outcome: "WON", odds: 2 }, { outcome: null, odds: 2 }]), null);
+    assert.deepEqual(
+      settleBet(10, [{ outcome: "LOST", odds: 2 }, { outcome: null, odds: 2 }]),
+      { status: "LOST", payout: 0 }
+    );
+  });
+});
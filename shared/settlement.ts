@@ -0,0 +1,294 @@
+// Settlement engine used by every server path that settles a bet (and by pricing).
+// Every market is graded here so a result is never graded differently in two places.
+import type { Market, MarketFamily } from "./schema";
+import { getMarketSpec, parseMarketType, parseCorrectScore, getQuarterLineSplit, type MarketSpec } from "./markets";
+import type { MatchStats } from "./match-events";
+import { getTieResult, type TieScore } from "./cups";
+
+export type SettlementOutcome = "WON" | "LOST" | "PUSH" | "VOID" | "HALF_WON" | "HALF_LOST";
+
+export interface MatchResult extends TieScore {
+  homeScore: number | null;
+  awayScore: number | null;
+  htHomeScore?: number | null;
+  htAwayScore?: number | null;
+  // Corner and card counts from the match events, null if none were recorded
+  stats?: MatchStats | null;
+}
+
+export interface SettleableMatch extends MatchResult {
+  status: string;
+}
+
+// Matches that will not be completed: every selection on them is void
+export const VOID_MATCH_STATUSES = ["ABANDONED", "CANCELLED"];
+
+// Whether bets on a match with this status can be settled
+export function isMatchSettled(status: string): boolean {
+  return status === "FINISHED" || VOID_MATCH_STATUSES.includes(status);
+}
+
+// Grades a line bet from the margin between the result and the line
+function gradeMargin(margin: number): SettlementOutcome {
+  if (margin > 0) return "WON";
+  if (margin < 0) return "LOST";
+  return "PUSH";
+}
+
+// Grades a handicap/total line, splitting quarter lines (e.g. -0.25, 2.75)
+// into two half stakes so they can half-win or half-lose
+export function gradeLine(value: number, line: number): SettlementOutcome {
+  const split = getQuarterLineSplit(line);
+  if (!split) {
+    return gradeMargin(value - line);
+  }
+
+  const lower = gradeMargin(value - split[0]);
+  const upper = gradeMargin(value - split[1]);
+  if (lower === upper) return lower;
+  if (lower === "WON" || upper === "WON") return "HALF_WON";
+  return "HALF_LOST";
+}
+
+// Markets that need the half time score to be graded
+const HALF_TIME_FAMILIES: MarketFamily[] = ["HT_RESULT", "HT_TOTAL", "HT_BTTS", "WIN_BOTH_HALVES", "WIN_EITHER_HALF"];
+
+export function isHalfTimeMarket(market: string | MarketSpec): boolean {
+  const spec = typeof market === "string" ? parseMarketType(market) : market;
+  return !!spec && HALF_TIME_FAMILIES.includes(spec.family);
+}
+
+// Markets graded on the corners and cards recorded as match events rather than the score
+const EVENT_FAMILIES: MarketFamily[] = ["CORNERS", "HOME_CORNERS", "AWAY_CORNERS", "CARDS", "BOOKING_POINTS", "FIRST_CARD"];
+
+export function isEventMarket(market: string | MarketSpec): boolean {
+  const spec = typeof market === "string" ? parseMarketType(market) : market;
+  return !!spec && EVENT_FAMILIES.includes(spec.family);
+}
+
+// Markets graded on who won a cup tie, after extra time and penalties,
+// rather than on the 90 minute score
+const TIE_FAMILIES: MarketFamily[] = ["TO_QUALIFY", "METHOD_OF_VICTORY"];
+
+export function isTieMarket(market: string | MarketSpec): boolean {
+  const spec = typeof market === "string" ? parseMarketType(market) : market;
+  return !!spec && TIE_FAMILIES.includes(spec.family);
+}
+
+// Correct score markets are offered for every score up to this many goals per side,
+// any other score is covered by CS_OTHER
+export const CORRECT_SCORE_MAX_GOALS = 4;
+
+function gradeCondition(condition: boolean): SettlementOutcome {
+  return condition ? "WON" : "LOST";
+}
+
+// Grades a home/draw/away style side against a goal margin (home minus away)
+function gradeResultSide(side: string, margin: number): SettlementOutcome {
+  switch (side) {
+    case "HOME": return gradeCondition(margin > 0);
+    case "DRAW": return gradeCondition(margin === 0);
+    case "AWAY": return gradeCondition(margin < 0);
+    case "HOME_DRAW": return gradeCondition(margin >= 0);
+    case "HOME_AWAY": return gradeCondition(margin !== 0);
+    case "DRAW_AWAY": return gradeCondition(margin <= 0);
+    default: return "VOID";
+  }
+}
+
+function gradeTotal(side: string, goals: number, line: number | null): SettlementOutcome {
+  if (line === null) return "VOID";
+  if (side === "OVER") return gradeLine(goals, line);
+  if (side === "UNDER") return gradeLine(-goals, -line);
+  return "VOID";
+}
+
+function gradeBothTeamsScore(side: string, homeGoals: number, awayGoals: number): SettlementOutcome {
+  const bothScored = homeGoals > 0 && awayGoals > 0;
+  if (side === "YES") return gradeCondition(bothScored);
+  if (side === "NO") return gradeCondition(!bothScored);
+  return "VOID";
+}
+
+// Settles a market against a match result. Returns null while the match
+// has no final score (or, for cup tie markets, no winner of the tie yet),
+// and VOID for markets that cannot be graded from it.
+// Accepts a market structure or a type string, custom markets (null) are void.
+export function settleMarket(market: string | MarketSpec | null, result: MatchResult): SettlementOutcome | null {
+  const { homeScore, awayScore } = result;
+  if (homeScore === null || awayScore === null) {
+    return null;
+  }
+
+  const spec = typeof market === "string" ? parseMarketType(market) : market;
+  if (!spec) {
+    return "VOID";
+  }
+
+  const hasHalfTime = result.htHomeScore != null && result.htAwayScore != null;
+  const htHomeScore = result.htHomeScore ?? 0;
+  const htAwayScore = result.htAwayScore ?? 0;
+
+  // Half time markets cannot be graded without a half time score
+  if (!hasHalfTime && isHalfTimeMarket(spec)) {
+    return "VOID";
+  }
+
+  // Nor corner and card markets without any recorded events
+  const { stats } = result;
+  if (!stats && isEventMarket(spec)) {
+    return "VOID";
+  }
+
+  // A level cup tie stays open until its extra time or shoot-out is entered
+  const tie = isTieMarket(spec) ? getTieResult(result) : null;
+  if (isTieMarket(spec) && !tie) {
+    return null;
+  }
+
+  const { side, line } = spec;
+  const margin = homeScore - awayScore;
+  const htMargin = htHomeScore - htAwayScore;
+  const secondHalfMargin = margin - htMargin;
+  // Margin from the point of view of the backed team
+  const sideMargin = (value: number) => side === "AWAY" ? -value : value;
+
+  switch (spec.family) {
+    case "MATCH_RESULT":
+    case "DOUBLE_CHANCE":
+      return gradeResultSide(side, margin);
+
+    // Draw No Bet (stake returned on a draw)
+    case "DRAW_NO_BET": return gradeMargin(sideMargin(margin));
+
+    case "TOTAL":
+    case "ASIAN_TOTAL":
+      return gradeTotal(side, homeScore + awayScore, line);
+    case "BTTS": return gradeBothTeamsScore(side, homeScore, awayScore);
+
+    // Half Time Markets
+    case "HT_RESULT": return gradeResultSide(side, htMargin);
+    case "HT_TOTAL": return gradeTotal(side, htHomeScore + htAwayScore, line);
+    case "HT_BTTS": return gradeBothTeamsScore(side, htHomeScore, htAwayScore);
+
+    // Handicap Markets (three-way, no push)
+    case "HANDICAP":
+      return line === null ? "VOID" : gradeCondition(sideMargin(margin) + line > 0);
+
+    // Asian Handicap (push on a level result, quarter lines split the stake)
+    case "ASIAN_HANDICAP":
+      return line === null ? "VOID" : gradeLine(sideMargin(margin), -line);
+
+    case "WIN_BOTH_HALVES":
+      return gradeCondition(sideMargin(htMargin) > 0 && sideMargin(secondHalfMargin) > 0);
+    case "WIN_EITHER_HALF":
+      return gradeCondition(sideMargin(htMargin) > 0 || sideMargin(secondHalfMargin) > 0);
+
+    case "CORRECT_SCORE": {
+      if (side === "OTHER") {
+        return gradeCondition(homeScore > CORRECT_SCORE_MAX_GOALS || awayScore > CORRECT_SCORE_MAX_GOALS);
+      }
+      const score = parseCorrectScore(spec);
+      return score ? gradeCondition(homeScore === score.home && awayScore === score.away) : "VOID";
+    }
+
+    // Corner and card markets
+    case "CORNERS": return gradeTotal(side, stats!.homeCorners + stats!.awayCorners, line);
+    case "HOME_CORNERS": return gradeTotal(side, stats!.homeCorners, line);
+    case "AWAY_CORNERS": return gradeTotal(side, stats!.awayCorners, line);
+    case "CARDS": return gradeTotal(side, stats!.cards, line);
+    case "BOOKING_POINTS": return gradeTotal(side, stats!.bookingPoints, line);
+    case "FIRST_CARD": return gradeCondition((stats!.firstCard ?? "NONE") === side);
+
+    // Cup tie markets
+    case "TO_QUALIFY": return gradeCondition(tie!.winner === side);
+    case "METHOD_OF_VICTORY": return gradeCondition(`${tie!.winner}_${tie!.method}` === side);
+
+    default: return "VOID";
+  }
+}
+
+// Multiplier applied to a selection's stake share for a given outcome
+export function getOutcomeMultiplier(outcome: SettlementOutcome, odds: number): number {
+  switch (outcome) {
+    case "WON": return odds;
+    case "HALF_WON": return (odds + 1) / 2;
+    case "PUSH":
+    case "VOID": return 1;
+    case "HALF_LOST": return 0.5;
+    case "LOST": return 0;
+  }
+}
+
+export type SettleableMarket = Pick<Market, "type" | "family" | "side" | "line" | "result">;
+
+// Settles a single selection against its match. Selections whose market or
+// match no longer exists, or whose match was called off, are void. Custom
+// markets have no rules to grade them: they wait for an admin's result.
+export function settleSelection(market: SettleableMarket | undefined, match: SettleableMatch | undefined): SettlementOutcome | null {
+  if (!market || !match || VOID_MATCH_STATUSES.includes(match.status)) {
+    return "VOID";
+  }
+  if (match.status !== "FINISHED") {
+    return null;
+  }
+
+  const spec = getMarketSpec(market);
+  if (!spec) {
+    return (market.result as SettlementOutcome | null) ?? null;
+  }
+  return settleMarket(spec, match);
+}
+
+export const BET_RESULTS = ["WON", "LOST", "PUSH", "HALF_WON", "HALF_LOST"] as const;
+export type BetResult = typeof BET_RESULTS[number];
+
+// Combines the outcomes of a bet's selections into a bet status. A bet whose
+// only graded legs share a half result (e.g. an Asian quarter line single)
+// takes that half result. Any other mix is judged on its combined multiplier:
+// paying back more than the stake is WON, exactly the stake PUSH, and less
+// HALF_LOST (part of the stake returned).
+export function gradeBet(outcomes: SettlementOutcome[], multiplier: number): BetResult {
+  if (outcomes.some(outcome => outcome === "LOST")) return "LOST";
+
+  const graded = outcomes.filter(outcome => outcome !== "PUSH" && outcome !== "VOID");
+  if (graded.length === 0) return "PUSH";
+  if (graded.every(outcome => outcome === "HALF_WON")) return "HALF_WON";
+  if (graded.every(outcome => outcome === "HALF_LOST")) return "HALF_LOST";
+
+  // Rounded so 2 x 0.5 is not read as a hair over or under the stake
+  const returned = Math.round(multiplier * 10000) / 10000;
+  if (returned > 1) return "WON";
+  if (returned === 1) return "PUSH";
+  return "HALF_LOST";
+}
+
+export interface SettledLeg {
+  outcome: SettlementOutcome | null;
+  odds: number;
+}
+
+export interface SettledBet {
+  status: BetResult;
+  payout: number;
+}
+
+// Settles a bet once every leg is decided (a lost leg decides it straight away).
+// Void and pushed legs count as odds 1.00, so a void single is refunded.
+export function settleBet(stake: number, legs: SettledLeg[]): SettledBet | null {
+  if (legs.some(leg => leg.outcome === "LOST")) {
+    return { status: "LOST", payout: 0 };
+  }
+
+  const outcomes: SettlementOutcome[] = [];
+  for (const leg of legs) {
+    if (leg.outcome === null) return null;
+    outcomes.push(leg.outcome);
+  }
+
+  const multiplier = legs.reduce((total, leg) => total * getOutcomeMultiplier(leg.outcome!, leg.odds), 1);
+  return {
+    status: gradeBet(outcomes, multiplier),
+    payout: Math.round(stake * multiplier * 100) / 100
+  };
+}
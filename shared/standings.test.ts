@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { computeStandings, getTeamKey, DEFAULT_TIEBREAKERS, type StandingsRules } from "./standings";
+
+const rules: StandingsRules = { pointsForWin: 3, pointsForDraw: 1, pointsForLoss: 0, tiebreakers: DEFAULT_TIEBREAKERS };
+
+// A finished match between custom teams, known by name only
+const result = (home: string, homeScore: number, awayScore: number, away: string, status = "FINISHED") => ({
+  homeTeamId: null,
+  awayTeamId: null,
+  homeTeamName: home,
+  awayTeamName: away,
+  homeScore,
+  awayScore,
+  status
+});
+
+const order = (rows: { name: string }[]) => rows.map(row => row.name);
+
+describe("computeStandings", () => {
+  it("adds up points, goals and results", () => {
+    const [first, second] = computeStandings([result("A", 2, 0, "B"), result("B", 1, 1, "A")], rules);
+    assert.deepEqual(
+      { name: first.name, played: first.played, won: first.won, drawn: first.drawn, points: first.points, goalDifference: first.goalDifference },
+      { name: "A", played: 2, won: 1, drawn: 1, points: 4, goalDifference: 2 }
+    );
+    assert.equal(second.awayGoalsFor, 0);
+    assert.deepEqual([first.position, second.position], [1, 2]);
+  });
+
+  it("lists teams with fixtures still to play, but only counts finished matches", () => {
+    const rows = computeStandings([result("A", 1, 0, "B"), result("C", 3, 0, "A", "LIVE")], rules);
+    assert.deepEqual(order(rows), ["A", "C", "B"]);
+    assert.equal(rows.find(row => row.name === "C")!.played, 0);
+  });
+
+  it("uses the league's points for a win, draw and loss", () => {
+    const [winner, loser] = computeStandings([result("A", 1, 0, "B")], { ...rules, pointsForWin: 2, pointsForLoss: 1 });
+    assert.deepEqual([winner.points, loser.points], [2, 1]);
+  });
+
+  it("breaks a tie on points with the tiebreakers in order", () => {
+    const matches = [result("A", 4, 0, "C"), result("B", 1, 0, "A"), result("D", 1, 0, "B"), result("C", 0, 0, "D")];
+    // A and B have 3 points each; A has the better goal difference
+    assert.deepEqual(order(computeStandings(matches, rules)), ["D", "A", "B", "C"]);
+    // Head-to-head first puts B, who beat A, ahead
+    const headToHeadFirst = { ...rules, tiebreakers: ["HEAD_TO_HEAD" as const, "GOAL_DIFFERENCE" as const] };
+    assert.deepEqual(order(computeStandings(matches, headToHeadFirst)), ["D", "B", "A", "C"]);
+  });
+
+  it("works head-to-head out again for the teams still level", () => {
+    // A, B and C beat one another 1-0 in a circle, so head-to-head leaves all
+    // three level. Goals scored then puts C first and leaves A and B, whose own
+    // game A won
+    const matches = [
+      result("A", 1, 0, "B"), result("B", 1, 0, "C"), result("C", 1, 0, "A"),
+      result("A", 1, 1, "D"), result("B", 1, 1, "D"), result("C", 2, 2, "D")
+    ];
+    const tiebreakers = { ...rules, tiebreakers: ["HEAD_TO_HEAD" as const, "GOALS_FOR" as const, "HEAD_TO_HEAD" as const] };
+    assert.deepEqual(order(computeStandings(matches, tiebreakers)), ["C", "A", "B", "D"]);
+  });
+
+  it("lists teams level on everything by name", () => {
+    assert.deepEqual(order(computeStandings([result("Zeta", 1, 1, "Alfa")], rules)), ["Alfa", "Zeta"]);
+  });
+
+  it("names seeded teams from the team list and matches custom ones ignoring case", () => {
+    const rows = computeStandings([
+      { homeTeamId: 7, awayTeamId: null, homeTeamName: null, awayTeamName: "Porto B", homeScore: 2, awayScore: 1, status: "FINISHED" },
+      { homeTeamId: null, awayTeamId: 7, homeTeamName: "porto b", awayTeamName: null, homeScore: 0, awayScore: 0, status: "FINISHED" }
+    ], rules, new Map([[7, "Benfica"]]));
+    assert.deepEqual(rows.map(row => [row.name, row.teamId, row.played]), [["Benfica", 7, 2], ["Porto B", null, 2]]);
+  });
+});
+
+describe("getTeamKey", () => {
+  it("prefers the team ID and falls back to the trimmed, lower-cased name", () => {
+    assert.equal(getTeamKey(3, "Anything"), "id:3");
+    assert.equal(getTeamKey(null, "  Porto B "), "name:porto b");
+    assert.equal(getTeamKey(null, " "), null);
+  });
+});
@@ -0,0 +1,236 @@
+// League standings computed from finished matches. Teams are matched on
+// their team ID, or on their name for custom teams that only have one, so
+// tables work for seeded and hand-made fixtures alike.
+import type { League, Match, StandingsTiebreaker } from "./schema";
+
+export const DEFAULT_TIEBREAKERS: StandingsTiebreaker[] = ["GOAL_DIFFERENCE", "GOALS_FOR", "HEAD_TO_HEAD"];
+
+export type StandingsRules = Pick<League, "pointsForWin" | "pointsForDraw" | "pointsForLoss"> & {
+  tiebreakers: StandingsTiebreaker[];
+};
+
+export function getStandingsRules(league: League): StandingsRules {
+  return {
+    pointsForWin: league.pointsForWin,
+    pointsForDraw: league.pointsForDraw,
+    pointsForLoss: league.pointsForLoss,
+    tiebreakers: league.tiebreakers ?? DEFAULT_TIEBREAKERS
+  };
+}
+
+export interface StandingsRow {
+  key: string;            // Team ID, or the name for custom teams
+  teamId: number | null;
+  name: string;
+  position: number;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  awayGoalsFor: number;
+  points: number;
+}
+
+export interface Standings {
+  leagueId: number;
+  seasonId: number | null;  // Null when the table covers every season
+  rules: StandingsRules;
+  rows: StandingsRow[];
+}
+
+type StandingsMatch = Pick<
+  Match,
+  "homeTeamId" | "awayTeamId" | "homeTeamName" | "awayTeamName" | "homeScore" | "awayScore" | "status"
+>;
+
+interface TeamRef {
+  key: string;
+  teamId: number | null;
+  name: string;
+}
+
+// Identifies a side of a match: its team ID, or the name (ignoring case)
+// for custom teams. Null when it has neither.
+export function getTeamKey(teamId: number | null | undefined, teamName: string | null | undefined): string | null {
+  if (teamId != null) return `id:${teamId}`;
+  const name = teamName?.trim();
+  return name ? `name:${name.toLowerCase()}` : null;
+}
+
+function getTeamRef(
+  teamId: number | null,
+  teamName: string | null,
+  teamNames: Map<number, string>
+): TeamRef | null {
+  const key = getTeamKey(teamId, teamName);
+  if (!key) return null;
+  if (teamId != null) {
+    return { key, teamId, name: teamNames.get(teamId) || teamName || `Team ${teamId}` };
+  }
+  return { key, teamId: null, name: teamName!.trim() };
+}
+
+interface PlayedMatch {
+  home: string;
+  away: string;
+  homeScore: number;
+  awayScore: number;
+}
+
+function emptyRow(team: TeamRef): StandingsRow {
+  return {
+    ...team,
+    position: 0,
+    played: 0,
+    won: 0,
+    drawn: 0,
+    lost: 0,
+    goalsFor: 0,
+    goalsAgainst: 0,
+    goalDifference: 0,
+    awayGoalsFor: 0,
+    points: 0
+  };
+}
+
+// Adds a result to both sides' rows
+function addResult(rows: Map<string, StandingsRow>, match: PlayedMatch, rules: StandingsRules) {
+  const sides = [
+    { row: rows.get(match.home)!, scored: match.homeScore, conceded: match.awayScore, isAway: false },
+    { row: rows.get(match.away)!, scored: match.awayScore, conceded: match.homeScore, isAway: true }
+  ];
+
+  for (const { row, scored, conceded, isAway } of sides) {
+    row.played++;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    if (isAway) row.awayGoalsFor += scored;
+
+    if (scored > conceded) {
+      row.won++;
+      row.points += rules.pointsForWin;
+    } else if (scored === conceded) {
+      row.drawn++;
+      row.points += rules.pointsForDraw;
+    } else {
+      row.lost++;
+      row.points += rules.pointsForLoss;
+    }
+  }
+}
+
+// Points, goal difference and goals scored in the games between the tied
+// teams only, compared in that order
+function getHeadToHeadValues(tied: StandingsRow[], played: PlayedMatch[], rules: StandingsRules): Map<string, number[]> {
+  const keys = new Set(tied.map(row => row.key));
+  const rows = new Map(tied.map(row => [row.key, emptyRow(row)]));
+  for (const match of played) {
+    if (keys.has(match.home) && keys.has(match.away)) {
+      addResult(rows, match, rules);
+    }
+  }
+  return new Map(Array.from(rows.values()).map(row => [row.key, [row.points, row.goalDifference, row.goalsFor]]));
+}
+
+function getTiebreakerValues(
+  tiebreaker: StandingsTiebreaker,
+  tied: StandingsRow[],
+  played: PlayedMatch[],
+  rules: StandingsRules
+): Map<string, number[]> {
+  if (tiebreaker === "HEAD_TO_HEAD") {
+    return getHeadToHeadValues(tied, played, rules);
+  }
+
+  const value = (row: StandingsRow): number => {
+    switch (tiebreaker) {
+      case "GOAL_DIFFERENCE": return row.goalDifference;
+      case "GOALS_FOR": return row.goalsFor;
+      case "WINS": return row.won;
+      case "AWAY_GOALS": return row.awayGoalsFor;
+    }
+  };
+  return new Map(tied.map(row => [row.key, [value(row)]]));
+}
+
+function compareValues(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return b[i] - a[i];
+  }
+  return 0;
+}
+
+// Orders teams level on points: the first tiebreaker splits them into
+// groups, and teams still level within a group go on to the next one.
+// Head-to-head is worked out again for each smaller group, as the games
+// that count change with who is still tied. Teams level on everything are
+// listed by name.
+function breakTies(
+  tied: StandingsRow[],
+  tiebreakers: StandingsTiebreaker[],
+  played: PlayedMatch[],
+  rules: StandingsRules
+): StandingsRow[] {
+  if (tied.length <= 1 || tiebreakers.length === 0) {
+    return [...tied].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  const [tiebreaker, ...rest] = tiebreakers;
+  const values = getTiebreakerValues(tiebreaker, tied, played, rules);
+  const sorted = [...tied].sort((a, b) => compareValues(values.get(a.key)!, values.get(b.key)!));
+
+  const ordered: StandingsRow[] = [];
+  let group: StandingsRow[] = [];
+  for (const row of sorted) {
+    if (group.length > 0 && compareValues(values.get(group[0].key)!, values.get(row.key)!) !== 0) {
+      ordered.push(...breakTies(group, rest, played, rules));
+      group = [];
+    }
+    group.push(row);
+  }
+  ordered.push(...breakTies(group, rest, played, rules));
+  return ordered;
+}
+
+// Builds the table for a league's matches. Every team with a fixture is
+// listed, finished or not; only FINISHED matches with a score count.
+export function computeStandings(
+  matches: StandingsMatch[],
+  rules: StandingsRules,
+  teamNames: Map<number, string> = new Map()
+): StandingsRow[] {
+  const rows = new Map<string, StandingsRow>();
+  const played: PlayedMatch[] = [];
+
+  for (const match of matches) {
+    const home = getTeamRef(match.homeTeamId, match.homeTeamName, teamNames);
+    const away = getTeamRef(match.awayTeamId, match.awayTeamName, teamNames);
+    if (!home || !away) continue;
+
+    if (!rows.has(home.key)) rows.set(home.key, emptyRow(home));
+    if (!rows.has(away.key)) rows.set(away.key, emptyRow(away));
+
+    if (match.status === "FINISHED" && match.homeScore != null && match.awayScore != null) {
+      played.push({ home: home.key, away: away.key, homeScore: match.homeScore, awayScore: match.awayScore });
+    }
+  }
+
+  for (const match of played) {
+    addResult(rows, match, rules);
+  }
+
+  // Group on points, then let the tiebreakers order each group
+  const byPoints = new Map<number, StandingsRow[]>();
+  for (const row of Array.from(rows.values())) {
+    byPoints.set(row.points, [...(byPoints.get(row.points) ?? []), row]);
+  }
+
+  return Array.from(byPoints.keys())
+    .sort((a, b) => b - a)
+    .flatMap(points => breakTies(byPoints.get(points)!, rules.tiebreakers, played, rules))
+    .map((row, index) => ({ ...row, position: index + 1 }));
+}
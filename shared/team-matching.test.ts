@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeTeamName, getTeamNameSimilarity, findTeamByName, MIN_MATCH_CONFIDENCE } from "./team-matching";
+
+const teams = [
+  { id: 1, name: "Sporting CP", shortName: "SCP" },
+  { id: 2, name: "SL Benfica", shortName: "SLB" },
+  { id: 3, name: "Manchester United", shortName: "MUN" },
+  { id: 4, name: "Manchester City", shortName: "MCI" },
+  { id: 5, name: "Vitória SC", shortName: "VSC" },
+  { id: 6, name: "Internazionale", shortName: "INT" }
+];
+
+const find = (name: string) => findTeamByName(name, teams)?.team.id ?? null;
+
+describe("normalizeTeamName", () => {
+  it("drops accents, case and punctuation", () => {
+    assert.equal(normalizeTeamName("  Vitória S.C. "), "vitoria s c");
+    assert.equal(normalizeTeamName("Atlético-MG"), "atletico mg");
+  });
+});
+
+describe("getTeamNameSimilarity", () => {
+  it("is certain of the full name or the short name", () => {
+    assert.equal(getTeamNameSimilarity("sporting cp", teams[0]), 1);
+    assert.equal(getTeamNameSimilarity("SLB", teams[1]), 1);
+  });
+
+  it("ignores club prefixes and suffixes", () => {
+    assert.equal(getTeamNameSimilarity("Benfica", teams[1]), 0.95);
+    assert.equal(getTeamNameSimilarity("Vitoria", teams[4]), 0.95);
+  });
+
+  it("spells out abbreviations and word starts", () => {
+    assert.equal(getTeamNameSimilarity("Man Utd", teams[2]), 0.95);
+    assert.equal(getTeamNameSimilarity("Man C", teams[3]), 0.9);
+  });
+
+  it("finds one name inside the other", () => {
+    assert.equal(getTeamNameSimilarity("Nazionale", teams[5]), 0.85);
+  });
+
+  it("scores unrelated names low", () => {
+    assert.ok(getTeamNameSimilarity("Porto", teams[0]) < MIN_MATCH_CONFIDENCE);
+  });
+});
+
+describe("findTeamByName", () => {
+  it("picks the closest team with its confidence", () => {
+    assert.deepEqual(findTeamByName("Sporting", teams), { team: teams[0], confidence: 0.95 });
+    assert.equal(find("Man Utd"), 3);
+    assert.equal(find("Benfica"), 2);
+  });
+
+  it("leaves names no team is close to unmatched", () => {
+    assert.equal(find("Porto"), null);
+    assert.equal(findTeamByName("Benfica", []), null);
+  });
+
+  it("does not guess between two teams that fit equally well", () => {
+    assert.equal(find("Manchester"), null);
+  });
+});
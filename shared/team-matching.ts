@@ -0,0 +1,114 @@
+// Matches team names typed elsewhere (e.g. a Football Manager export) to the
+// seeded teams. Names are compared without accents, punctuation or club
+// prefixes like "FC", so "Sporting" finds "Sporting CP", abbreviations like
+// "Man Utd" find "Manchester United", and short names ("SLB") match exactly.
+import type { Team } from "./schema";
+
+export type MatchableTeam = Pick<Team, "id" | "name" | "shortName">;
+
+export interface TeamNameMatch<T extends MatchableTeam> {
+  team: T;
+  confidence: number;  // 1 for an exact name or short name, lower for fuzzier matches
+}
+
+// Below this a name is left unmatched rather than guessed
+export const MIN_MATCH_CONFIDENCE = 0.7;
+
+// Two candidates this close are too ambiguous to pick between
+const AMBIGUITY_MARGIN = 0.05;
+
+// Club prefixes and suffixes that do not tell teams apart
+const CLUB_AFFIXES = new Set([
+  "fc", "cf", "sc", "afc", "ac", "as", "ssc", "sv", "fk", "nk", "sk", "cd", "ud", "sd", "rcd", "rc",
+  "cp", "sl", "sad", "club", "clube", "bk", "if", "ik", "ff", "tsv", "vfb", "vfl", "kv", "krc"
+]);
+
+// Common abbreviations in FM's short team names
+const ABBREVIATIONS: Record<string, string> = {
+  utd: "united",
+  man: "manchester",
+  ath: "athletic",
+  atl: "atletico",
+  dep: "deportivo",
+  wed: "wednesday"
+};
+
+export function normalizeTeamName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Words that identify the club, with abbreviations spelled out
+function getCoreTokens(name: string): string[] {
+  const tokens = normalizeTeamName(name).split(" ").filter(Boolean);
+  const core = tokens.filter(token => !CLUB_AFFIXES.has(token));
+  return (core.length > 0 ? core : tokens).map(token => ABBREVIATIONS[token] ?? token);
+}
+
+// Dice coefficient of the two strings' letter pairs
+function getBigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let shared = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+export function getTeamNameSimilarity(name: string, team: MatchableTeam): number {
+  const normalized = normalizeTeamName(name);
+  if (normalized === normalizeTeamName(team.name) || normalized === normalizeTeamName(team.shortName)) {
+    return 1;
+  }
+
+  const tokens = getCoreTokens(name);
+  const teamTokens = getCoreTokens(team.name);
+  const core = tokens.join(" ");
+  const teamCore = teamTokens.join(" ");
+  if (core === teamCore) return 0.95;
+
+  // Every word is the start of a word of the team's name, in order ("Man City")
+  let next = 0;
+  const isAbbreviation = tokens.every(token => {
+    const index = teamTokens.findIndex((teamToken, i) => i >= next && teamToken.startsWith(token));
+    next = index + 1;
+    return index >= 0;
+  });
+  if (isAbbreviation) return 0.9;
+
+  // One name inside the other ("Inter" and "Internazionale")
+  if (Math.min(core.length, teamCore.length) >= 4 && (core.includes(teamCore) || teamCore.includes(core))) {
+    return 0.85;
+  }
+
+  return getBigramSimilarity(core, teamCore) * 0.9;
+}
+
+// The team a name most likely refers to, or null if none is close enough or
+// two are equally close
+export function findTeamByName<T extends MatchableTeam>(name: string, teams: T[]): TeamNameMatch<T> | null {
+  const ranked = teams
+    .map(team => ({ team, confidence: getTeamNameSimilarity(name, team) }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const [best, second] = ranked;
+  if (!best || best.confidence < MIN_MATCH_CONFIDENCE) return null;
+  if (best.confidence < 1 && second && best.confidence - second.confidence < AMBIGUITY_MARGIN) return null;
+  return best;
+}